@@ -1,13 +1,30 @@
-export { IAnalysis } from './lib/analysis';
-export { analyze } from './lib/analyze';
-export { backtest } from './lib/backtest';
+export { Account, AllocationLimit, IAccountHolder, IAccountLimits } from './lib/account';
+export { IAnalysis, IRiskMetrics } from './lib/analysis';
+export { analyze, IAnalyzeOptions } from './lib/analyze';
+export { analyzeAgainstBenchmark, IBenchmarkAnalysis } from './lib/analyze-benchmark';
+export { analyzeBy, IAnalyzeByOptions, ITradeGroupAnalysis, TradeGroupFn, TradeGroupKey } from './lib/analyze-by';
+export { analyzeDrawdowns, IAnalyzeDrawdownsOptions, IDrawdownAnalysis, IDrawdownEpisode } from './lib/analyze-drawdowns';
+export { analyzeExcursions, IAnalyzeExcursionsOptions, IExcursionAnalysis, IExcursionPoint } from './lib/analyze-excursions';
+export { backtest, backtestWithResults, FillTiming, IBacktestOptions, IBacktestResult, IFillTiming } from './lib/backtest';
+export { backtestPortfolio, IPortfolioBacktestOptions, IPortfolioBacktestResult, IStrategyMap } from './lib/backtest-portfolio';
 export { IBar } from './lib/bar';
+export { IBroker, ICancelExitOrderIntent, ICancelOrderIntent, IExitOrder, IFill, IModifyExitOrderIntent, IOrderIntentBase, IPlaceExitOrderIntent, IPlaceOrderIntent, OrderIntent, SimulatedBroker } from './lib/broker';
+export { CommissionFn, CommissionModel, computeCommission, ICommissionArgs } from './lib/commission';
 export { computeDrawdown } from './lib/compute-drawdown';
 export { computeEquityCurve } from './lib/compute-equity-curve';
+export { IIntrabarPathArgs, IIntrabarResolution, IntrabarExit, IntrabarPathFn, IntrabarPathModel, resolveIntrabarPath } from './lib/intrabar-path';
 export { monteCarlo } from './lib/monte-carlo';
 export { IOptimizationResult, IParameterDef, ObjectiveFn, OptimizationType, optimize, OptimizeSearchDirection } from './lib/optimize';
 export { IPosition } from './lib/position';
-export { PositionManager } from './lib/position-manager';
-export { IStrategy } from './lib/strategy';
-export { ITrade } from './lib/trade';
+export { IPositionManagerSnapshot, POSITION_MANAGER_SNAPSHOT_VERSION, PositionManager } from './lib/position-manager';
+export { computePositionSize, IPositionSizeArgs, PositionSizeFn, PositionSizeModel } from './lib/position-sizing';
+export { computeMonthlyReturns, computePeriodReturns, computeRollingMetrics, IMonthlyReturnsRow, IPeriodReturn, IReturnsOptions, IRollingMetrics, ReturnPeriod } from './lib/returns';
+export { computeRiskMetrics, IRiskMetricsOptions } from './lib/risk-metrics';
+export { IReplayOptions, IStreamOptions, IStreamResult, replay, runStream } from './lib/run-stream';
+export { computeBorrowFee, HardToBorrowFn, IAlternativeUptickRestriction, IShortSellingOptions, ShortSaleRestriction, ShortSaleRestrictionFn } from './lib/short-selling';
+export { applySlippage, ISlippageArgs, ISlippageOrder, SlippageFn, SlippageModel } from './lib/slippage';
+export { computeStopLoss, IAtrStop, IBreakevenStop, IChandelierStop, IParabolicSarStop, IPercentStop, IStepStop, ITimeDecayStop, StopLossModel } from './lib/stops';
+export { IBarHookArgs, ICompleteHookArgs, IEnterHookArgs, IExitHookArgs, IHookArgs, InitStateFn, IOrderCancelledHookArgs, IOrderHookArgs, IStopPrice, IStrategy, OrderCancelReason } from './lib/strategy';
+export { checkTimeExits, ITimeExits, TimeExitReason } from './lib/time-exits';
+export { applyTradeToCapital, ITimestampedValue, ITrade } from './lib/trade';
 export { walkForwardOptimize } from './lib/walk-forward-optimize';
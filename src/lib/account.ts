@@ -0,0 +1,143 @@
+import { isFunction } from "./utils";
+
+/**
+ * Something that holds positions against an account, such as a position manager.
+ */
+export interface IAccountHolder {
+    /**
+     * The current value of the positions held.
+     * Short positions are a liability and have negative value.
+     */
+    readonly marketValue: number;
+
+    /**
+     * The number of positions currently open.
+     */
+    readonly numOpenPositions: number;
+}
+
+/**
+ * The maximum value held in a symbol as a percentage of equity, lots added to a position count towards the same limit.
+ * Either one percentage for every symbol, a map of symbol to percentage or a function that returns
+ * the percentage for a symbol. Symbols without a percentage aren't limited.
+ */
+export type AllocationLimit =
+    | number
+    | { [symbol: string]: number }
+    | ((symbol: string | undefined) => number | undefined);
+
+/**
+ * Limits that an account applies to new positions.
+ */
+export interface IAccountLimits {
+    /**
+     * The maximum number of positions that can be open at the same time.
+     */
+    maxPositions?: number;
+
+    /**
+     * The maximum value held in a symbol as a percentage of equity, for every symbol or for each symbol.
+     */
+    maxAllocationPct?: AllocationLimit;
+
+    /**
+     * Limit the value of new long positions to the cash available.
+     */
+    limitToCash?: boolean;
+}
+
+/**
+ * Tracks cash and equity for capital-aware trading.
+ * An account can be shared between multiple position managers to trade a portfolio.
+ */
+export class Account {
+
+    /**
+     * Cash available for trading.
+     */
+    public cash: number;
+
+    /**
+     * Holders of positions valued against this account.
+     */
+    private _holders: IAccountHolder[] = [];
+
+    constructor(public readonly startingCapital: number, public readonly limits: IAccountLimits = {}) {
+        this.cash = startingCapital;
+    }
+
+    /**
+     * Register a holder of positions so they are included in equity.
+     */
+    public register(holder: IAccountHolder): void {
+        this._holders.push(holder);
+    }
+
+    /**
+     * Total equity, cash plus the value of all open positions.
+     */
+    public get equity(): number {
+        let equity = this.cash;
+        for (const holder of this._holders) {
+            equity += holder.marketValue;
+        }
+        return equity;
+    }
+
+    /**
+     * The number of positions open across all holders.
+     */
+    public get numOpenPositions(): number {
+        let numOpenPositions = 0;
+        for (const holder of this._holders) {
+            numOpenPositions += holder.numOpenPositions;
+        }
+        return numOpenPositions;
+    }
+
+    /**
+     * Returns true if the account's limits allow another position to be opened.
+     */
+    public canOpenPosition(): boolean {
+        return this.limits.maxPositions === undefined || this.numOpenPositions < this.limits.maxPositions;
+    }
+
+    /**
+     * Reduce the quantity of a new position, or of a lot added to a position, to fit within the account's limits.
+     *
+     * @param quantity The number of units requested.
+     * @param price The price the position is entered at.
+     * @param isLong Set to true when entering a long position.
+     * @param symbol Symbol of the instrument being traded.
+     * @param heldValue Value of the lots of the symbol that are already held, it counts towards the symbol's allocation.
+     */
+    public limitQuantity(quantity: number, price: number, isLong: boolean, symbol?: string, heldValue: number = 0): number {
+        const maxAllocationPct = this._maxAllocationPct(symbol);
+        if (maxAllocationPct !== undefined) {
+            const maxValue = this.equity * (maxAllocationPct / 100);
+            quantity = Math.min(quantity, Math.max(maxValue - heldValue, 0) / price);
+        }
+
+        if (this.limits.limitToCash && isLong) {
+            quantity = Math.min(quantity, Math.max(this.cash, 0) / price);
+        }
+
+        return quantity;
+    }
+
+    //
+    // Determines the maximum allocation for a symbol, undefined when it isn't limited.
+    //
+    private _maxAllocationPct(symbol: string | undefined): number | undefined {
+        const maxAllocationPct = this.limits.maxAllocationPct;
+        if (maxAllocationPct === undefined || typeof maxAllocationPct === "number") {
+            return maxAllocationPct;
+        }
+
+        if (isFunction(maxAllocationPct)) {
+            return maxAllocationPct(symbol);
+        }
+
+        return symbol !== undefined ? maxAllocationPct[symbol] : undefined;
+    }
+}
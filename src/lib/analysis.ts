@@ -1,7 +1,84 @@
+/**
+ * Risk-adjusted return metrics computed from a timestamped equity curve.
+ */
+export interface IRiskMetrics {
+    /**
+     * Compound annual growth rate as a percentage.
+     */
+    cagrPct: number;
+
+    /**
+     * Annualized standard deviation of per-bar returns as a percentage.
+     */
+    annualizedVolatilityPct: number;
+
+    /**
+     * Annualized mean excess return (over the risk-free rate) divided by the standard deviation of returns.
+     * Undefined when returns don't vary.
+     */
+    sharpeRatio: number | undefined;
+
+    /**
+     * Annualized mean excess return divided by the downside deviation of returns.
+     * Undefined when there are no returns below the risk-free rate.
+     */
+    sortinoRatio: number | undefined;
+
+    /**
+     * CAGR over the most recent three years divided by the maximum drawdown over the same period.
+     * Undefined when there is no drawdown.
+     */
+    calmarRatio: number | undefined;
+
+    /**
+     * CAGR divided by the maximum drawdown over the entire equity curve.
+     * Undefined when there is no drawdown.
+     */
+    marRatio: number | undefined;
+
+    /**
+     * Sum of per-bar returns above the risk-free rate divided by the sum of returns below it.
+     * Undefined when there are no returns below the risk-free rate.
+     */
+    omegaRatio: number | undefined;
+
+    /**
+     * Root mean square of the percentage drawdown from peak equity at each bar.
+     * Measures both the depth and the duration of drawdowns.
+     */
+    ulcerIndex: number;
+
+    /**
+     * Excess CAGR (percentage points over the risk-free rate) divided by the ulcer index.
+     * Undefined when there is no drawdown.
+     */
+    ulcerPerformanceIndex: number | undefined;
+
+    /**
+     * Ratio of the 95th percentile of per-bar returns to the magnitude of the 5th percentile.
+     * Values above 1 mean large gains are bigger than large losses.
+     * Undefined when the 5th percentile return is zero.
+     */
+    tailRatio: number | undefined;
+
+    /**
+     * Skewness of per-bar returns, negative values indicate a long tail of losses.
+     * Undefined when returns don't vary.
+     */
+    returnSkewness: number | undefined;
+
+    /**
+     * Excess kurtosis of per-bar returns, positive values indicate fatter tails than a normal distribution.
+     * Undefined when returns don't vary.
+     */
+    returnKurtosis: number | undefined;
+}
+
 /**
  * Represents an analysis of a trading strategy.
+ * Risk metrics are only set when the analysis is given an equity curve.
  */
-export interface IAnalysis {
+export interface IAnalysis extends Partial<IRiskMetrics> {
     /**
      * Starting capital invested in the trading strategy.
      */
@@ -0,0 +1,182 @@
+import { IDataFrame } from "data-forge";
+import { IBar } from "./bar";
+import { computeReturns, IRiskMetricsOptions, mean, resolveRiskMetricsOptions, standardDeviation } from "./risk-metrics";
+import { ITimestampedValue } from "./trade";
+import { isArray } from "./utils";
+
+/**
+ * Comparison of a strategy against a benchmark.
+ * Ratios are computed from the returns of each bar where both the strategy and the benchmark have a value.
+ */
+export interface IBenchmarkAnalysis {
+    /**
+     * Equity from holding the benchmark, starting with the same equity as the strategy.
+     */
+    benchmarkEquityCurve: ITimestampedValue[];
+
+    /**
+     * Return of the strategy as a percentage.
+     */
+    strategyReturnPct: number;
+
+    /**
+     * Return of buying and holding the benchmark as a percentage.
+     */
+    benchmarkReturnPct: number;
+
+    /**
+     * Return of the strategy less the return of the benchmark, in percentage points.
+     */
+    excessReturnPct: number;
+
+    /**
+     * Annualized return of the strategy not explained by its exposure to the benchmark (Jensen's alpha), as a percentage.
+     * Undefined when the benchmark doesn't vary.
+     */
+    alphaPct: number | undefined;
+
+    /**
+     * Sensitivity of the strategy's returns to the benchmark's returns.
+     * Undefined when the benchmark doesn't vary.
+     */
+    beta: number | undefined;
+
+    /**
+     * Correlation of the strategy's returns with the benchmark's returns, in the range -1 to 1.
+     * Undefined when the strategy or the benchmark doesn't vary.
+     */
+    correlation: number | undefined;
+
+    /**
+     * Annualized standard deviation of the difference between strategy and benchmark returns, as a percentage.
+     */
+    trackingErrorPct: number;
+
+    /**
+     * Annualized mean return over the benchmark divided by the tracking error.
+     * Undefined when there is no tracking error.
+     */
+    informationRatio: number | undefined;
+
+    /**
+     * Average strategy return divided by average benchmark return, over bars where the benchmark rose.
+     * Undefined when the benchmark never rose.
+     */
+    upCapture: number | undefined;
+
+    /**
+     * Average strategy return divided by average benchmark return, over bars where the benchmark fell.
+     * Undefined when the benchmark never fell.
+     */
+    downCapture: number | undefined;
+
+    /**
+     * Percentage of bars where the strategy's return beat the benchmark's return.
+     */
+    pctTimeBeatBenchmark: number;
+}
+
+/**
+ * Compare the equity curve of a strategy against buying and holding a benchmark.
+ * Pass the input series of the backtest as the benchmark to compare against buying and holding the instrument.
+ *
+ * @param equityCurve Equity of the strategy at each bar, as recorded by a backtest with 'recordEquityCurve' enabled.
+ * @param benchmark Bars of the benchmark, the benchmark is held from the close of its first bar.
+ * @param options Options for annualizing returns.
+ */
+export function analyzeAgainstBenchmark<IndexT>(
+    equityCurve: ITimestampedValue[],
+    benchmark: IDataFrame<IndexT, IBar> | IBar[],
+    options?: IRiskMetricsOptions
+): IBenchmarkAnalysis {
+
+    if (!isArray(equityCurve)) {
+        throw new Error("Expected 'equityCurve' argument to 'analyzeAgainstBenchmark' to be an array that contains the equity of the strategy at each bar.");
+    }
+
+    const benchmarkBars = isArray(benchmark) ? benchmark : benchmark.toArray();
+
+    const { barsPerYear, riskFreeRate } = resolveRiskMetricsOptions(options, "analyzeAgainstBenchmark");
+
+    // Align the strategy and the benchmark on time.
+    const benchmarkPrices = new Map<number, number>();
+    for (const bar of benchmarkBars) {
+        benchmarkPrices.set(Number(bar.time), bar.close);
+    }
+
+    const strategyValues: number[] = [];
+    const benchmarkValues: number[] = [];
+    const times: (number | string)[] = [];
+    for (const point of equityCurve) {
+        const price = benchmarkPrices.get(Number(point.time));
+        if (price !== undefined) {
+            strategyValues.push(point.value);
+            benchmarkValues.push(price);
+            times.push(point.time);
+        }
+    }
+
+    if (strategyValues.length < 2) {
+        throw new Error("Expected 'equityCurve' and 'benchmark' arguments to 'analyzeAgainstBenchmark' to share at least two times.");
+    }
+
+    const strategyReturns = computeReturns(strategyValues);
+    const benchmarkReturns = computeReturns(benchmarkValues);
+    const activeReturns = strategyReturns.map((value, index) => value - benchmarkReturns[index]);
+    const riskFreeReturn = Math.pow(1 + riskFreeRate, 1 / barsPerYear) - 1;
+
+    const strategyMean = mean(strategyReturns);
+    const benchmarkMean = mean(benchmarkReturns);
+    const strategyStdDev = standardDeviation(strategyReturns);
+    const benchmarkStdDev = standardDeviation(benchmarkReturns);
+    const covariance = strategyReturns.length > 1
+        ? strategyReturns.reduce((total, value, index) => total + (value - strategyMean) * (benchmarkReturns[index] - benchmarkMean), 0) / (strategyReturns.length - 1)
+        : 0;
+
+    const beta = benchmarkStdDev > 0 ? covariance / (benchmarkStdDev ** 2) : undefined;
+    const trackingError = standardDeviation(activeReturns);
+
+    const startingEquity = strategyValues[0];
+    const strategyReturnPct = (strategyValues[strategyValues.length - 1] / startingEquity - 1) * 100;
+    const benchmarkReturnPct = (benchmarkValues[benchmarkValues.length - 1] / benchmarkValues[0] - 1) * 100;
+
+    return {
+        benchmarkEquityCurve: benchmarkValues.map((price, index) => ({
+            time: times[index],
+            value: startingEquity * price / benchmarkValues[0],
+        })),
+        strategyReturnPct,
+        benchmarkReturnPct,
+        excessReturnPct: strategyReturnPct - benchmarkReturnPct,
+        alphaPct: beta !== undefined
+            ? ((strategyMean - riskFreeReturn) - beta * (benchmarkMean - riskFreeReturn)) * barsPerYear * 100
+            : undefined,
+        beta,
+        correlation: strategyStdDev > 0 && benchmarkStdDev > 0 ? covariance / (strategyStdDev * benchmarkStdDev) : undefined,
+        trackingErrorPct: trackingError * Math.sqrt(barsPerYear) * 100,
+        informationRatio: trackingError > 0 ? mean(activeReturns) / trackingError * Math.sqrt(barsPerYear) : undefined,
+        upCapture: computeCapture(strategyReturns, benchmarkReturns, value => value > 0),
+        downCapture: computeCapture(strategyReturns, benchmarkReturns, value => value < 0),
+        pctTimeBeatBenchmark: (activeReturns.filter(value => value > 0).length / activeReturns.length) * 100,
+    };
+}
+
+//
+// Ratio of average strategy return to average benchmark return over the bars selected by the benchmark's return.
+//
+function computeCapture(strategyReturns: number[], benchmarkReturns: number[], predicate: (benchmarkReturn: number) => boolean): number | undefined {
+    const strategySelected: number[] = [];
+    const benchmarkSelected: number[] = [];
+    for (let i = 0; i < benchmarkReturns.length; ++i) {
+        if (predicate(benchmarkReturns[i])) {
+            strategySelected.push(strategyReturns[i]);
+            benchmarkSelected.push(benchmarkReturns[i]);
+        }
+    }
+
+    if (benchmarkSelected.length === 0) {
+        return undefined;
+    }
+
+    return mean(strategySelected) / mean(benchmarkSelected);
+}
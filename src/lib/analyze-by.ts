@@ -0,0 +1,237 @@
+import { IAnalysis } from "./analysis";
+import { analyze } from "./analyze";
+import { calendarDate } from "./returns";
+import { ITrade } from "./trade";
+import { isArray, isFunction, isString } from "./utils";
+
+/**
+ * A function that returns the group of a trade.
+ */
+export type TradeGroupFn = (trade: ITrade) => string;
+
+/**
+ * Groups trades by a field of the trade, a calendar field of the entry time, a holding period bucket or a custom function.
+ * Trades that aren't tagged are grouped under "untagged".
+ */
+export type TradeGroupKey =
+    | "direction"
+    | "entryReason"
+    | "exitReason"
+    | "tag"
+    | "weekday"
+    | "month"
+    | "holdingPeriod"
+    | TradeGroupFn;
+
+/**
+ * Options for grouping trades.
+ */
+export interface IAnalyzeByOptions {
+    /**
+     * IANA timezone used to find the weekday or month a trade was entered in.
+     * Defaults to "UTC".
+     */
+    timezone?: string;
+
+    /**
+     * Upper bounds of the holding period buckets, in ascending order.
+     * Defaults to [ 1, 5, 10, 20 ], which gives the buckets "0-1", "2-5", "6-10", "11-20" and "21+".
+     */
+    holdingPeriodBuckets?: number[];
+}
+
+/**
+ * Analysis of a group of trades.
+ */
+export interface ITradeGroupAnalysis {
+    /**
+     * Analysis of the trades in the group, as if they were the only trades made from the starting capital.
+     */
+    analysis: IAnalysis;
+
+    /**
+     * The trades in the group.
+     */
+    trades: ITrade[];
+
+    /**
+     * The longest run of consecutive winning trades.
+     */
+    maxConsecutiveWins: number;
+
+    /**
+     * The longest run of consecutive losing trades.
+     */
+    maxConsecutiveLosses: number;
+
+    /**
+     * Average number of bars winning trades were held for, zero when there are no winning trades.
+     */
+    averageWinningHoldingPeriod: number;
+
+    /**
+     * Average number of bars losing trades were held for, zero when there are no losing trades.
+     */
+    averageLosingHoldingPeriod: number;
+
+    /**
+     * Profit of the most profitable trade, zero when there are no winning trades.
+     */
+    largestWin: number;
+
+    /**
+     * Profit (a negative amount) of the least profitable trade, zero when there are no losing trades.
+     */
+    largestLoss: number;
+}
+
+const weekdays = [ "Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday" ];
+
+const months = [
+    "January", "February", "March", "April", "May", "June",
+    "July", "August", "September", "October", "November", "December",
+];
+
+//
+// Labels the holding period bucket of a trade.
+//
+function holdingPeriodBucket(holdingPeriod: number, buckets: number[]): string {
+    let lowerBound = 0;
+    for (const upperBound of buckets) {
+        if (holdingPeriod <= upperBound) {
+            return `${lowerBound}-${upperBound}`;
+        }
+        lowerBound = upperBound + 1;
+    }
+
+    return `${lowerBound}+`;
+}
+
+//
+// Makes the function that returns the group of a trade.
+//
+function makeGroupFn(key: TradeGroupKey, options?: IAnalyzeByOptions): TradeGroupFn {
+    if (isFunction(key)) {
+        return key;
+    }
+
+    const timezone = options && options.timezone !== undefined ? options.timezone : "UTC";
+
+    switch (key) {
+        case "direction":
+            return trade => trade.direction;
+
+        case "entryReason":
+            return trade => trade.entryReason || "entry-rule";
+
+        case "exitReason":
+            return trade => trade.exitReason;
+
+        case "tag":
+            return trade => trade.tag !== undefined ? trade.tag : "untagged";
+
+        case "weekday":
+            return trade => weekdays[calendarDate(trade.entryTime, timezone).day()];
+
+        case "month":
+            return trade => months[calendarDate(trade.entryTime, timezone).month()];
+
+        case "holdingPeriod": {
+            const buckets = options && options.holdingPeriodBuckets !== undefined ? options.holdingPeriodBuckets : [ 1, 5, 10, 20 ];
+            if (!isArray(buckets)) {
+                throw new Error("Expected 'holdingPeriodBuckets' option to 'analyzeBy' to be an array of numbers that specifies the upper bound of each bucket.");
+            }
+            return trade => holdingPeriodBucket(trade.holdingPeriod, buckets);
+        }
+
+        default:
+            throw new Error(`Unexpected key to group trades by. Expected "direction", "entryReason", "exitReason", "tag", "weekday", "month", "holdingPeriod" or a function, Actual: "${key}".`);
+    }
+}
+
+//
+// Computes streak, holding period and extreme statistics for a group of trades.
+//
+function analyzeGroup(startingCapital: number, trades: ITrade[]): ITradeGroupAnalysis {
+    let winStreak = 0;
+    let lossStreak = 0;
+    let maxConsecutiveWins = 0;
+    let maxConsecutiveLosses = 0;
+    let winningHoldingPeriod = 0;
+    let losingHoldingPeriod = 0;
+    let numWinningTrades = 0;
+    let numLosingTrades = 0;
+    let largestWin = 0;
+    let largestLoss = 0;
+
+    for (const trade of trades) {
+        // Consistent with 'analyze', trades that break even are counted as losses.
+        const tradeProfit = trade.pnl !== undefined ? trade.pnl : trade.profit;
+        if (tradeProfit > 0) {
+            ++winStreak;
+            lossStreak = 0;
+            ++numWinningTrades;
+            winningHoldingPeriod += trade.holdingPeriod;
+            largestWin = Math.max(tradeProfit, largestWin);
+        } else {
+            ++lossStreak;
+            winStreak = 0;
+            ++numLosingTrades;
+            losingHoldingPeriod += trade.holdingPeriod;
+            largestLoss = Math.min(tradeProfit, largestLoss);
+        }
+
+        maxConsecutiveWins = Math.max(winStreak, maxConsecutiveWins);
+        maxConsecutiveLosses = Math.max(lossStreak, maxConsecutiveLosses);
+    }
+
+    return {
+        analysis: analyze(startingCapital, trades),
+        trades,
+        maxConsecutiveWins,
+        maxConsecutiveLosses,
+        averageWinningHoldingPeriod: numWinningTrades > 0 ? winningHoldingPeriod / numWinningTrades : 0,
+        averageLosingHoldingPeriod: numLosingTrades > 0 ? losingHoldingPeriod / numLosingTrades : 0,
+        largestWin,
+        largestLoss,
+    };
+}
+
+/**
+ * Group trades and analyse each group.
+ * Groups are returned in the order they first appear in the trades.
+ *
+ * @param startingCapital Capital used to analyse each group.
+ * @param trades The trades to group.
+ * @param key What to group the trades by.
+ * @param options Options for grouping trades.
+ */
+export function analyzeBy(startingCapital: number, trades: ITrade[], key: TradeGroupKey, options?: IAnalyzeByOptions): { [group: string]: ITradeGroupAnalysis } {
+
+    if (!isArray(trades)) {
+        throw new Error("Expected 'trades' argument to 'analyzeBy' to be an array that contains a set of trades to be analyzed.");
+    }
+
+    if (!isString(key) && !isFunction(key)) {
+        throw new Error("Expected 'key' argument to 'analyzeBy' to be a string or a function that specifies how to group trades.");
+    }
+
+    const groupFn = makeGroupFn(key, options);
+    const groups = new Map<string, ITrade[]>();
+    for (const trade of trades) {
+        const group = groupFn(trade);
+        const groupTrades = groups.get(group);
+        if (groupTrades === undefined) {
+            groups.set(group, [ trade ]);
+        } else {
+            groupTrades.push(trade);
+        }
+    }
+
+    const result: { [group: string]: ITradeGroupAnalysis } = {};
+    for (const [ group, groupTrades ] of groups) {
+        result[group] = analyzeGroup(startingCapital, groupTrades);
+    }
+
+    return result;
+}
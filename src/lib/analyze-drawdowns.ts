@@ -0,0 +1,272 @@
+import { applyTradeToCapital, ITimestampedValue, ITrade } from "./trade";
+import { isArray, isNumber } from "./utils";
+
+/**
+ * A period where equity is below its previous peak.
+ */
+export interface IDrawdownEpisode {
+    /**
+     * Time of the peak in equity where the drawdown started.
+     */
+    peakTime: number | string;
+
+    /**
+     * Equity at the peak.
+     */
+    peakValue: number;
+
+    /**
+     * Time of the lowest equity during the drawdown.
+     */
+    troughTime: number | string;
+
+    /**
+     * Equity at the trough.
+     */
+    troughValue: number;
+
+    /**
+     * Time when equity recovered to the peak.
+     * Undefined when equity hasn't recovered by the end of the equity curve.
+     */
+    recoveryTime?: number | string;
+
+    /**
+     * Depth of the drawdown from peak to trough, a negative amount.
+     */
+    depth: number;
+
+    /**
+     * Depth of the drawdown as a percentage of the peak, a negative amount.
+     */
+    depthPct: number;
+
+    /**
+     * Number of bars (or trades for trade-level equity) from the peak to the recovery,
+     * or to the end of the equity curve when equity hasn't recovered.
+     */
+    length: number;
+
+    /**
+     * Calendar time in milliseconds from the peak to the recovery,
+     * or to the end of the equity curve when equity hasn't recovered.
+     */
+    duration: number;
+}
+
+/**
+ * Options for analysing drawdowns.
+ */
+export interface IAnalyzeDrawdownsOptions {
+    /**
+     * Number of worst drawdowns to report.
+     * Defaults to 5.
+     */
+    numWorst?: number;
+}
+
+/**
+ * Analysis of the drawdowns in an equity curve.
+ */
+export interface IDrawdownAnalysis {
+    /**
+     * Every drawdown in time order.
+     */
+    episodes: IDrawdownEpisode[];
+
+    /**
+     * The deepest drawdowns (by percentage of the peak), deepest first.
+     */
+    worstEpisodes: IDrawdownEpisode[];
+
+    /**
+     * The drawdown with the longest time under water.
+     * Undefined when there are no drawdowns.
+     */
+    longestEpisode?: IDrawdownEpisode;
+
+    /**
+     * Longest time under water in bars (or trades for trade-level equity).
+     */
+    maxLength: number;
+
+    /**
+     * Longest time under water in milliseconds.
+     */
+    maxDuration: number;
+
+    /**
+     * Average depth of the drawdowns, zero when there are no drawdowns.
+     */
+    averageDepth: number;
+
+    /**
+     * Average depth of the drawdowns as a percentage of their peaks, zero when there are no drawdowns.
+     */
+    averageDepthPct: number;
+}
+
+/**
+ * Identify the drawdowns in a timestamped equity curve, such as the equity curve recorded by the backtest.
+ * 
+ * @param equityCurve Equity at each bar.
+ * @param options Options for the analysis.
+ */
+export function analyzeDrawdowns(equityCurve: ITimestampedValue[], options?: IAnalyzeDrawdownsOptions): IDrawdownAnalysis;
+
+/**
+ * Identify the drawdowns in equity after each of a series of trades.
+ * 
+ * @param startingCapital Capital before the first trade.
+ * @param trades The series of trades to analyse.
+ * @param options Options for the analysis.
+ */
+export function analyzeDrawdowns(startingCapital: number, trades: ITrade[], options?: IAnalyzeDrawdownsOptions): IDrawdownAnalysis;
+
+export function analyzeDrawdowns(
+    startingCapitalOrEquityCurve: number | ITimestampedValue[],
+    tradesOrOptions?: ITrade[] | IAnalyzeDrawdownsOptions,
+    options?: IAnalyzeDrawdownsOptions
+): IDrawdownAnalysis {
+
+    let equityCurve: ITimestampedValue[];
+    if (isArray(startingCapitalOrEquityCurve)) {
+        equityCurve = startingCapitalOrEquityCurve;
+        options = tradesOrOptions as IAnalyzeDrawdownsOptions | undefined;
+    }
+    else {
+        equityCurve = computeTradeEquityCurve(startingCapitalOrEquityCurve, tradesOrOptions as ITrade[]);
+    }
+
+    const numWorst = options && options.numWorst !== undefined ? options.numWorst : 5;
+    if (!isNumber(numWorst) || numWorst < 0) {
+        throw new Error("Expected 'numWorst' option to 'analyzeDrawdowns' to be a number that specifies how many of the worst drawdowns to report.");
+    }
+
+    const episodes = findEpisodes(equityCurve);
+
+    const worstEpisodes = episodes
+        .slice()
+        .sort((a, b) => a.depthPct - b.depthPct)
+        .slice(0, numWorst);
+
+    let longestEpisode: IDrawdownEpisode | undefined = undefined;
+    for (const episode of episodes) {
+        if (longestEpisode === undefined || episode.length > longestEpisode.length) {
+            longestEpisode = episode;
+        }
+    }
+
+    let maxDuration = 0;
+    let totalDepth = 0;
+    let totalDepthPct = 0;
+    for (const episode of episodes) {
+        maxDuration = Math.max(episode.duration, maxDuration);
+        totalDepth += episode.depth;
+        totalDepthPct += episode.depthPct;
+    }
+
+    return {
+        episodes,
+        worstEpisodes,
+        longestEpisode,
+        maxLength: longestEpisode !== undefined ? longestEpisode.length : 0,
+        maxDuration,
+        averageDepth: episodes.length > 0 ? totalDepth / episodes.length : 0,
+        averageDepthPct: episodes.length > 0 ? totalDepthPct / episodes.length : 0,
+    };
+}
+
+//
+// Builds a timestamped equity curve from a series of trades,
+// starting at the entry of the first trade with a value for the exit of each trade.
+//
+function computeTradeEquityCurve(startingCapital: number, trades: ITrade[]): ITimestampedValue[] {
+
+    if (!isNumber(startingCapital) || startingCapital <= 0) {
+        throw new Error("Expected 'startingCapital' argument to 'analyzeDrawdowns' to be a positive number that specifies the amount of capital used to compute drawdown.");
+    }
+
+    if (!isArray(trades)) {
+        throw new Error("Expected 'trades' argument to 'analyzeDrawdowns' to be an array that contains a set of trades for which to analyse drawdown.");
+    }
+
+    if (trades.length === 0) {
+        return [];
+    }
+
+    const equityCurve: ITimestampedValue[] = [ { time: trades[0].entryTime, value: startingCapital } ];
+    let workingCapital = startingCapital;
+    for (const trade of trades) {
+        workingCapital = applyTradeToCapital(workingCapital, trade);
+        equityCurve.push({ time: trade.exitTime, value: workingCapital });
+    }
+
+    return equityCurve;
+}
+
+//
+// Converts a timestamp to milliseconds.
+//
+function toMilliseconds(time: number | string): number {
+    return new Date(time).getTime();
+}
+
+//
+// Finds each period where equity is below its previous peak.
+//
+function findEpisodes(equityCurve: ITimestampedValue[]): IDrawdownEpisode[] {
+    const episodes: IDrawdownEpisode[] = [];
+    let peakIndex = 0;
+    let episode: IDrawdownEpisode | undefined = undefined;
+
+    const endEpisode = (endIndex: number, recovered: boolean) => {
+        episode!.length = endIndex - peakIndex;
+        episode!.duration = toMilliseconds(equityCurve[endIndex].time) - toMilliseconds(episode!.peakTime);
+        if (recovered) {
+            episode!.recoveryTime = equityCurve[endIndex].time;
+        }
+        episodes.push(episode!);
+        episode = undefined;
+    };
+
+    for (let index = 0; index < equityCurve.length; ++index) {
+        const point = equityCurve[index];
+        const peak = equityCurve[peakIndex];
+
+        if (point.value >= peak.value) {
+            if (episode !== undefined) {
+                endEpisode(index, true);
+            }
+            peakIndex = index;
+            continue;
+        }
+
+        if (episode === undefined) {
+            episode = {
+                peakTime: peak.time,
+                peakValue: peak.value,
+                troughTime: point.time,
+                troughValue: point.value,
+                depth: 0,
+                depthPct: 0,
+                length: 0,
+                duration: 0,
+            };
+        }
+
+        if (point.value < episode.troughValue) {
+            episode.troughTime = point.time;
+            episode.troughValue = point.value;
+        }
+        episode.depth = episode.troughValue - episode.peakValue;
+        episode.depthPct = (episode.depth / episode.peakValue) * 100;
+    }
+
+    if (episode !== undefined) {
+        // Still under water at the end of the equity curve.
+        endEpisode(equityCurve.length - 1, false);
+    }
+
+    return episodes;
+}
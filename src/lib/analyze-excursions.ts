@@ -0,0 +1,154 @@
+import { ITrade } from "./trade";
+import { isArray, isNumber, percentile } from "./utils";
+
+/**
+ * The excursions of a single trade, a point on an MAE/MFE scatter chart.
+ */
+export interface IExcursionPoint {
+    /**
+     * Maximum adverse excursion as a percentage of the entry price.
+     */
+    maePct: number;
+
+    /**
+     * Maximum favourable excursion as a percentage of the entry price.
+     */
+    mfePct: number;
+
+    /**
+     * Maximum adverse excursion as a multiple of initial unit risk (when a stop loss is used).
+     */
+    maeR?: number;
+
+    /**
+     * Maximum favourable excursion as a multiple of initial unit risk (when a stop loss is used).
+     */
+    mfeR?: number;
+
+    /**
+     * Profit of the trade as a percentage of the entry price.
+     */
+    profitPct: number;
+
+    /**
+     * True when the trade made a profit.
+     */
+    isWinner: boolean;
+}
+
+/**
+ * Options for analysing excursions.
+ */
+export interface IAnalyzeExcursionsOptions {
+    /**
+     * Percentile (0-1) of the adverse excursion of winning trades used to suggest a stop loss.
+     * Few winning trades move further against the position than the suggested stop loss.
+     * Defaults to 0.9.
+     */
+    stopPercentile?: number;
+
+    /**
+     * Percentile (0-1) of the favourable excursion of all trades used to suggest a profit target.
+     * Defaults to 0.5.
+     */
+    targetPercentile?: number;
+}
+
+/**
+ * Analysis of the maximum adverse and favourable excursions of trades.
+ */
+export interface IExcursionAnalysis {
+    /**
+     * Scatter data, one point for each trade with excursions.
+     */
+    points: IExcursionPoint[];
+
+    /**
+     * Suggested stop loss distance as a percentage of the entry price.
+     * Undefined when there are no winning trades.
+     */
+    suggestedStopPct?: number;
+
+    /**
+     * Suggested profit target distance as a percentage of the entry price.
+     * Undefined when there are no trades.
+     */
+    suggestedTargetPct?: number;
+
+    /**
+     * Suggested stop loss distance as a multiple of initial unit risk.
+     * Undefined when there are no winning trades with a stop loss.
+     */
+    suggestedStopR?: number;
+
+    /**
+     * Suggested profit target distance as a multiple of initial unit risk.
+     * Undefined when there are no trades with a stop loss.
+     */
+    suggestedTargetR?: number;
+}
+
+/**
+ * Analyse the maximum adverse and favourable excursions of trades from a backtest.
+ * Trades without excursions are ignored.
+ *
+ * @param trades The trades to analyse.
+ * @param options Options for suggesting stop loss and profit target levels.
+ */
+export function analyzeExcursions(trades: ITrade[], options?: IAnalyzeExcursionsOptions): IExcursionAnalysis {
+
+    if (!isArray(trades)) {
+        throw new Error("Expected 'trades' argument to 'analyzeExcursions' to be an array that contains a set of trades to be analyzed.");
+    }
+
+    const stopPercentile = options && options.stopPercentile !== undefined ? options.stopPercentile : 0.9;
+    if (!isNumber(stopPercentile) || stopPercentile < 0 || stopPercentile > 1) {
+        throw new Error("Expected 'stopPercentile' option to 'analyzeExcursions' to be a number in the range 0-1.");
+    }
+
+    const targetPercentile = options && options.targetPercentile !== undefined ? options.targetPercentile : 0.5;
+    if (!isNumber(targetPercentile) || targetPercentile < 0 || targetPercentile > 1) {
+        throw new Error("Expected 'targetPercentile' option to 'analyzeExcursions' to be a number in the range 0-1.");
+    }
+
+    const points: IExcursionPoint[] = [];
+    for (const trade of trades) {
+        if (trade.maePct === undefined || trade.mfePct === undefined) {
+            continue;
+        }
+
+        points.push({
+            maePct: trade.maePct,
+            mfePct: trade.mfePct,
+            maeR: trade.maeR,
+            mfeR: trade.mfeR,
+            profitPct: trade.profitPct,
+            isWinner: trade.profitPct > 0,
+        });
+    }
+
+    const winners = points.filter(point => point.isWinner);
+
+    return {
+        points,
+        suggestedStopPct: percentileOf(winners.map(point => point.maePct), stopPercentile),
+        suggestedTargetPct: percentileOf(points.map(point => point.mfePct), targetPercentile),
+        suggestedStopR: percentileOf(definedValues(winners.map(point => point.maeR)), stopPercentile),
+        suggestedTargetR: percentileOf(definedValues(points.map(point => point.mfeR)), targetPercentile),
+    };
+}
+
+function definedValues(values: (number | undefined)[]): number[] {
+    return values.filter(value => value !== undefined) as number[];
+}
+
+//
+// Percentile of unsorted values, undefined when there are no values.
+//
+function percentileOf(values: number[], proportion: number): number | undefined {
+    if (values.length === 0) {
+        return undefined;
+    }
+
+    return percentile(values.slice().sort((a, b) => a - b), proportion);
+}
@@ -1,14 +1,29 @@
-import { ITrade } from "./trade";
+import { applyTradeToCapital, ITrade } from "./trade";
 
 import { Series } from "data-forge";
 import { abs, max, min, std } from "mathjs";
 import { IAnalysis } from "./analysis";
+import { computeRiskMetrics, IRiskMetricsOptions } from "./risk-metrics";
+import { ITimestampedValue } from "./trade";
 import { isArray, isNumber } from "./utils";
 
+/**
+ * Options for analysing trades.
+ */
+export interface IAnalyzeOptions extends IRiskMetricsOptions {
+  /**
+   * Equity at every bar, as recorded by a backtest with 'recordEquityCurve' enabled.
+   * When set, risk-adjusted return metrics are computed from the equity curve.
+   */
+  equityCurve?: ITimestampedValue[];
+}
+
 /**
  * Analyse a sequence of trades and compute their performance.
+ * Trades from a capital-aware backtest are analysed using their profit in dollars,
+ * otherwise all capital is compounded by the growth of each trade.
  */
-export function analyze(startingCapital: number, trades: ITrade[]): IAnalysis {
+export function analyze(startingCapital: number, trades: ITrade[], options?: IAnalyzeOptions): IAnalysis {
   if (!isNumber(startingCapital) || startingCapital <= 0) {
     throw new Error(
       "Expected 'startingCapital' argument to 'analyze' to be a positive number that specifies the amount of capital used to simulate trading."
@@ -40,7 +55,7 @@ export function analyze(startingCapital: number, trades: ITrade[]): IAnalysis {
       maxRiskPct = max(trade.riskPct, maxRiskPct || 0);
     }
 
-    workingCapital *= trade.growth;
+    workingCapital = applyTradeToCapital(workingCapital, trade);
     barCount += trade.holdingPeriod;
 
     if (workingCapital < peakCapital) {
@@ -50,11 +65,12 @@ export function analyze(startingCapital: number, trades: ITrade[]): IAnalysis {
       workingDrawdown = 0; // Reset at the peak.
     }
 
-    if (trade.profit > 0) {
-      totalProfits += trade.profit;
+    const tradeProfit = trade.pnl !== undefined ? trade.pnl : trade.profit;
+    if (tradeProfit > 0) {
+      totalProfits += tradeProfit;
       ++numWinningTrades;
     } else {
-      totalLosses += trade.profit;
+      totalLosses += tradeProfit;
       ++numLosingTrades;
     }
 
@@ -123,5 +139,9 @@ export function analyze(startingCapital: number, trades: ITrade[]): IAnalysis {
       proportionLosing * averageLosingTrade,
   };
 
+  if (options && options.equityCurve !== undefined) {
+    Object.assign(analysis, computeRiskMetrics(options.equityCurve, options));
+  }
+
   return analysis;
 }
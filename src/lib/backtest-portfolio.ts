@@ -0,0 +1,170 @@
+import { IDataFrame } from "data-forge";
+import { Account, AllocationLimit } from "./account";
+import { IBacktestOptions, prepareIndicators } from "./backtest";
+import { IBar } from "./bar";
+import { computeDrawdown } from "./compute-drawdown";
+import { PositionManager } from "./position-manager";
+import { IStrategy } from "./strategy";
+import { ITimestampedValue, ITrade } from "./trade";
+import { isFunction, isNumber, isObject } from "./utils";
+
+/**
+ * A strategy for each symbol in a portfolio.
+ */
+export interface IStrategyMap<InputBarT extends IBar, IndicatorBarT extends InputBarT, ParametersT, IndexT, StateT = unknown> {
+  [symbol: string]: IStrategy<InputBarT, IndicatorBarT, ParametersT, IndexT, StateT>;
+}
+
+/**
+ * Options to the backtestPortfolio function.
+ */
+export interface IPortfolioBacktestOptions extends IBacktestOptions {
+  /**
+   * The amount of cash in the account shared by all instruments.
+   */
+  startingCapital: number;
+
+  /**
+   * The maximum number of positions that can be open at the same time across all instruments.
+   * Entries are skipped while this many positions are open.
+   */
+  maxPositions?: number;
+
+  /**
+   * The maximum value of a new position as a percentage of portfolio equity.
+   * Either one percentage for every symbol, a map of symbol to percentage or a function that returns
+   * the percentage for a symbol. Entries that the limit leaves no room for are cancelled with the "account-limit" reason.
+   */
+  maxAllocationPct?: AllocationLimit;
+}
+
+/**
+ * Result of backtesting a portfolio.
+ * 'StateT' is the type of the strategies' state (see 'IStrategy.state').
+ */
+export interface IPortfolioBacktestResult<StateT = unknown> {
+  /**
+   * Trades across all instruments, tagged with their symbol, in the order they were exited.
+   */
+  trades: ITrade<StateT>[];
+
+  /**
+   * Portfolio equity (cash plus the value of open positions) at each point in time.
+   */
+  equityCurve: ITimestampedValue[];
+
+  /**
+   * Drawdown from peak portfolio equity at each point in time.
+   */
+  drawdown: ITimestampedValue[];
+}
+
+/**
+ * Backtest trading strategies against multiple instruments that share a single cash account.
+ * Bars from each instrument are aligned on time, at each point in time every instrument with a bar
+ * is processed in the order the symbols are specified. A position is closed when its instrument runs out of data.
+ *
+ * @param strategy A strategy to trade every instrument or a map of symbol to the strategy for that instrument.
+ * @param inputSeries A map of symbol to the data series for that instrument.
+ * @param options Options for the backtest, 'startingCapital' is required.
+ */
+export function backtestPortfolio<InputBarT extends IBar, IndicatorBarT extends InputBarT, ParametersT, IndexT, StateT = unknown>(
+  strategy: IStrategy<InputBarT, IndicatorBarT, ParametersT, IndexT, StateT> | IStrategyMap<InputBarT, IndicatorBarT, ParametersT, IndexT, StateT>,
+  inputSeries: { [symbol: string]: IDataFrame<IndexT, InputBarT> },
+  options: IPortfolioBacktestOptions
+): IPortfolioBacktestResult<StateT> {
+  if (!isObject(strategy)) {
+    throw new Error(
+      "Expected 'strategy' argument to 'backtestPortfolio' to be an object that defines the trading strategy or a map of symbol to strategy."
+    );
+  }
+
+  if (!isObject(inputSeries)) {
+    throw new Error(
+      "Expected 'inputSeries' argument to 'backtestPortfolio' to be a map of symbol to Data-Forge DataFrame that contains historical input data for backtesting."
+    );
+  }
+
+  if (!isObject(options) || !isNumber(options.startingCapital) || options.startingCapital <= 0) {
+    throw new Error(
+      "Expected 'startingCapital' option to 'backtestPortfolio' to be a positive number that specifies the amount of capital in the shared account."
+    );
+  }
+
+  const account = new Account(options.startingCapital, {
+    maxPositions: options.maxPositions,
+    maxAllocationPct: options.maxAllocationPct,
+    limitToCash: true,
+  });
+
+  const isSingleStrategy = isFunction((strategy as IStrategy<InputBarT, IndicatorBarT, ParametersT, IndexT, StateT>).entryRule);
+  const positionManagers: PositionManager<InputBarT, IndicatorBarT, ParametersT, IndexT, StateT>[] = [];
+  const events: { time: number, managerIndex: number, bar: IndicatorBarT, isLastBar: boolean }[] = [];
+
+  for (const symbol of Object.keys(inputSeries)) {
+    const symbolStrategy = isSingleStrategy
+      ? strategy as IStrategy<InputBarT, IndicatorBarT, ParametersT, IndexT, StateT>
+      : (strategy as IStrategyMap<InputBarT, IndicatorBarT, ParametersT, IndexT, StateT>)[symbol];
+    if (!isObject(symbolStrategy)) {
+      throw new Error(`Expected a strategy to be provided for symbol "${symbol}".`);
+    }
+
+    const symbolSeries = inputSeries[symbol];
+    if (symbolSeries.none()) {
+      throw new Error(`Expect input data series for symbol "${symbol}" to contain at last 1 bar.`);
+    }
+
+    const lookbackPeriod = symbolStrategy.lookbackPeriod || 1;
+    if (symbolSeries.count() < lookbackPeriod) {
+      throw new Error(
+        `You have less input data for symbol "${symbol}" than your lookback period, the size of your input data should be some multiple of your lookback period.`
+      );
+    }
+
+    const positionManager = new PositionManager(symbolStrategy, options, account);
+    positionManager.symbol = symbol;
+
+    const managerIndex = positionManagers.length;
+    positionManagers.push(positionManager);
+
+    // Bars are enumerated once, the indicators series can produce new bar objects each time it is enumerated.
+    const indicatorBars = prepareIndicators(symbolStrategy, symbolSeries).toArray();
+    indicatorBars.forEach((bar, barIndex) => {
+      events.push({ time: Number(bar.time), managerIndex, bar, isLastBar: barIndex === indicatorBars.length - 1 });
+    });
+  }
+
+  // Align bars on time, the sort is stable so symbols keep their order at each time.
+  events.sort((a, b) => a.time - b.time);
+
+  const equityCurve: ITimestampedValue[] = [];
+
+  for (let eventIndex = 0; eventIndex < events.length; ++eventIndex) {
+    const event = events[eventIndex];
+    const positionManager = positionManagers[event.managerIndex];
+    positionManager.addBar(event.bar);
+
+    if (event.isLastBar) {
+      // The instrument has no more data, close any open position.
+      positionManager.complete(event.bar);
+    }
+
+    const nextEvent = events[eventIndex + 1];
+    if (nextEvent === undefined || nextEvent.time !== event.time) {
+      // All instruments have been processed for this time.
+      equityCurve.push({ time: event.bar.time, value: account.equity });
+    }
+  }
+
+  const trades: ITrade<StateT>[] = [];
+  for (const positionManager of positionManagers) {
+    trades.push(...positionManager.completedTrades);
+  }
+  trades.sort((a, b) => Number(a.exitTime) - Number(b.exitTime));
+
+  return {
+    trades,
+    equityCurve,
+    drawdown: computeDrawdown(equityCurve),
+  };
+}
@@ -1,8 +1,41 @@
 import { IDataFrame } from "data-forge";
 import { IBar, IStrategy } from "..";
+import { CommissionModel } from "./commission";
+import { computeDrawdown } from "./compute-drawdown";
+import { IntrabarPathModel } from "./intrabar-path";
+import { SlippageModel } from "./slippage";
 import { PositionManager } from "./position-manager";
-import { ITrade } from "./trade";
-import { isObject } from "./utils";
+import { ITimestampedValue, ITrade } from "./trade";
+import { isNumber, isObject } from "./utils";
+
+/**
+ * When an order is filled, relative to the bar in which a rule requested it.
+ *
+ * signal-close:    At the close of the bar in which the order was requested.
+ * next-open:       At the open of the next bar.
+ * next-close:      At the close of the next bar.
+ * next-vwap:       At the volume weighted average price of the next bar,
+ *                  approximated by the bar's typical price (high + low + close) / 3.
+ */
+export type FillTiming = "signal-close" | "next-open" | "next-close" | "next-vwap";
+
+/**
+ * Controls when entries and exits are filled.
+ */
+export interface IFillTiming {
+  /**
+   * When market orders to enter a position are filled.
+   * Defaults to "next-open".
+   */
+  entry?: FillTiming;
+
+  /**
+   * When exits requested by the exit rule are filled.
+   * Stop losses and profit targets are always filled intrabar.
+   * Defaults to "signal-close".
+   */
+  exit?: FillTiming;
+}
 
 /**
  * Options to the backtest function.
@@ -19,16 +52,116 @@ export interface IBacktestOptions {
    * It can be useful to enable this and visualize the risk over time.
    */
   recordRisk?: boolean;
+
+  /**
+   * Commission charged when entering and exiting each position.
+   * Commission is deducted from the profit and growth of each trade.
+   * Defaults to no commission.
+   */
+  commission?: CommissionModel;
+
+  /**
+   * Slippage applied to the price of every fill.
+   * The intended and actual fill prices are both recorded on each trade.
+   * Defaults to no slippage.
+   */
+  slippage?: SlippageModel;
+
+  /**
+   * Enables capital-aware trading, the backtest tracks cash and equity from this amount.
+   * Positions are sized by the strategy's 'positionSize' and each trade records
+   * its quantity and profit in dollars.
+   */
+  startingCapital?: number;
+
+  /**
+   * Controls when entries and exits are filled.
+   * Defaults to entering at the open of the next bar and exiting at the close of the bar where the exit rule fires.
+   * Set the exit timing to "next-open" to reproduce the behaviour of older versions.
+   */
+  fillTiming?: IFillTiming;
+
+  /**
+   * Decides which exit is reached first when a bar reaches both the stop loss and the profit target.
+   * When set, stops are triggered by the high or low of the bar.
+   * Defaults to the behaviour of older versions, stops are triggered by the body (open or close) of the bar
+   * and are checked before profit targets.
+   */
+  intrabarPath?: IntrabarPathModel;
+
+  /**
+   * Enable recording of equity (cash plus the value of open positions) at the close of every bar,
+   * including bars where there is no open position.
+   * Requires 'startingCapital', the equity curve is returned by 'backtestWithResults'.
+   */
+  recordEquityCurve?: boolean;
+
+  /**
+   * Enable recording of drawdown from peak equity at the close of every bar.
+   * Requires 'startingCapital', the drawdown is returned by 'backtestWithResults'.
+   */
+  recordDrawdown?: boolean;
+}
+
+/**
+ * Result of backtesting a trading strategy.
+ * 'StateT' is the type of the strategy's state (see 'IStrategy.state').
+ */
+export interface IBacktestResult<StateT = unknown> {
+  /**
+   * Trades that were completed.
+   */
+  trades: ITrade<StateT>[];
+
+  /**
+   * Equity at the close of every bar (if 'recordEquityCurve' is enabled).
+   */
+  equityCurve?: ITimestampedValue[];
+
+  /**
+   * Drawdown from peak equity at the close of every bar (if 'recordDrawdown' is enabled).
+   */
+  drawdown?: ITimestampedValue[];
+}
+
+/**
+ * Compute the strategy's indicators for an input data series.
+ * The input series is returned unchanged when the strategy doesn't prepare indicators.
+ */
+export function prepareIndicators<InputBarT extends IBar,IndicatorBarT extends InputBarT,ParametersT,IndexT,StateT = unknown>(
+  strategy: IStrategy<InputBarT, IndicatorBarT, ParametersT, IndexT, StateT>,
+  inputSeries: IDataFrame<IndexT, InputBarT>
+): IDataFrame<IndexT, IndicatorBarT> {
+  if (strategy.prepIndicators) {
+    return strategy.prepIndicators({
+      parameters: strategy.parameters || ({} as ParametersT),
+      inputSeries: inputSeries,
+    });
+  }
+
+  return inputSeries as IDataFrame<IndexT, IndicatorBarT>;
 }
 
 /**
  * Backtest a trading strategy against a data series and generate a sequence of trades.
  */
-export function backtest<InputBarT extends IBar,IndicatorBarT extends InputBarT,ParametersT,IndexT>(
-  strategy: IStrategy<InputBarT, IndicatorBarT, ParametersT, IndexT>,
+export function backtest<InputBarT extends IBar,IndicatorBarT extends InputBarT,ParametersT,IndexT,StateT = unknown>(
+  strategy: IStrategy<InputBarT, IndicatorBarT, ParametersT, IndexT, StateT>,
+  inputSeries: IDataFrame<IndexT, InputBarT>,
+  options?: IBacktestOptions
+): ITrade<StateT>[] {
+  return backtestWithResults(strategy, inputSeries, options).trades;
+}
+
+/**
+ * Backtest a trading strategy against a data series and generate a sequence of trades,
+ * along with the equity curve and drawdown when they are recorded.
+ */
+export function backtestWithResults<InputBarT extends IBar,IndicatorBarT extends InputBarT,ParametersT,IndexT,StateT = unknown>(
+  strategy: IStrategy<InputBarT, IndicatorBarT, ParametersT, IndexT, StateT>,
   inputSeries: IDataFrame<IndexT, InputBarT>,
   options?: IBacktestOptions
-): ITrade[] {
+): IBacktestResult<StateT> {
   if (!isObject(strategy)) {
     throw new Error(
       "Expected 'strategy' argument to 'backtest' to be an object that defines the trading strategy to backtest."
@@ -45,6 +178,24 @@ export function backtest<InputBarT extends IBar,IndicatorBarT extends InputBarT,
     options = {};
   }
 
+  if (options.startingCapital !== undefined && (!isNumber(options.startingCapital) || options.startingCapital <= 0)) {
+    throw new Error(
+      "Expected 'startingCapital' option to 'backtest' to be a positive number that specifies the amount of capital to trade with."
+    );
+  }
+
+  if (strategy.positionSize && options.startingCapital === undefined) {
+    throw new Error(
+      "Expected 'startingCapital' option to be passed to 'backtest' when the strategy defines 'positionSize'."
+    );
+  }
+
+  if ((options.recordEquityCurve || options.recordDrawdown) && options.startingCapital === undefined) {
+    throw new Error(
+      "Expected 'startingCapital' option to be passed to 'backtest' when 'recordEquityCurve' or 'recordDrawdown' is enabled."
+    );
+  }
+
   if (inputSeries.none()) {
     throw new Error("Expect input data series to contain at last 1 bar.");
   }
@@ -56,26 +207,40 @@ export function backtest<InputBarT extends IBar,IndicatorBarT extends InputBarT,
     );
   }
 
-  const strategyParameters = strategy.parameters || ({} as ParametersT);
-
-  let indicatorsSeries: IDataFrame<IndexT, IndicatorBarT>;
-
-  if (strategy.prepIndicators) {
-    indicatorsSeries = strategy.prepIndicators({
-      parameters: strategyParameters,
-      inputSeries: inputSeries,
-    });
-  } else {
-    indicatorsSeries = inputSeries as IDataFrame<IndexT, IndicatorBarT>;
-  }
+  const indicatorsSeries = prepareIndicators(strategy, inputSeries);
 
   const positionManager = new PositionManager(strategy, options);
 
+  const recordEquity = options.recordEquityCurve || options.recordDrawdown;
+  const equityCurve: ITimestampedValue[] = [];
+  let lastBar: IndicatorBarT | undefined;
+
   for (const bar of indicatorsSeries) {
     positionManager.addBar(bar);
+    lastBar = bar;
+
+    if (recordEquity) {
+      equityCurve.push({ time: bar.time, value: positionManager.equity! });
+    }
   }
 
-  positionManager.complete(indicatorsSeries.last());
+  if (lastBar !== undefined) {
+    positionManager.complete(lastBar);
+
+    if (recordEquity) {
+      // The last point includes the cost of closing open positions.
+      equityCurve[equityCurve.length - 1].value = positionManager.equity!;
+    }
+  }
 
-  return positionManager.completedTrades;
+  const result: IBacktestResult<StateT> = {
+    trades: positionManager.completedTrades,
+  };
+  if (options.recordEquityCurve) {
+    result.equityCurve = equityCurve;
+  }
+  if (options.recordDrawdown) {
+    result.drawdown = computeDrawdown(equityCurve);
+  }
+  return result;
 }
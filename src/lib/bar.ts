@@ -32,4 +32,17 @@ export interface IBar {
      * Volume of trading (number of trades) during the time period of the bar.
      */
     volume: number;
+
+    /**
+     * Cash dividend per unit that goes ex-dividend at the start of the bar.
+     * Credited to long positions and debited from short positions held into the bar.
+     */
+    dividend?: number;
+
+    /**
+     * Number of new units for each old unit when a split takes effect at the start of the bar, eg 2 for a 2-for-1 split
+     * or 0.1 for a 1-for-10 reverse split. Prices of the bar are after the split.
+     * Entry prices, stops and profit targets of open positions and pending entry orders are adjusted by the split.
+     */
+    splitRatio?: number;
 }
\ No newline at end of file
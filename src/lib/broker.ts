@@ -0,0 +1,478 @@
+import { FillTiming } from "./backtest";
+import { IBar } from "./bar";
+import { CommissionModel, computeCommission } from "./commission";
+import { entryFillPrice, limitFillPrice, stopFillPrice, timedFillPrice } from "./fill-price";
+import { IEntryOrder, OrderCancelReason, TradeDirection } from "./strategy";
+
+/**
+ * Details common to every order intent.
+ */
+export interface IOrderIntentBase {
+    /**
+     * Timestamp of the bar in which the intent was emitted.
+     */
+    time: number;
+
+    /**
+     * Symbol of the instrument being traded, if the position manager has one.
+     */
+    symbol?: string;
+
+    /**
+     * The direction of the position.
+     */
+    direction: TradeDirection;
+}
+
+/**
+ * The strategy placed an order to enter a position.
+ */
+export interface IPlaceOrderIntent extends IOrderIntentBase {
+    type: "place-order";
+
+    /**
+     * The order to work.
+     */
+    order: IEntryOrder;
+
+    /**
+     * The number of units to trade, undefined when positions aren't sized.
+     * Lots are sized when the order is filled, so this is estimated from the price the order is expected to fill at.
+     */
+    quantity?: number;
+
+    /**
+     * When a market order is filled.
+     */
+    timing?: FillTiming;
+}
+
+/**
+ * An order to enter a position was cancelled before it was filled.
+ */
+export interface ICancelOrderIntent extends IOrderIntentBase {
+    type: "cancel-order";
+
+    /**
+     * The order that was cancelled.
+     */
+    order: IEntryOrder;
+
+    /**
+     * Why the order was cancelled.
+     */
+    reason: OrderCancelReason;
+}
+
+/**
+ * An order to exit all or part of a lot.
+ */
+export interface IExitOrder {
+    /**
+     * Id of the position the lot belongs to.
+     */
+    positionId?: number;
+
+    /**
+     * The direction of the lot, a long lot is exited by selling and a short lot by buying.
+     */
+    direction: TradeDirection;
+
+    /**
+     * The type of order.
+     *
+     * market:  An exit requested by the strategy, filled at the time set by 'timing'.
+     * stop:    A working stop loss, filled when the price reaches 'stopPrice'.
+     * limit:   A working profit target, filled when the price reaches 'limitPrice'.
+     */
+    orderType: "market" | "stop" | "limit";
+
+    /**
+     * When a market order is filled.
+     */
+    timing?: FillTiming;
+
+    /**
+     * The price of a stop order.
+     */
+    stopPrice?: number;
+
+    /**
+     * The price of a limit order.
+     */
+    limitPrice?: number;
+
+    /**
+     * The number of units to exit, a lot is 1 unit when positions aren't sized.
+     */
+    quantity: number;
+
+    /**
+     * The reason for the exit, eg "exit-rule" or "stop-loss".
+     */
+    reason: string;
+}
+
+/**
+ * An order to exit all or part of a lot was placed.
+ * Exits requested by the strategy are placed as market orders, stop losses and profit targets
+ * are placed as working stop and limit orders when the lot is entered.
+ */
+export interface IPlaceExitOrderIntent extends IOrderIntentBase {
+    type: "place-exit-order";
+
+    /**
+     * The order to work.
+     */
+    order: IExitOrder;
+}
+
+/**
+ * A working exit order was changed, eg a trailing stop moved or part of the lot was exited.
+ * The order is the object that was placed, updated with its new price and quantity.
+ */
+export interface IModifyExitOrderIntent extends IOrderIntentBase {
+    type: "modify-exit-order";
+
+    /**
+     * The order that was changed.
+     */
+    order: IExitOrder;
+}
+
+/**
+ * A working exit order is no longer needed, eg the lot was exited by another order.
+ */
+export interface ICancelExitOrderIntent extends IOrderIntentBase {
+    type: "cancel-exit-order";
+
+    /**
+     * The order that was cancelled.
+     */
+    order: IExitOrder;
+}
+
+/**
+ * An intent emitted by a position manager for a broker to act on.
+ */
+export type OrderIntent =
+    | IPlaceOrderIntent
+    | ICancelOrderIntent
+    | IPlaceExitOrderIntent
+    | IModifyExitOrderIntent
+    | ICancelExitOrderIntent;
+
+/**
+ * Routes order intents to a broker, for example a paper trading account or a live trading API.
+ * Intents are emitted when orders are placed, changed or cancelled, the broker fills the orders
+ * and reports the fills.
+ */
+export interface IBroker {
+    /**
+     * Act on an order intent.
+     * Intents are submitted in the order they are emitted, the next intent isn't submitted
+     * until the returned promise (if any) resolves.
+     */
+    submit(intent: OrderIntent): void | Promise<void>;
+
+    /**
+     * Receive each bar as it arrives, before the strategy's rules are invoked for it.
+     * A broker that simulates trading fills its working orders from the bar.
+     */
+    addBar?(bar: IBar): void | Promise<void>;
+}
+
+/**
+ * A fill reported by the simulated broker.
+ */
+export interface IFill {
+    /**
+     * Timestamp of the bar in which the fill happened.
+     */
+    time: number;
+
+    /**
+     * Symbol of the instrument that was traded.
+     */
+    symbol?: string;
+
+    /**
+     * Whether units were bought or sold.
+     */
+    side: "buy" | "sell";
+
+    /**
+     * The price of the fill.
+     */
+    price: number;
+
+    /**
+     * The number of units filled.
+     */
+    quantity: number;
+
+    /**
+     * Commission charged for the fill.
+     */
+    commission: number;
+
+    /**
+     * Id of the position that the fill exits, undefined for entries.
+     */
+    positionId?: number;
+
+    /**
+     * The reason for the fill.
+     */
+    reason: string;
+}
+
+//
+// An entry order that is waiting to be filled by the simulated broker.
+//
+interface IWorkingEntryOrder {
+    intent: IPlaceOrderIntent;
+    barsPending: number;
+    stopTriggered: boolean;
+}
+
+/**
+ * An in-memory broker for paper trading.
+ * Working orders are filled from the bars the broker receives: market orders at the time set by their timing,
+ * stop and limit orders when the price reaches them (or at the open when the price gaps through them).
+ * Stops are triggered by the high or low of the bar and are filled before profit targets, an exit never trades
+ * more units than are held. Slippage isn't simulated, so fills can differ from the trades of the position manager.
+ * Unsized positions are treated as 1 unit.
+ */
+export class SimulatedBroker implements IBroker {
+
+    /**
+     * Cash balance, the starting capital adjusted by the value and commission of each fill.
+     */
+    public cash: number;
+
+    /**
+     * Fills in the order they happened.
+     */
+    public fills: IFill[] = [];
+
+    /**
+     * Net units held for each symbol, positive for long positions and negative for short positions.
+     * Positions without a symbol are held under the empty string.
+     */
+    public positions: { [symbol: string]: number } = {};
+
+    /**
+     * The most recent bar received.
+     */
+    private _bar: IBar | undefined;
+
+    /**
+     * Entry orders that are waiting to be filled.
+     */
+    private _entryOrders: IWorkingEntryOrder[] = [];
+
+    /**
+     * Exit orders that are waiting to be filled.
+     */
+    private _exitOrders: IPlaceExitOrderIntent[] = [];
+
+    /**
+     * @param startingCapital The cash balance to start with.
+     * @param commission Commission charged on each fill, defaults to no commission.
+     */
+    constructor(public readonly startingCapital: number = 0, private readonly commission?: CommissionModel) {
+        this.cash = startingCapital;
+    }
+
+    /**
+     * Entry orders that are waiting to be filled.
+     */
+    public get workingOrders(): IEntryOrder[] {
+        return this._entryOrders.map(working => working.intent.order);
+    }
+
+    /**
+     * Exit orders that are waiting to be filled.
+     */
+    public get workingExitOrders(): IExitOrder[] {
+        return this._exitOrders.map(intent => intent.order);
+    }
+
+    /**
+     * Act on an order intent.
+     */
+    public submit(intent: OrderIntent): void {
+        switch (intent.type) {
+            case "place-order": {
+                const order = intent.order;
+                if (order.orderType === "market" && order.entryPrice === undefined && intent.timing === "signal-close") {
+                    // Fill immediately at the close of the current bar.
+                    this._fillEntry(intent, this._currentBar().close);
+                } else {
+                    this._entryOrders.push({ intent: intent, barsPending: 0, stopTriggered: false });
+                }
+                break;
+            }
+
+            case "cancel-order":
+                this._removeEntryOrder(intent.order);
+                break;
+
+            case "place-exit-order":
+                if (intent.order.orderType === "market" && (intent.order.timing || "signal-close") === "signal-close") {
+                    // Fill immediately at the close of the current bar.
+                    this._fillExit(intent, this._currentBar().close);
+                } else {
+                    this._exitOrders.push(intent);
+                }
+                break;
+
+            case "modify-exit-order":
+                // The working order is the object that was placed, it already has the new price and quantity.
+                break;
+
+            case "cancel-exit-order":
+                this._exitOrders = this._exitOrders.filter(working => working.order !== intent.order);
+                break;
+
+            default: {
+                const unknownIntent: never = intent;
+                throw new Error(`Unexpected "type" field of order intent. Expected "place-order", "cancel-order", "place-exit-order", "modify-exit-order" or "cancel-exit-order", Actual: "${(unknownIntent as { type: string }).type}".`);
+            }
+        }
+    }
+
+    /**
+     * Fill the working orders that the price reaches in a new bar.
+     * Exits are filled before entries.
+     */
+    public addBar(bar: IBar): void {
+        this._bar = bar;
+
+        for (const orderType of [ "market", "stop", "limit" ]) {
+            for (const intent of this._exitOrders.filter(working => working.order.orderType === orderType)) {
+                const exitPrice = this._exitFillPrice(bar, intent.order);
+                if (exitPrice !== undefined) {
+                    this._exitOrders = this._exitOrders.filter(working => working !== intent);
+                    this._fillExit(intent, exitPrice);
+                }
+            }
+        }
+
+        for (const working of this._entryOrders.slice()) {
+            const order = working.intent.order;
+            working.barsPending += 1;
+            if ((order.goodForBars !== undefined && working.barsPending > order.goodForBars)
+                || (order.goodUntil !== undefined && bar.time > order.goodUntil)) {
+                this._removeEntryOrder(order); // Expired.
+                continue;
+            }
+
+            // The broker tracks the stop of a stop-limit order itself.
+            const brokerOrder = { ...order, stopTriggered: working.stopTriggered };
+            const entryPrice = entryFillPrice(bar, brokerOrder, working.intent.timing || "next-open");
+            working.stopTriggered = !!brokerOrder.stopTriggered;
+            if (entryPrice !== undefined) {
+                this._removeEntryOrder(order);
+                this._fillEntry(working.intent, entryPrice);
+            }
+        }
+    }
+
+    //
+    // The bar that orders are filled in, the most recent bar received.
+    //
+    private _currentBar(): IBar {
+        if (this._bar === undefined) {
+            throw new Error("Expected 'addBar' to be called on the simulated broker before an order is filled.");
+        }
+
+        return this._bar;
+    }
+
+    //
+    // Removes an entry order that is no longer working.
+    //
+    private _removeEntryOrder(order: IEntryOrder): void {
+        this._entryOrders = this._entryOrders.filter(working => working.intent.order !== order);
+    }
+
+    //
+    // The price a working exit order fills at in a bar, or undefined if it isn't filled.
+    //
+    private _exitFillPrice(bar: IBar, order: IExitOrder): number | undefined {
+        const isBuy = order.direction === TradeDirection.Short;
+        switch (order.orderType) {
+            case "market":
+                return timedFillPrice(bar, order.timing || "signal-close");
+
+            case "stop":
+                return stopFillPrice(bar, isBuy, order.stopPrice!);
+
+            case "limit":
+                return limitFillPrice(bar, isBuy, order.limitPrice!);
+
+            default: {
+                const unknownOrderType: never = order.orderType;
+                throw new Error(`Unexpected "orderType" field of exit order. Expected "market", "stop" or "limit", Actual: "${unknownOrderType as string}".`);
+            }
+        }
+    }
+
+    //
+    // Fills an order to enter a position.
+    //
+    private _fillEntry(intent: IPlaceOrderIntent, price: number): void {
+        const quantity = intent.quantity !== undefined ? intent.quantity : 1;
+        this._fill(intent, "entry", price, quantity, undefined, intent.order.reason);
+    }
+
+    //
+    // Fills an order to exit a lot, limited to the units that are held.
+    //
+    private _fillExit(intent: IPlaceExitOrderIntent, price: number): void {
+        const held = this.positions[intent.symbol || ""] || 0;
+        const unitsHeld = intent.direction === TradeDirection.Long ? Math.max(held, 0) : Math.max(-held, 0);
+        const quantity = Math.min(intent.order.quantity, unitsHeld);
+        if (quantity > 0) {
+            this._fill(intent, "exit", price, quantity, intent.order.positionId, intent.order.reason);
+        }
+    }
+
+    //
+    // Records a fill and updates cash and the position held.
+    //
+    private _fill(
+        intent: OrderIntent,
+        orderSide: "entry" | "exit",
+        price: number,
+        quantity: number,
+        positionId: number | undefined,
+        reason: string
+    ): void {
+        const isBuy = (intent.direction === TradeDirection.Long) === (orderSide === "entry");
+        const commission = this.commission !== undefined
+            ? computeCommission(this.commission, {
+                direction: intent.direction,
+                side: orderSide,
+                price: price,
+                quantity: quantity,
+            })
+            : 0;
+        const symbol = intent.symbol || "";
+        const units = isBuy ? quantity : -quantity;
+        this.cash -= units * price + commission;
+        this.positions[symbol] = (this.positions[symbol] || 0) + units;
+        this.fills.push({
+            time: this._currentBar().time,
+            symbol: intent.symbol,
+            side: isBuy ? "buy" : "sell",
+            price: price,
+            quantity: quantity,
+            commission: commission,
+            positionId: positionId,
+            reason: reason,
+        });
+    }
+}
@@ -0,0 +1,173 @@
+import { TradeDirection } from "./strategy";
+import { isFunction } from "./utils";
+
+/**
+ * Describes the fill that a commission is charged on.
+ */
+export interface ICommissionArgs {
+    /**
+     * The direction of the position being entered or exited.
+     */
+    direction: TradeDirection;
+
+    /**
+     * Set to "entry" when the position is being entered and "exit" when it is being exited.
+     */
+    side: "entry" | "exit";
+
+    /**
+     * The price the order was filled at.
+     */
+    price: number;
+
+    /**
+     * The number of units traded.
+     */
+    quantity: number;
+}
+
+/**
+ * A custom function that computes the commission charged for a fill.
+ */
+export type CommissionFn = (args: ICommissionArgs) => number;
+
+/**
+ * Optional limits that are applied to the commission computed by a model.
+ */
+export interface ICommissionLimits {
+    /**
+     * The smallest commission charged for a fill.
+     */
+    minimum?: number;
+
+    /**
+     * The largest commission charged for a fill.
+     */
+    maximum?: number;
+}
+
+/**
+ * Charges a fixed amount for every fill.
+ */
+export interface IFixedCommission extends ICommissionLimits {
+    type: "fixed";
+
+    /**
+     * The amount charged per fill.
+     */
+    amount: number;
+}
+
+/**
+ * Charges a fixed amount for each unit traded.
+ */
+export interface IPerShareCommission extends ICommissionLimits {
+    type: "per-share";
+
+    /**
+     * The amount charged per unit.
+     */
+    amount: number;
+}
+
+/**
+ * Charges a percentage of the notional value (price * quantity) of the fill.
+ */
+export interface IPercentCommission extends ICommissionLimits {
+    type: "percent";
+
+    /**
+     * The percentage of notional value to charge, eg 0.1 charges 0.1%.
+     */
+    percent: number;
+}
+
+/**
+ * A single tier in a tiered commission schedule.
+ */
+export interface ICommissionTier {
+    /**
+     * The tier applies to fills with a notional value up to and including this amount.
+     * Leave undefined for the final tier that applies to all larger fills.
+     */
+    upTo?: number;
+
+    /**
+     * The commission model to apply to fills within this tier.
+     */
+    commission: CommissionModel;
+}
+
+/**
+ * Selects a commission model based on the notional value of the fill.
+ */
+export interface ITieredCommission extends ICommissionLimits {
+    type: "tiered";
+
+    /**
+     * Tiers in ascending order of their upper limit.
+     */
+    tiers: ICommissionTier[];
+}
+
+/**
+ * Defines how commission is charged when entering and exiting positions.
+ */
+export type CommissionModel =
+    | CommissionFn
+    | IFixedCommission
+    | IPerShareCommission
+    | IPercentCommission
+    | ITieredCommission;
+
+//
+// Applies the minimum and maximum limits to a computed commission.
+//
+function applyLimits(commission: number, limits: ICommissionLimits): number {
+    if (limits.minimum !== undefined) {
+        commission = Math.max(commission, limits.minimum);
+    }
+
+    if (limits.maximum !== undefined) {
+        commission = Math.min(commission, limits.maximum);
+    }
+
+    return commission;
+}
+
+/**
+ * Compute the commission charged for a fill.
+ *
+ * @param model The commission model to apply.
+ * @param args Describes the fill being charged.
+ */
+export function computeCommission(model: CommissionModel, args: ICommissionArgs): number {
+    if (isFunction(model)) {
+        return model(args);
+    }
+
+    switch (model.type) {
+        case "fixed":
+            return applyLimits(model.amount, model);
+
+        case "per-share":
+            return applyLimits(model.amount * args.quantity, model);
+
+        case "percent":
+            return applyLimits((model.percent / 100) * args.price * args.quantity, model);
+
+        case "tiered": {
+            const notional = args.price * args.quantity;
+            const tier = model.tiers.find(tier => tier.upTo === undefined || notional <= tier.upTo);
+            if (tier === undefined) {
+                throw new Error(`No commission tier applies to a fill with notional value ${notional}, add a final tier without an 'upTo' limit.`);
+            }
+            return applyLimits(computeCommission(tier.commission, args), model);
+        }
+
+        default: {
+            const unknownModel: never = model;
+            throw new Error(`Unexpected "type" field of commission model. Expected "fixed", "per-share", "percent" or "tiered", Actual: "${(unknownModel as { type: string }).type}".`);
+        }
+    }
+}
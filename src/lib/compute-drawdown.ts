@@ -1,14 +1,30 @@
-import { ITrade } from "./trade";
+import { applyTradeToCapital, ITimestampedValue, ITrade } from "./trade";
 import { isNumber, isObject } from "./utils";
 import { isArray } from "util";
 
 /**
- * Compute drawdown for a series of trades.
+ * Compute drawdown from peak equity at each point in a timestamped equity curve,
+ * such as the equity curve recorded by the backtest.
+ * 
+ * @param equityCurve The equity curve to compute drawdown for.
+ */
+export function computeDrawdown(equityCurve: ITimestampedValue[]): ITimestampedValue[];
+
+/**
+ * Compute drawdown after each of a series of trades.
+ * This ignores changes in value while positions are open, prefer computing drawdown from a timestamped equity curve.
  * 
  * @param trades The series of trades to compute drawdown for.
  */
-export function computeDrawdown(startingCapital: number, trades: ITrade[]): number[] {
+export function computeDrawdown(startingCapital: number, trades: ITrade[]): number[];
+
+export function computeDrawdown(startingCapitalOrEquityCurve: number | ITimestampedValue[], trades?: ITrade[]): number[] | ITimestampedValue[] {
+
+    if (isArray(startingCapitalOrEquityCurve)) {
+        return computeDrawdownSeries(startingCapitalOrEquityCurve);
+    }
 
+    const startingCapital = startingCapitalOrEquityCurve;
     if (!isNumber(startingCapital) || startingCapital <= 0) {
         throw new Error("Expected 'startingCapital' argument to 'computeDrawdown' to be a positive number that specifies the amount of capital used to compute drawdown.");
     }
@@ -23,7 +39,7 @@ export function computeDrawdown(startingCapital: number, trades: ITrade[]): numb
     let workingDrawdown = 0;
 
     for (const trade of trades) {
-        workingCapital *= trade.growth;
+        workingCapital = applyTradeToCapital(workingCapital, trade);
         if (workingCapital < peakCapital) {
             workingDrawdown = workingCapital - peakCapital;
         }
@@ -35,4 +51,22 @@ export function computeDrawdown(startingCapital: number, trades: ITrade[]): numb
     }
 
     return drawdown;
-}
\ No newline at end of file
+}
+
+//
+// Computes drawdown at each point in a timestamped equity curve.
+//
+function computeDrawdownSeries(equityCurve: ITimestampedValue[]): ITimestampedValue[] {
+    const drawdown: ITimestampedValue[] = [];
+    let peakEquity = -Infinity;
+
+    for (const point of equityCurve) {
+        peakEquity = Math.max(peakEquity, point.value);
+        drawdown.push({
+            time: point.time,
+            value: point.value - peakEquity,
+        });
+    }
+
+    return drawdown;
+}
@@ -1,4 +1,4 @@
-import { ITrade } from "./trade";
+import { applyTradeToCapital, ITrade } from "./trade";
 import { isNumber, isObject } from "./utils";
 import { isArray } from "util";
 
@@ -21,7 +21,7 @@ export function computeEquityCurve(startingCapital: number, trades: ITrade[]): n
     let workingCapital = startingCapital;
 
     for (const trade of trades) {
-        workingCapital *= trade.growth;
+        workingCapital = applyTradeToCapital(workingCapital, trade);
         equityCurve.push(workingCapital);
     }
 
@@ -0,0 +1,113 @@
+import { FillTiming } from "./backtest";
+import { IBar } from "./bar";
+import { IEntryOrder, TradeDirection } from "./strategy";
+
+/**
+ * The price an order fills at in a bar for a particular fill timing.
+ *
+ * @param bar The bar in which the order is filled.
+ * @param timing When the order is filled.
+ */
+export function timedFillPrice(bar: IBar, timing: FillTiming): number {
+    switch (timing) {
+        case "signal-close":
+        case "next-close":
+            return bar.close;
+
+        case "next-open":
+            return bar.open;
+
+        case "next-vwap":
+            return (bar.high + bar.low + bar.close) / 3;
+
+        default:
+            throw new Error(`Unexpected fill timing. Expected "signal-close", "next-open", "next-close" or "next-vwap", Actual: "${timing}".`);
+    }
+}
+
+/**
+ * The price a limit order fills at in a bar, or undefined if the limit price isn't reached.
+ * An order that gaps through the limit price fills at the (better) open price.
+ *
+ * @param bar The bar in which the order is worked.
+ * @param isBuy Set when the order buys units, otherwise it sells units.
+ * @param limitPrice The limit price of the order.
+ */
+export function limitFillPrice(bar: IBar, isBuy: boolean, limitPrice: number): number | undefined {
+    if (isBuy) {
+        return bar.low <= limitPrice ? Math.min(bar.open, limitPrice) : undefined;
+    } else {
+        return bar.high >= limitPrice ? Math.max(bar.open, limitPrice) : undefined;
+    }
+}
+
+/**
+ * The price a stop order fills at in a bar, or undefined if the stop price isn't broken.
+ * An order that gaps through the stop price fills at the (worse) open price.
+ *
+ * @param bar The bar in which the order is worked.
+ * @param isBuy Set when the order buys units, otherwise it sells units.
+ * @param stopPrice The stop price of the order.
+ */
+export function stopFillPrice(bar: IBar, isBuy: boolean, stopPrice: number): number | undefined {
+    if (isBuy) {
+        return bar.high >= stopPrice ? Math.max(bar.open, stopPrice) : undefined;
+    } else {
+        return bar.low <= stopPrice ? Math.min(bar.open, stopPrice) : undefined;
+    }
+}
+
+/**
+ * The price an order to enter a position fills at in a bar, or undefined if it isn't filled.
+ * Sets 'stopTriggered' on a "stop-limit" order when its stop price is broken.
+ *
+ * @param bar The bar in which the order is worked.
+ * @param order The order to enter a position.
+ * @param timing When market orders are filled.
+ */
+export function entryFillPrice(bar: IBar, order: IEntryOrder, timing: FillTiming): number | undefined {
+    const isLong = order.direction === TradeDirection.Long;
+
+    switch (order.orderType) {
+        case "market":
+        case "market-on-open":
+            // A conditional entry price must be breached before the position is entered.
+            if (order.entryPrice === undefined
+                || (isLong ? bar.high >= order.entryPrice : bar.low <= order.entryPrice)) {
+                return order.orderType === "market"
+                    ? timedFillPrice(bar, timing)
+                    : bar.open;
+            }
+            return undefined;
+
+        case "market-on-close":
+            return bar.close;
+
+        case "limit":
+            return limitFillPrice(bar, isLong, order.limitPrice!);
+
+        case "stop":
+            return stopFillPrice(bar, isLong, order.stopPrice!);
+
+        case "stop-limit":
+            if (!order.stopTriggered) {
+                const stopPrice = stopFillPrice(bar, isLong, order.stopPrice!);
+                if (stopPrice === undefined) {
+                    return undefined;
+                }
+
+                order.stopTriggered = true;
+                if (isLong ? stopPrice <= order.limitPrice! : stopPrice >= order.limitPrice!) {
+                    return stopPrice;
+                }
+            }
+
+            // The stop has been triggered, now working as a limit order.
+            return limitFillPrice(bar, isLong, order.limitPrice!);
+
+        default: {
+            const unknownOrderType: never = order.orderType;
+            throw new Error(`Unexpected "orderType" field of entry order. Expected "market", "market-on-open", "market-on-close", "limit", "stop" or "stop-limit", Actual: "${unknownOrderType as string}".`);
+        }
+    }
+}
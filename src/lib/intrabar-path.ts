@@ -0,0 +1,202 @@
+import { IBar } from "./bar";
+import { TradeDirection } from "./strategy";
+import { isFunction } from "./utils";
+
+/**
+ * The exit that is reached first when a bar reaches both the stop loss and the profit target.
+ */
+export type IntrabarExit = "stop-loss" | "profit-target";
+
+/**
+ * Arguments to an intrabar path function.
+ */
+export interface IIntrabarPathArgs {
+    /**
+     * The bar that reaches both the stop loss and the profit target.
+     */
+    bar: IBar;
+
+    /**
+     * The direction of the position.
+     */
+    direction: TradeDirection;
+
+    /**
+     * Price where the stop loss is triggered.
+     */
+    stopPrice: number;
+
+    /**
+     * Price where the profit target is triggered.
+     */
+    profitTarget: number;
+}
+
+/**
+ * Records which exit was reached first and how that was decided.
+ */
+export interface IIntrabarResolution {
+    /**
+     * The exit reached first.
+     */
+    exit: IntrabarExit;
+
+    /**
+     * The path model that decided the exit, eg "pessimistic" or "drill-down".
+     */
+    resolvedBy: string;
+}
+
+/**
+ * A custom function that decides which exit a bar reaches first.
+ */
+export type IntrabarPathFn = (args: IIntrabarPathArgs) => IntrabarExit;
+
+/**
+ * Assumes the worst, the stop loss is reached before the profit target.
+ */
+export interface IPessimisticPath {
+    type: "pessimistic";
+}
+
+/**
+ * Assumes the best, the profit target is reached before the stop loss.
+ */
+export interface IOptimisticPath {
+    type: "optimistic";
+}
+
+/**
+ * Infers the path from the colour of the bar.
+ * A rising bar is assumed to trade open, low, high, close and a falling bar open, high, low, close.
+ */
+export interface IBarColourPath {
+    type: "ohlc";
+}
+
+/**
+ * Steps through lower timeframe bars within the bar to find the exit that is reached first.
+ */
+export interface IDrillDownPath {
+    type: "drill-down";
+
+    /**
+     * Returns the lower timeframe bars within a bar, in time order.
+     * Return undefined or an empty array when they are not available.
+     */
+    getBars: (bar: IBar) => IBar[] | undefined;
+
+    /**
+     * Resolves the path when lower timeframe bars are not available
+     * or when a single lower timeframe bar reaches both exits.
+     * Defaults to "ohlc".
+     */
+    fallback?: IPessimisticPath | IOptimisticPath | IBarColourPath;
+}
+
+/**
+ * Defines how to decide which exit is reached first when a bar reaches both the stop loss and the profit target.
+ */
+export type IntrabarPathModel =
+    | IntrabarPathFn
+    | IPessimisticPath
+    | IOptimisticPath
+    | IBarColourPath
+    | IDrillDownPath;
+
+/**
+ * Returns true when a bar reaches the stop loss.
+ *
+ * @param bar The bar to check.
+ * @param direction The direction of the position.
+ * @param stopPrice Price where the stop loss is triggered.
+ */
+export function isStopReached(bar: IBar, direction: TradeDirection, stopPrice: number): boolean {
+    return direction === TradeDirection.Long
+        ? bar.low <= stopPrice
+        : bar.high >= stopPrice;
+}
+
+/**
+ * Returns true when a bar reaches the profit target.
+ *
+ * @param bar The bar to check.
+ * @param direction The direction of the position.
+ * @param profitTarget Price where the profit target is triggered.
+ */
+export function isProfitTargetReached(bar: IBar, direction: TradeDirection, profitTarget: number): boolean {
+    return direction === TradeDirection.Long
+        ? bar.high >= profitTarget
+        : bar.low <= profitTarget;
+}
+
+//
+// Decides the exit reached first from the colour of the bar.
+//
+function resolveByBarColour(args: IIntrabarPathArgs): IntrabarExit {
+    const isRising = args.bar.close >= args.bar.open;
+    // A rising bar visits the low first, a falling bar visits the high first.
+    const isLowFirst = isRising;
+    const isStopBelow = args.direction === TradeDirection.Long;
+    return isLowFirst === isStopBelow ? "stop-loss" : "profit-target";
+}
+
+/**
+ * Decide which exit is reached first when a bar reaches both the stop loss and the profit target.
+ * A bar that opens beyond either level reaches that level first, regardless of the model.
+ *
+ * @param model The intrabar path model to apply.
+ * @param args The bar and the levels it reaches.
+ */
+export function resolveIntrabarPath(model: IntrabarPathModel, args: IIntrabarPathArgs): IIntrabarResolution {
+
+    const { bar, direction } = args;
+    const isLong = direction === TradeDirection.Long;
+    if (isLong ? bar.open <= args.stopPrice : bar.open >= args.stopPrice) {
+        return { exit: "stop-loss", resolvedBy: "open" };
+    }
+    if (isLong ? bar.open >= args.profitTarget : bar.open <= args.profitTarget) {
+        return { exit: "profit-target", resolvedBy: "open" };
+    }
+
+    if (isFunction(model)) {
+        return { exit: model(args), resolvedBy: "custom" };
+    }
+
+    switch (model.type) {
+        case "pessimistic":
+            return { exit: "stop-loss", resolvedBy: model.type };
+
+        case "optimistic":
+            return { exit: "profit-target", resolvedBy: model.type };
+
+        case "ohlc":
+            return { exit: resolveByBarColour(args), resolvedBy: model.type };
+
+        case "drill-down": {
+            const fallback = model.fallback || { type: "ohlc" };
+            const lowerBars = model.getBars(bar) || [];
+            for (const lowerBar of lowerBars) {
+                const stopReached = isStopReached(lowerBar, direction, args.stopPrice);
+                const profitTargetReached = isProfitTargetReached(lowerBar, direction, args.profitTarget);
+                if (stopReached && profitTargetReached) {
+                    return resolveIntrabarPath(fallback, { ...args, bar: lowerBar });
+                }
+                else if (stopReached) {
+                    return { exit: "stop-loss", resolvedBy: model.type };
+                }
+                else if (profitTargetReached) {
+                    return { exit: "profit-target", resolvedBy: model.type };
+                }
+            }
+
+            // Lower timeframe bars are not available or don't reach either level.
+            return resolveIntrabarPath(fallback, args);
+        }
+
+        default: {
+            const unknownModel: never = model;
+            throw new Error(`Unexpected "type" field of intrabar path model. Expected "pessimistic", "optimistic", "ohlc" or "drill-down", Actual: "${(unknownModel as { type: string }).type}".`);
+        }
+    }
+}
@@ -3,11 +3,73 @@ import { assert } from "chai";
 import { DataFrame } from "data-forge";
 import { EventEmitter } from "events";
 import { max, min } from "mathjs";
-import { IBacktestOptions } from "./backtest";
+import { Account } from "./account";
+import { FillTiming, IBacktestOptions } from "./backtest";
 import { IBar } from "./bar";
+import { IExitOrder, OrderIntent } from "./broker";
+import { computeCommission } from "./commission";
+import { entryFillPrice, timedFillPrice } from "./fill-price";
+import { IIntrabarResolution, isProfitTargetReached, isStopReached, resolveIntrabarPath } from "./intrabar-path";
 import { IPosition } from "./position";
-import { IEnterPositionOptions, IStrategy, TradeDirection } from "./strategy";
+import { computePositionSize } from "./position-sizing";
+import { computeBorrowFee, isAlternativeUptickTriggered } from "./short-selling";
+import { applySlippage } from "./slippage";
+import { computeStopLoss } from "./stops";
+import { checkTimeExits } from "./time-exits";
+import { IEnterPositionOptions, IEntryOrder, IExitPositionOptions, IHookArgs, IStopPrice, InitStateFn, IStrategy, OrderCancelReason, TradeDirection } from "./strategy";
 import { ITrade } from "./trade";
+import { isFunction, isObject } from "./utils";
+
+//
+// Converts the result of a stop loss function to a distance from a reference price.
+//
+function toStopDistance(stop: number | IStopPrice, direction: TradeDirection, referencePrice: number): number {
+  if (typeof stop === "number") {
+    return stop;
+  }
+
+  return direction === TradeDirection.Long
+    ? referencePrice - stop.price
+    : stop.price - referencePrice;
+}
+
+//
+// Creates fresh state for a backtest of the strategy.
+//
+function initState<InputBarT extends IBar, IndicatorBarT extends InputBarT, ParametersT, IndexT, StateT>(
+  strategy: IStrategy<InputBarT, IndicatorBarT, ParametersT, IndexT, StateT>
+): StateT | undefined {
+  if (strategy.state === undefined) {
+    return undefined;
+  }
+
+  if (isFunction(strategy.state)) {
+    return (strategy.state as InitStateFn<ParametersT, StateT>)(strategy.parameters || ({} as ParametersT));
+  }
+
+  return snapshotState(strategy.state);
+}
+
+//
+// Copies the strategy's state so it isn't changed by later bars.
+//
+function snapshotState<StateT>(state: StateT): StateT {
+  return state === undefined ? undefined : JSON.parse(JSON.stringify(state));
+}
+
+//
+// Copies a bar from before a split at the price level after the split.
+//
+function splitAdjustBar<BarT extends IBar>(bar: BarT, ratio: number): BarT {
+  return {
+    ...bar,
+    open: bar.open / ratio,
+    high: bar.high / ratio,
+    low: bar.low / ratio,
+    close: bar.close / ratio,
+    volume: bar.volume * ratio,
+  };
+}
 
 export enum PositionStatus {
   None,
@@ -30,13 +92,121 @@ interface IEmissions {
     message: string;
   }) => void;
   complete: (trades: ITrade[]) => void;
+  orderIntent: (intent: OrderIntent) => void;
+}
+
+/**
+ * Version of the snapshot produced by 'PositionManager.toJSON'.
+ */
+export const POSITION_MANAGER_SNAPSHOT_VERSION = 1;
+
+/**
+ * The state of a position manager, so that trading can be stopped and resumed later.
+ * The snapshot contains only data (no functions), the strategy and options are supplied again on resume.
+ */
+export interface IPositionManagerSnapshot<StateT = unknown> {
+  /**
+   * Version of the snapshot format.
+   */
+  version: number;
+
+  /**
+   * Status of the position.
+   */
+  positionStatus: PositionStatus;
+
+  /**
+   * Direction of the position or pending entry.
+   */
+  positionDirection: TradeDirection;
+
+  /**
+   * Price for conditional intrabar entry.
+   */
+  conditionalEntryPrice?: number;
+
+  /**
+   * Reason for the pending entry.
+   */
+  entryReason: string;
+
+  /**
+   * Tag for the pending entry.
+   */
+  entryTag?: string;
+
+  /**
+   * Symbol of the instrument being traded.
+   */
+  symbol?: string;
+
+  /**
+   * The strategy's state.
+   */
+  state?: StateT;
+
+  /**
+   * Bars in the lookback buffer, oldest first.
+   */
+  lookback: IBar[];
+
+  /**
+   * Lots held in the open position, oldest first.
+   */
+  openPositions: IPosition<StateT>[];
+
+  /**
+   * The entry order waiting to be filled.
+   */
+  pendingEntry?: IEntryOrder;
+
+  /**
+   * Exits waiting to be filled, each refers to a lot by its index in 'openPositions'.
+   */
+  pendingExits: { positionIndex: number, fraction?: number, reason: string }[];
+
+  /**
+   * Id for the next position that is opened.
+   */
+  nextPositionId: number;
+
+  /**
+   * The previous bar, used to check short sale restrictions.
+   */
+  previousBar?: IBar;
+
+  /**
+   * Set when the alternative uptick rule was triggered in the previous bar.
+   */
+  uptickRuleTriggered: boolean;
+
+  /**
+   * Set when short positions can't be entered in the current bar.
+   */
+  isShortRestricted: boolean;
+
+  /**
+   * Set once the strategy's 'onStart' hook has been called.
+   */
+  started: boolean;
+
+  /**
+   * Trades that have been closed.
+   */
+  completedTrades: ITrade<StateT>[];
+
+  /**
+   * Cash in the account, when trading with capital.
+   */
+  cash?: number;
 }
 
 export class PositionManager<
   InputBarT extends IBar,
   IndicatorBarT extends InputBarT,
   ParametersT,
-  IndexT
+  IndexT,
+  StateT = unknown
 > extends EventEmitter {
   /** Status of the position at any give time. */
   private _positionStatus: PositionStatus = PositionStatus.None;
@@ -53,13 +223,65 @@ export class PositionManager<
   public conditionalEntryPrice: number | undefined;
   /** The strategy can tell the position what reason it entered a position */
   public entryReason: string = 'entry-rule';
+  /** The strategy can tag the position it enters. */
+  public entryTag: string | undefined;
   /** Strategy lookback period. */
   public lookbackPeriod = 1;
+  /** State passed to the strategy's rules, undefined when the strategy doesn't define state. */
+  public state: StateT;
   /** Tracks trades that have been closed. */
-  public completedTrades: ITrade[] = [];
+  public completedTrades: ITrade<StateT>[] = [];
   /** Create a circular buffer to use for the lookback. */
   public lookbackBuffer = new CBuffer(1);
 
+  /**
+   * The account that tracks cash and equity.
+   * Only set when trading with capital, otherwise undefined.
+   */
+  public account: Account | undefined;
+
+  /** Symbol of the instrument being traded, recorded on each trade. */
+  public symbol: string | undefined;
+
+  /**
+   * Cash available for trading.
+   * Only tracked when trading with capital, otherwise undefined.
+   */
+  public get cash(): number | undefined {
+    return this.account && this.account.cash;
+  }
+
+  /**
+   * Total equity of the account, cash plus the value of open positions at their most recent close.
+   * Only tracked when trading with capital, otherwise undefined.
+   */
+  public get equity(): number | undefined {
+    return this.account && this.account.equity;
+  }
+
+  /**
+   * Value of the open position at the most recent close.
+   */
+  public get marketValue(): number {
+    if (this.lookbackBuffer.length === 0) {
+      return 0;
+    }
+
+    const price = this.lookbackBuffer.last().close;
+    let marketValue = 0;
+    for (const position of this.openPositions) {
+      marketValue += this._marketValue(position, price);
+    }
+    return marketValue;
+  }
+
+  /**
+   * The number of positions currently open, lots of the same position count as one.
+   */
+  public get numOpenPositions(): number {
+    return this.openPositions.length > 0 ? 1 : 0;
+  }
+
   private _options: IBacktestOptions = {};
   public get options(): IBacktestOptions {
     return this._options;
@@ -68,17 +290,18 @@ export class PositionManager<
     this._options = options;
   }
 
-  private _strategy!: IStrategy<InputBarT, IndicatorBarT, ParametersT, IndexT>;
+  private _strategy!: IStrategy<InputBarT, IndicatorBarT, ParametersT, IndexT, StateT>;
   public get strategy(): IStrategy<
     InputBarT,
     IndicatorBarT,
     ParametersT,
-    IndexT
+    IndexT,
+    StateT
   > {
     return this._strategy;
   }
   public set strategy(
-    strategy: IStrategy<InputBarT, IndicatorBarT, ParametersT, IndexT>
+    strategy: IStrategy<InputBarT, IndicatorBarT, ParametersT, IndexT, StateT>
   ) {
     this._strategy = strategy;
   }
@@ -87,14 +310,51 @@ export class PositionManager<
     return this.strategy.parameters || ({} as ParametersT);
   }
 
-  private _openPosition: IPosition | null = null;
-  public get openPosition(): IPosition | null {
-    return this._openPosition;
+  /**
+   * Lots currently held in the open position, oldest first.
+   * There is more than one lot when the strategy scales in to a position (see 'maxUnits').
+   */
+  public openPositions: IPosition<StateT>[] = [];
+
+  /** The open position (the oldest lot when scaling in), or null when there is no open position. */
+  public get openPosition(): IPosition<StateT> | null {
+    return this.openPositions.length > 0 ? this.openPositions[0] : null;
   }
-  public set openPosition(position: IPosition | null) {
-    this._openPosition = position;
+  public set openPosition(position: IPosition<StateT> | null) {
+    this.openPositions = position ? [position] : [];
   }
 
+  /**
+   * The order waiting to enter a position, or to add another lot to the open position.
+   */
+  private _pendingEntry: IEntryOrder | undefined;
+
+  /**
+   * Exits requested by the exit rule that are filled in the next bar (depending on the 'fillTiming' option).
+   */
+  private _pendingExits: { position: IPosition<StateT>, fraction?: number, reason: string }[] = [];
+
+  /**
+   * Working stop loss and profit target orders of each lot, so the broker can be told when they change.
+   * They aren't part of a snapshot, a resumed position manager places them again.
+   */
+  private _exitOrders = new Map<IPosition<StateT>, { stop?: IExitOrder, targets: IExitOrder[] }>();
+
+  /** Id for the next position that is opened. */
+  private _nextPositionId = 1;
+
+  /** The previous bar, used to check short sale restrictions. */
+  private _previousBar: IndicatorBarT | undefined;
+
+  /** Set when the alternative uptick rule was triggered in the previous bar. */
+  private _uptickRuleTriggered = false;
+
+  /** Set when short positions can't be entered in the current bar. */
+  private _isShortRestricted = false;
+
+  /** Set once the strategy's 'onStart' hook has been called. */
+  private _started = false;
+
   private _untypedOn = this.on;
   private _untypedEmit = this.emit;
   public on = <K extends keyof IEmissions>(
@@ -106,17 +366,125 @@ export class PositionManager<
     ...args: Parameters<IEmissions[K]>
   ): boolean => this._untypedEmit(event, ...args);
 
+  /**
+   * @param strategy The strategy to trade.
+   * @param options Backtest options.
+   * @param account Optional account to trade against, this can be shared with other position managers.
+   *    When omitted an account is created if the 'startingCapital' option is set.
+   */
   constructor(
-    strategy: IStrategy<InputBarT, IndicatorBarT, ParametersT, IndexT>,
-    options?: IBacktestOptions
+    strategy: IStrategy<InputBarT, IndicatorBarT, ParametersT, IndexT, StateT>,
+    options?: IBacktestOptions,
+    account?: Account
   ) {
     super();
     this.strategy = strategy;
     this.lookbackPeriod = this.strategy.lookbackPeriod || 1;
     this.lookbackBuffer = new CBuffer(this.lookbackPeriod);
+    // State is only undefined when the strategy doesn't define it.
+    this.state = initState(this.strategy) as StateT;
     if (options) {
       this.options = options;
     }
+    if (account) {
+      this.account = account;
+    } else if (this.options.startingCapital !== undefined) {
+      this.account = new Account(this.options.startingCapital);
+    }
+    if (this.account) {
+      this.account.register(this);
+    }
+  }
+
+  /**
+   * Produce a snapshot of the position manager's state that can be persisted (eg with JSON.stringify)
+   * and later resumed with 'fromSnapshot'. Bars and the strategy's state must be serializable as JSON.
+   */
+  public toJSON(): IPositionManagerSnapshot<StateT> {
+    const snapshot: IPositionManagerSnapshot<StateT> = {
+      version: POSITION_MANAGER_SNAPSHOT_VERSION,
+      positionStatus: this.positionStatus,
+      positionDirection: this.positionDirection,
+      conditionalEntryPrice: this.conditionalEntryPrice,
+      entryReason: this.entryReason,
+      entryTag: this.entryTag,
+      symbol: this.symbol,
+      state: this.state,
+      lookback: this.lookbackBuffer.toArray(),
+      openPositions: this.openPositions,
+      pendingEntry: this._pendingEntry,
+      pendingExits: this._pendingExits.map(pendingExit => ({
+        positionIndex: this.openPositions.indexOf(pendingExit.position),
+        fraction: pendingExit.fraction,
+        reason: pendingExit.reason,
+      })),
+      nextPositionId: this._nextPositionId,
+      previousBar: this._previousBar,
+      uptickRuleTriggered: this._uptickRuleTriggered,
+      isShortRestricted: this._isShortRestricted,
+      started: this._started,
+      completedTrades: this.completedTrades,
+      cash: this.cash,
+    };
+
+    // Copy so the snapshot isn't changed by later bars.
+    return JSON.parse(JSON.stringify(snapshot));
+  }
+
+  /**
+   * Resume a position manager from a snapshot produced by 'toJSON'.
+   *
+   * @param snapshot The snapshot to resume from.
+   * @param strategy The strategy to trade.
+   * @param options Backtest options.
+   * @param account Optional account to trade against, this can be shared with other position managers.
+   *    The cash of an account that is passed in is not restored from the snapshot.
+   */
+  public static fromSnapshot<InputBarT extends IBar, IndicatorBarT extends InputBarT, ParametersT, IndexT, StateT>(
+    snapshot: IPositionManagerSnapshot<StateT>,
+    strategy: IStrategy<InputBarT, IndicatorBarT, ParametersT, IndexT, StateT>,
+    options?: IBacktestOptions,
+    account?: Account
+  ): PositionManager<InputBarT, IndicatorBarT, ParametersT, IndexT, StateT> {
+    if (!isObject(snapshot)) {
+      throw new Error("Expected 'snapshot' argument to 'fromSnapshot' to be an object produced by 'PositionManager.toJSON'.");
+    }
+
+    if (snapshot.version !== POSITION_MANAGER_SNAPSHOT_VERSION) {
+      throw new Error(`Unexpected "version" field of position manager snapshot. Expected ${POSITION_MANAGER_SNAPSHOT_VERSION}, Actual: "${snapshot.version}".`);
+    }
+
+    // Copy so the resumed position manager doesn't change the snapshot.
+    snapshot = JSON.parse(JSON.stringify(snapshot)) as IPositionManagerSnapshot<StateT>;
+
+    const positionManager = new PositionManager(strategy, options, account);
+    positionManager.positionStatus = snapshot.positionStatus;
+    positionManager.positionDirection = snapshot.positionDirection;
+    positionManager.conditionalEntryPrice = snapshot.conditionalEntryPrice;
+    positionManager.entryReason = snapshot.entryReason;
+    positionManager.entryTag = snapshot.entryTag;
+    positionManager.symbol = snapshot.symbol;
+    positionManager.state = snapshot.state as StateT;
+    for (const bar of snapshot.lookback) {
+      positionManager.lookbackBuffer.push(bar);
+    }
+    positionManager.openPositions = snapshot.openPositions;
+    positionManager._pendingEntry = snapshot.pendingEntry;
+    positionManager._pendingExits = snapshot.pendingExits.map(pendingExit => ({
+      position: snapshot.openPositions[pendingExit.positionIndex],
+      fraction: pendingExit.fraction,
+      reason: pendingExit.reason,
+    }));
+    positionManager._nextPositionId = snapshot.nextPositionId;
+    positionManager._previousBar = snapshot.previousBar as IndicatorBarT | undefined;
+    positionManager._uptickRuleTriggered = snapshot.uptickRuleTriggered;
+    positionManager._isShortRestricted = snapshot.isShortRestricted;
+    positionManager._started = snapshot.started;
+    positionManager.completedTrades = snapshot.completedTrades;
+    if (!account && positionManager.account && snapshot.cash !== undefined) {
+      positionManager.account.cash = snapshot.cash;
+    }
+    return positionManager;
   }
 
   /**
@@ -125,7 +493,16 @@ export class PositionManager<
    * @returns
    */
   public addBar(bar: IndicatorBarT) {
+    if (!this._started) {
+      this._started = true;
+      if (this.strategy.onStart) {
+        this.strategy.onStart(this._hookArgs());
+      }
+    }
+
     this.lookbackBuffer.push(bar);
+    this._applyCorporateActions(bar);
+    this._updateShortSaleRestriction(bar);
 
     if (this.lookbackBuffer.length < this.lookbackPeriod) {
       return; // Don't invoke rules until lookback period is satisfied.
@@ -133,285 +510,95 @@ export class PositionManager<
 
     switch (+this.positionStatus) {
       case PositionStatus.None:
-        this.strategy.entryRule(this._enterPosition, {
-          bar: bar,
-          lookback: new DataFrame<number, IndicatorBarT>(
-            this.lookbackBuffer.data
-          ),
-          parameters: this.strategyParameters,
-        });
+        this._invokeEntryRule(bar, []);
         break;
 
-      case PositionStatus.Enter:
+      case PositionStatus.Enter: {
         assert(
           this.openPosition === null,
           "Expected there to be no open position initialized yet!"
         );
 
-        if (this.conditionalEntryPrice !== undefined) {
-          // Must breach conditional entry price before entering position.
-          if (this.positionDirection === TradeDirection.Long) {
-            if (bar.high < this.conditionalEntryPrice) {
-              break;
-            }
-          } else {
-            if (bar.low > this.conditionalEntryPrice) {
-              break;
-            }
-          }
-        }
-
-        const entryPrice = bar.open;
-
-        this.openPosition = {
-          direction: this.positionDirection,
-          entryTime: bar.time,
-          entryPrice: entryPrice,
-          entryReason: this.entryReason,
-          growth: 1,
-          profit: 0,
-          profitPct: 0,
-          holdingPeriod: 0,
-          maxPriceRecorded: 0
-        };
-
-        // Set the highest price recorded as this bar's top / bottom
-        if (this.openPosition!.direction === TradeDirection.Long) {
-          const top = bar.close > bar.open ? bar.close : bar.open;
-          this.openPosition!.maxPriceRecorded = max(top, this.openPosition!.maxPriceRecorded);
+        const order = this._pendingEntry;
+        const entryPrice = this._fillEntryOrder(bar);
+        if (entryPrice !== undefined) {
+          this._openNewPosition(bar, entryPrice, order);
         } else {
-          const bottom = bar.close > bar.open ? bar.open : bar.close;
-          this.openPosition!.maxPriceRecorded = min(bottom, this.openPosition!.maxPriceRecorded);
-        }
-
-        if (this.strategy.stopLoss) {
-          const initialStopDistance = this.strategy.stopLoss({
-            entryPrice: entryPrice,
-            position: this.openPosition,
-            bar: bar,
-            lookback: new DataFrame<number, InputBarT>(
-              this.lookbackBuffer.data
-            ),
-            parameters: this.strategyParameters,
-          });
-          this.openPosition.initialStopPrice =
-            this.openPosition.direction === TradeDirection.Long
-              ? entryPrice - initialStopDistance
-              : entryPrice + initialStopDistance;
-          this.openPosition.curStopPrice = this.openPosition.initialStopPrice;
-        }
-
-        if (this.strategy.trailingStopLoss) {
-          const trailingStopDistance = this.strategy.trailingStopLoss({
-            entryPrice: entryPrice,
-            position: this.openPosition,
-            bar: bar,
-            lookback: new DataFrame<number, InputBarT>(
-              this.lookbackBuffer.data
-            ),
-            parameters: this.strategyParameters,
-          });
-
-          const trailingStopPrice =
-            this.openPosition.direction === TradeDirection.Long
-              ? entryPrice - trailingStopDistance
-              : entryPrice + trailingStopDistance;
-
-          if (this.openPosition.initialStopPrice === undefined) {
-            this.openPosition.initialStopPrice = trailingStopPrice;
-          } else {
-            this.openPosition.initialStopPrice =
-              this.openPosition.direction === TradeDirection.Long
-                ? Math.max(
-                    this.openPosition.initialStopPrice,
-                    trailingStopPrice
-                  )
-                : Math.min(
-                    this.openPosition.initialStopPrice,
-                    trailingStopPrice
-                  );
-          }
-
-          this.openPosition.curStopPrice = this.openPosition.initialStopPrice;
-
-          if (this.options.recordStopPrice) {
-            this.openPosition.stopPriceSeries = [
-              {
-                time: bar.time,
-                value: this.openPosition.curStopPrice,
-              },
-            ];
-          }
-        }
-
-        if (this.openPosition.curStopPrice !== undefined) {
-          this.openPosition.initialUnitRisk =
-            this.openPosition.direction === TradeDirection.Long
-              ? entryPrice - this.openPosition.curStopPrice
-              : this.openPosition.curStopPrice - entryPrice;
-
-          this.openPosition.initialRiskPct =
-            (this.openPosition.initialUnitRisk / entryPrice) * 100;
-            
-          this.openPosition.curRiskPct = this.openPosition.initialRiskPct;
-          this.openPosition.curRMultiple = 0;
-
-          if (this.options.recordRisk) {
-            this.openPosition.riskSeries = [
-              {
-                time: bar.time,
-                value: this.openPosition.curRiskPct,
-              },
-            ];
-          }
-        }
-
-        if (this.strategy.profitTarget) {
-          const profitDistance = this.strategy.profitTarget({
-            entryPrice: entryPrice,
-            position: this.openPosition,
-            bar: bar,
-            lookback: new DataFrame<number, InputBarT>(
-              this.lookbackBuffer.data
-            ),
-            parameters: this.strategyParameters,
-          });
-          this.openPosition.profitTarget =
-            this.openPosition.direction === TradeDirection.Long
-              ? entryPrice + profitDistance
-              : entryPrice - profitDistance;
+          // The order is still pending or has expired, the strategy can cancel or place a new order.
+          this._invokeEntryRule(bar, []);
         }
-
-        this.emit("enterPosition", {
-          price: entryPrice,
-          bar,
-          position: this.openPosition,
-          message: "enter",
-        });
-        this.positionStatus = PositionStatus.Position;
         break;
+      }
 
-      case PositionStatus.Position:
+      case PositionStatus.Position: {
         assert(
           this.openPosition !== null,
           "Expected open position to already be initialized!"
         );
 
-        // For green or red bars, us the top or the bottom
-        const top =     bar.close > bar.open ? bar.close : bar.open;
-        const bottom =  bar.close < bar.open ? bar.close : bar.open;
-
-        // Update the highest/lowest price
-        if (this.openPosition!.direction === TradeDirection.Long) {
-          this.openPosition!.maxPriceRecorded = max(top, this.openPosition!.maxPriceRecorded);
-        } else {
-          this.openPosition!.maxPriceRecorded = min(bottom, this.openPosition!.maxPriceRecorded);
-        }
-
-        // Exit intrabar due to stop loss.
-        if (this.openPosition!.curStopPrice !== undefined) {
-          if (this.openPosition!.direction === TradeDirection.Long) {
-            if (bottom <= this.openPosition!.curStopPrice!) {
-              this._closePosition(
-                bar,
-                this.openPosition!.curStopPrice!,
-                "stop-loss"
-              );
-              break;
-            }
-          } else {
-            if (top >= this.openPosition!.curStopPrice!) {
-              this._closePosition(
-                bar,
-                this.openPosition!.curStopPrice!,
-                "stop-loss"
-              );
-              break;
-            }
+        if (this._exitTiming === "next-open") {
+          this._fillPendingExits(bar);
+          if (this.openPositions.length === 0) {
+            break; // All lots have been exited.
           }
         }
 
-        // Revaluate trailing stop loss.
-        if (this.strategy.trailingStopLoss !== undefined) {
-          const trailingStopDistance = this.strategy.trailingStopLoss({
-            entryPrice: this.openPosition!.entryPrice,
-            position: this.openPosition!,
-            bar: bar,
-            lookback: new DataFrame<number, InputBarT>(
-              this.lookbackBuffer.data
-            ),
-            parameters: this.strategyParameters,
-          });
+        // Lots added in this bar aren't managed until the next bar.
+        const heldPositions = this.openPositions.slice();
 
-          if (this.openPosition!.direction === TradeDirection.Long) {
-            const newTrailingStopPrice = this.openPosition!.maxPriceRecorded - trailingStopDistance;
-            if (newTrailingStopPrice > this.openPosition!.curStopPrice!) {
-              this.openPosition!.curStopPrice = newTrailingStopPrice;
-            }
-          } else {
-            const newTrailingStopPrice = this.openPosition!.maxPriceRecorded + trailingStopDistance;
-            if (newTrailingStopPrice < this.openPosition!.curStopPrice!) {
-              this.openPosition!.curStopPrice = newTrailingStopPrice;
-            }
+        if (this._pendingEntry !== undefined) {
+          const order = this._pendingEntry;
+          const entryPrice = this._fillEntryOrder(bar);
+          if (entryPrice !== undefined) {
+            this._openNewPosition(bar, entryPrice, order);
           }
+        }
 
-          if (this.options.recordStopPrice) {
-            this.openPosition!.stopPriceSeries!.push({
-              time: bar.time,
-              value: this.openPosition!.curStopPrice!,
-            });
-          }
+        for (const position of heldPositions) {
+          this._managePosition(position, bar);
         }
 
-        if (this.openPosition!.profitTarget !== undefined) {
-          if (this.openPosition!.direction === TradeDirection.Long) {
-            if (bar.high >= this.openPosition!.profitTarget!) {
-              // Exit intrabar due to profit target.
-              this._closePosition(
-                bar,
-                this.openPosition!.profitTarget!,
-                "profit-target"
-              );
-              break;
+        this._fillPendingExits(bar);
+
+        if (this.strategy.timeExits) {
+          for (const position of heldPositions) {
+            if (this.openPositions.indexOf(position) < 0) {
+              continue; // Already closed.
             }
-          } else {
-            if (bar.low <= this.openPosition!.profitTarget!) {
-              // Exit intrabar due to profit target.
-              this._closePosition(
-                bar,
-                this.openPosition!.profitTarget!,
-                "profit-target"
-              );
-              break;
+
+            const exitReason = checkTimeExits(this.strategy.timeExits, bar, position);
+            if (exitReason !== undefined) {
+              this._requestExit(position, exitReason);
             }
           }
         }
 
-        this._updatePosition(this.openPosition!, bar);
-
-        if (
-          this.openPosition!.curRiskPct !== undefined &&
-          this.options.recordRisk
-        ) {
-          this.openPosition!.riskSeries!.push({
-            time: bar.time,
-            value: this.openPosition!.curRiskPct!,
-          });
+        if (this.openPositions.length === 0) {
+          break; // All lots have been stopped out or exited.
         }
 
         if (this.strategy.exitRule) {
           this.strategy.exitRule(this._exitPosition, {
             entryPrice: this.openPosition!.entryPrice,
             position: this.openPosition!,
+            positions: this.openPositions.slice(),
             bar: bar,
             lookback: new DataFrame<number, IndicatorBarT>(
-              this.lookbackBuffer.data
+              this.lookbackBuffer.toArray()
             ),
             parameters: this.strategyParameters,
+            state: this.state,
           });
         }
 
+        if (this.positionStatus === PositionStatus.Position
+          && this.openPositions.length < this._maxUnits) {
+          // Give the strategy the chance to scale in to the position.
+          this._invokeEntryRule(bar, this.openPositions.slice());
+        }
+
         break;
+      }
 
       case PositionStatus.Exit:
         // assert(
@@ -429,107 +616,1126 @@ export class PositionManager<
       default:
         throw new Error("Unexpected state!");
     }
+
+    if (this.strategy.onBar) {
+      this.strategy.onBar({
+        bar: bar,
+        lookback: new DataFrame<number, IndicatorBarT>(
+          this.lookbackBuffer.toArray()
+        ),
+        ...this._hookArgs(),
+        positions: this.openPositions.slice(),
+        pendingEntry: this._pendingEntry,
+      });
+    }
   }
 
   /**
-   * Complete the position, adding the last trade if necessary
-   * @param lastBar
+   * General arguments to the strategy's lifecycle hooks.
    */
-  public complete(lastBar: IndicatorBarT, message = "finalize") {
-    if (this.openPosition) {
-      const lastTrade = this.finalizePosition(
-        this.openPosition,
-        lastBar.time,
-        lastBar.close,
-        message
-      );
+  private _hookArgs(): IHookArgs<ParametersT, StateT> {
+    return {
+      parameters: this.strategyParameters,
+      state: this.state,
+    };
+  }
 
-      this.emit("exitPosition", {
-        price: lastBar.close,
-        bar: lastBar,
-        position: this.openPosition,
-        message,
-      });
+  /**
+   * Cancel the pending entry order and let the strategy know.
+   *
+   * @param reason Why the order was cancelled.
+   */
+  private _cancelPendingEntry(reason: OrderCancelReason): void {
+    const order = this._pendingEntry;
+    if (order === undefined) {
+      return;
+    }
 
-      this.completedTrades.push(lastTrade);
+    this._pendingEntry = undefined;
+    this.conditionalEntryPrice = undefined;
+    if (this.positionStatus === PositionStatus.Enter) {
+      this.positionStatus = PositionStatus.None;
     }
 
-    this.emit("complete", this.completedTrades);
+    this._orderCancelled(order, reason);
   }
 
   /**
-   * User calls this function to enter a position on the instrument.
+   * Let the broker and the strategy know that an entry order was cancelled.
    *
-   * @param options
+   * @param order The order that was cancelled.
+   * @param reason Why the order was cancelled.
    */
-  private _enterPosition = (options?: IEnterPositionOptions) => {
-    assert(
-      this.positionStatus === PositionStatus.None,
-      "Can only enter a position when not already in one."
-    );
+  private _orderCancelled(order: IEntryOrder, reason: OrderCancelReason): void {
+    this.emit("orderIntent", {
+      type: "cancel-order",
+      time: this.lookbackBuffer.last().time,
+      symbol: this.symbol,
+      direction: order.direction,
+      order: order,
+      reason: reason,
+    });
 
-    this.positionStatus = PositionStatus.Enter; // Enter position next bar.
-    this.positionDirection = (options && options.direction) || TradeDirection.Long;
-    this.conditionalEntryPrice = options && options.entryPrice;
-    this.entryReason = (options && options.reason) || this.entryReason;
-  };
+    if (this.strategy.onOrderCancelled) {
+      this.strategy.onOrderCancelled({
+        bar: this.lookbackBuffer.last(),
+        order: order,
+        reason: reason,
+        ...this._hookArgs(),
+      });
+    }
+  }
 
   /**
-   * User calls this function to exit a position on the instrument.
+   * Let the broker know that an exit order was placed, changed or cancelled.
+   *
+   * @param type The type of intent.
+   * @param order The exit order.
    */
-  private _exitPosition = () => {
-    assert(
-      this.positionStatus === PositionStatus.Position,
-      "Can only exit a position when we are in a position."
+  private _emitExitOrder(type: "place-exit-order" | "modify-exit-order" | "cancel-exit-order", order: IExitOrder): void {
+    this.emit("orderIntent", {
+      type: type,
+      time: this.lookbackBuffer.last().time,
+      symbol: this.symbol,
+      direction: order.direction,
+      order: order,
+    });
+  }
+
+  /**
+   * Keep the working stop loss and profit target orders of a lot in line with the lot.
+   * Orders are placed when the lot is entered, changed when a stop trails or part of the lot is exited
+   * and cancelled when the lot is closed.
+   *
+   * @param position The lot.
+   */
+  private _syncExitOrders(position: IPosition<StateT>): void {
+    const isHeld = this.openPositions.indexOf(position) >= 0;
+    const workingOrders = this._exitOrders.get(position) || { targets: [] };
+    const units = this._quantity(position) * this._heldFraction(position);
+
+    workingOrders.stop = this._syncExitOrder(
+      position,
+      workingOrders.stop,
+      "stop-loss",
+      isHeld ? position.curStopPrice : undefined,
+      units
     );
 
-    // NOTE: to get this to exit on the current bar, we needed to throw it in the exit position
-    // function the user calls from their strategy. But in order to not break how that function
-    // works, and to not have the user pass in the bar they want to exit in, we can use the 
-    // lookback buffer last known bar. This also used to use the bar.open (since it happened on the
-    // next bar), which it will now use the bar close - since it's on the current bar
-    let lastBar = this.lookbackBuffer.last();
+    const targets: { price: number, units: number }[] = [];
+    if (isHeld && position.profitTargets !== undefined) {
+      for (const level of position.profitTargets) {
+        targets.push({
+          price: level.price,
+          units: this._quantity(position) * Math.min(level.fraction, this._heldFraction(position)),
+        });
+      }
+    } else if (isHeld && position.profitTarget !== undefined) {
+      targets.push({ price: position.profitTarget, units: units });
+    }
 
-    // Old code to exit on next bar
-    // this.positionStatus = PositionStatus.Exit; // Exit position next bar.
+    const targetOrders: IExitOrder[] = [];
+    const numTargets = Math.max(targets.length, workingOrders.targets.length);
+    for (let i = 0; i < numTargets; ++i) {
+      const target = targets[i];
+      const order = this._syncExitOrder(
+        position,
+        workingOrders.targets[i],
+        "profit-target",
+        target && target.price,
+        target ? target.units : 0
+      );
+      if (order !== undefined) {
+        targetOrders.push(order);
+      }
+    }
+    workingOrders.targets = targetOrders;
 
-    // This sets the positionStatus to None, which exits on this current bar
-    this._closePosition(lastBar, lastBar.close, "exit-rule");
-  };
+    if (isHeld) {
+      this._exitOrders.set(position, workingOrders);
+    } else {
+      this._exitOrders.delete(position);
+    }
+  }
 
   /**
-   * Close the current open position.
+   * Place, change or cancel a working stop loss or profit target order.
+   * Returns the order that is working, or undefined when there is none.
    *
-   * @param bar
-   * @param exitPrice
-   * @param exitReason
+   * @param position The lot the order exits.
+   * @param order The order that is working, if any.
+   * @param reason Either "stop-loss" or "profit-target".
+   * @param price The price of the order, undefined when no order should be working.
+   * @param quantity The number of units to exit.
    */
-  private _closePosition(
-    bar: InputBarT,
-    exitPrice: number,
-    exitReason: string
-  ) {
-    this.emit("exitPosition", {
-      price: exitPrice,
+  private _syncExitOrder(
+    position: IPosition<StateT>,
+    order: IExitOrder | undefined,
+    reason: "stop-loss" | "profit-target",
+    price: number | undefined,
+    quantity: number
+  ): IExitOrder | undefined {
+    if (price === undefined) {
+      if (order !== undefined) {
+        this._emitExitOrder("cancel-exit-order", order);
+      }
+      return undefined;
+    }
+
+    const priceField = reason === "stop-loss" ? "stopPrice" : "limitPrice";
+    if (order === undefined) {
+      order = {
+        positionId: position.positionId,
+        direction: position.direction,
+        orderType: reason === "stop-loss" ? "stop" : "limit",
+        [priceField]: price,
+        quantity: quantity,
+        reason: reason,
+      };
+      this._emitExitOrder("place-exit-order", order);
+    } else if (order[priceField] !== price || order.quantity !== quantity) {
+      order[priceField] = price;
+      order.quantity = quantity;
+      this._emitExitOrder("modify-exit-order", order);
+    }
+
+    return order;
+  }
+
+  /**
+   * Estimate the number of units an entry order trades, for the broker.
+   * Lots are sized when the order is filled, so the estimate uses the price the order is expected to fill at.
+   * Returns undefined when positions aren't sized, or when nothing is listening for order intents
+   * so that a backtest doesn't invoke the strategy's stop loss and sizing functions for the estimate.
+   *
+   * @param order The order to enter a position.
+   */
+  private _estimateQuantity(order: IEntryOrder): number | undefined {
+    if (!this.account || this.listenerCount("orderIntent") === 0) {
+      return undefined;
+    }
+
+    const bar = this.lookbackBuffer.last();
+    let price = bar.close;
+    if (order.limitPrice !== undefined) {
+      price = order.limitPrice;
+    } else if (order.stopPrice !== undefined) {
+      price = order.stopPrice;
+    } else if (order.entryPrice !== undefined) {
+      price = order.entryPrice;
+    }
+
+    const position = this._newLot(bar, price);
+    return this._limitQuantity(position, bar, price, this._sizeLot(position, bar));
+  }
+
+  /**
+   * The maximum number of lots that can be held in a position.
+   */
+  private get _maxUnits(): number {
+    return this.strategy.maxUnits || 1;
+  }
+
+  /**
+   * When market orders to enter a position are filled.
+   */
+  private get _entryTiming(): FillTiming {
+    return (this.options.fillTiming && this.options.fillTiming.entry) || "next-open";
+  }
+
+  /**
+   * When exits requested by the exit rule are filled.
+   */
+  private get _exitTiming(): FillTiming {
+    return (this.options.fillTiming && this.options.fillTiming.exit) || "signal-close";
+  }
+
+  /**
+   * Fill exits that were requested by the exit rule in the previous bar.
+   *
+   * @param bar The current bar.
+   */
+  private _fillPendingExits(bar: IndicatorBarT): void {
+    const pendingExits = this._pendingExits;
+    this._pendingExits = [];
+
+    const exitPrice = timedFillPrice(bar, this._exitTiming);
+    for (const pendingExit of pendingExits) {
+      if (this.openPositions.indexOf(pendingExit.position) < 0) {
+        continue; // Already closed, eg by a stop loss.
+      }
+
+      this._closePosition(pendingExit.position, bar, exitPrice, pendingExit.reason, pendingExit.fraction);
+    }
+  }
+
+  /**
+   * Invoke the strategy's entry rule.
+   *
+   * @param bar The current bar.
+   * @param positions Lots held in the open position.
+   */
+  private _invokeEntryRule(bar: IndicatorBarT, positions: IPosition<StateT>[]): void {
+    this.strategy.entryRule(this._enterPosition, {
+      bar: bar,
+      lookback: new DataFrame<number, IndicatorBarT>(
+        this.lookbackBuffer.toArray()
+      ),
+      parameters: this.strategyParameters,
+      state: this.state,
+      positions: positions,
+      pendingEntry: this._pendingEntry,
+      cancelEntry: this._cancelEntry,
+    });
+  }
+
+  /**
+   * Determine if the pending entry order is filled in this bar.
+   * Returns the price the order fills at, or undefined if it isn't filled.
+   * An order that has expired is cancelled.
+   *
+   * @param bar The current bar.
+   */
+  private _fillEntryOrder(bar: IndicatorBarT): number | undefined {
+    const order = this._pendingEntry!;
+    order.barsPending += 1;
+
+    if ((order.goodForBars !== undefined && order.barsPending > order.goodForBars)
+      || (order.goodUntil !== undefined && bar.time > order.goodUntil)) {
+      this._cancelPendingEntry("expired");
+      return undefined;
+    }
+
+    if (order.direction === TradeDirection.Short && this._isShortRestricted) {
+      return undefined; // Can't enter a short position in this bar.
+    }
+
+    const entryPrice = entryFillPrice(bar, order, this._entryTiming);
+    if (entryPrice !== undefined) {
+      this._pendingEntry = undefined;
+    }
+
+    return entryPrice;
+  }
+
+  /**
+   * Apply stops, trailing stops and profit targets to a lot that is held in the current bar.
+   *
+   * @param position The lot to manage.
+   * @param bar The current bar.
+   */
+  private _managePosition(position: IPosition<StateT>, bar: IndicatorBarT): void {
+    // For green or red bars, us the top or the bottom
+    const top =     bar.close > bar.open ? bar.close : bar.open;
+    const bottom =  bar.close < bar.open ? bar.close : bar.open;
+
+    // Update the highest/lowest price
+    if (position.direction === TradeDirection.Long) {
+      position.maxPriceRecorded = max(top, position.maxPriceRecorded);
+    } else {
+      position.maxPriceRecorded = min(bottom, position.maxPriceRecorded);
+    }
+
+    // Exit intrabar due to stop loss.
+    if (position.curStopPrice !== undefined) {
+      let isStopHit: boolean;
+      if (this.options.intrabarPath === undefined) {
+        // Stops are triggered by the body of the bar.
+        isStopHit = position.direction === TradeDirection.Long
+          ? bottom <= position.curStopPrice
+          : top >= position.curStopPrice;
+      } else {
+        isStopHit = isStopReached(bar, position.direction, position.curStopPrice);
+      }
+
+      if (isStopHit) {
+        const tradeDetails: Partial<ITrade<StateT>> = {};
+        if (position.profitTarget !== undefined && isProfitTargetReached(bar, position.direction, position.profitTarget)) {
+          // The bar reaches both the stop and the profit target, which is reached first?
+          const resolution: IIntrabarResolution = this.options.intrabarPath === undefined
+            ? { exit: "stop-loss", resolvedBy: "stop-first" }
+            : resolveIntrabarPath(this.options.intrabarPath, {
+              bar,
+              direction: position.direction,
+              stopPrice: position.curStopPrice,
+              profitTarget: position.profitTarget,
+            });
+          tradeDetails.intrabarResolution = resolution.resolvedBy;
+
+          if (resolution.exit === "profit-target") {
+            this._takeProfit(position, bar, tradeDetails);
+            if (this.openPositions.indexOf(position) < 0) {
+              return;
+            }
+          }
+        }
+
+        this._closeAtLevel(position, bar, position.curStopPrice, "stop-loss", undefined, tradeDetails);
+        return;
+      }
+    }
+
+    // Revaluate trailing stop loss.
+    if (this.strategy.trailingStopLoss !== undefined) {
+      const trailingStopDistance = toStopDistance(computeStopLoss(this.strategy.trailingStopLoss, {
+        entryPrice: position.entryPrice,
+        position: position,
+        bar: bar,
+        lookback: new DataFrame<number, InputBarT>(
+          this.lookbackBuffer.toArray()
+        ),
+        parameters: this.strategyParameters,
+        state: this.state,
+      }), position.direction, position.maxPriceRecorded);
+
+      if (position.direction === TradeDirection.Long) {
+        const newTrailingStopPrice = position.maxPriceRecorded - trailingStopDistance;
+        if (newTrailingStopPrice > position.curStopPrice!) {
+          position.curStopPrice = newTrailingStopPrice;
+        }
+      } else {
+        const newTrailingStopPrice = position.maxPriceRecorded + trailingStopDistance;
+        if (newTrailingStopPrice < position.curStopPrice!) {
+          position.curStopPrice = newTrailingStopPrice;
+        }
+      }
+
+      if (this.options.recordStopPrice) {
+        position.stopPriceSeries!.push({
+          time: bar.time,
+          value: position.curStopPrice!,
+        });
+      }
+    }
+
+    // Exit intrabar due to profit target.
+    this._takeProfit(position, bar);
+    if (this.openPositions.indexOf(position) < 0) {
+      return;
+    }
+
+    // The lot is held through the whole bar, record its excursions from the high and low.
+    // A lot exited in the bar is limited to its exit price instead.
+    const previousBestPrice = position.bestPrice;
+    this._recordExcursion(position, bar.low, bar.high);
+    position.barsSinceBestPrice = position.bestPrice !== previousBestPrice ? 0 : (position.barsSinceBestPrice || 0) + 1;
+
+    this._accrueBorrowFee(position, bar);
+    this._updatePosition(position, bar);
+
+    if (position.curRiskPct !== undefined && this.options.recordRisk) {
+      position.riskSeries!.push({
+        time: bar.time,
+        value: position.curRiskPct,
+      });
+    }
+
+    this._syncExitOrders(position);
+  }
+
+  /**
+   * Close all or part of a lot at the profit targets the bar reaches.
+   *
+   * @param position The lot to close.
+   * @param bar The current bar.
+   * @param tradeDetails Additional details to record on the trades.
+   */
+  private _takeProfit(position: IPosition<StateT>, bar: InputBarT, tradeDetails: Partial<ITrade<StateT>> = {}): void {
+    if (position.profitTargets !== undefined) {
+      // Scale out at each level the bar reaches.
+      while (position.profitTargets.length > 0 && isProfitTargetReached(bar, position.direction, position.profitTargets[0].price)) {
+        const level = position.profitTargets.shift()!;
+        this._closeAtLevel(position, bar, level.price, "profit-target", level.fraction, tradeDetails);
+        if (this.openPositions.indexOf(position) < 0) {
+          return;
+        }
+        position.profitTarget = position.profitTargets.length > 0 ? position.profitTargets[0].price : undefined;
+      }
+    } else if (position.profitTarget !== undefined && isProfitTargetReached(bar, position.direction, position.profitTarget)) {
+      this._closeAtLevel(position, bar, position.profitTarget, "profit-target", undefined, tradeDetails);
+    }
+  }
+
+  /**
+   * Close all or part of a lot when the price reaches a stop loss or profit target.
+   * When the bar opens beyond the level, the price has gapped through it and the exit fills at the open.
+   *
+   * @param position The lot to close.
+   * @param bar The current bar.
+   * @param level The stop or profit target price.
+   * @param exitReason Either "stop-loss" or "profit-target".
+   * @param fraction The proportion of the lot (as entered) to close, defaults to all that is still held.
+   * @param tradeDetails Additional details to record on the trade.
+   */
+  private _closeAtLevel(
+    position: IPosition<StateT>,
+    bar: InputBarT,
+    level: number,
+    exitReason: "stop-loss" | "profit-target",
+    fraction?: number,
+    tradeDetails: Partial<ITrade<StateT>> = {}
+  ): void {
+    const workingOrders = this._exitOrders.get(position);
+    if (workingOrders !== undefined) {
+      // The broker fills the working order itself, it isn't cancelled.
+      if (exitReason === "stop-loss") {
+        workingOrders.stop = undefined;
+      } else {
+        workingOrders.targets.shift();
+      }
+    }
+
+    const isLong = position.direction === TradeDirection.Long;
+    // Long stops and short profit targets are reached by the price falling.
+    const isFalling = (exitReason === "stop-loss") === isLong;
+    const isGap = isFalling ? bar.open < level : bar.open > level;
+    this._closePosition(
+      position,
+      bar,
+      isGap ? bar.open : level,
+      exitReason,
+      fraction,
+      isGap ? { ...tradeDetails, gapFill: true } : tradeDetails
+    );
+  }
+
+  /**
+   * Create a lot that is entered in the current bar, with its stops and profit targets.
+   *
+   * @param bar The bar in which the lot is entered.
+   * @param intendedEntryPrice The price the entry is intended to fill at before slippage.
+   */
+  private _newLot(bar: IndicatorBarT, intendedEntryPrice: number): IPosition<StateT> {
+    const position: IPosition<StateT> = {
+      direction: this.positionDirection,
+      entryTime: bar.time,
+      entryPrice: intendedEntryPrice,
+      entryReason: this.entryReason,
+      tag: this.entryTag,
+      entryState: snapshotState(this.state),
+      growth: 1,
+      profit: 0,
+      profitPct: 0,
+      holdingPeriod: 0,
+      // Set the most favourable price recorded as this bar's top / bottom.
+      maxPriceRecorded: this.positionDirection === TradeDirection.Long
+        ? max(bar.open, bar.close)
+        : min(bar.open, bar.close),
+    };
+
+    if (this.strategy.stopLoss) {
+      const initialStopDistance = toStopDistance(computeStopLoss(this.strategy.stopLoss, {
+        entryPrice: position.entryPrice,
+        position: position,
+        bar: bar,
+        lookback: new DataFrame<number, InputBarT>(
+          this.lookbackBuffer.toArray()
+        ),
+        parameters: this.strategyParameters,
+        state: this.state,
+      }), position.direction, position.entryPrice);
+      position.initialStopPrice =
+        position.direction === TradeDirection.Long
+          ? position.entryPrice - initialStopDistance
+          : position.entryPrice + initialStopDistance;
+      position.curStopPrice = position.initialStopPrice;
+    }
+
+    if (this.strategy.trailingStopLoss) {
+      const trailingStopDistance = toStopDistance(computeStopLoss(this.strategy.trailingStopLoss, {
+        entryPrice: position.entryPrice,
+        position: position,
+        bar: bar,
+        lookback: new DataFrame<number, InputBarT>(
+          this.lookbackBuffer.toArray()
+        ),
+        parameters: this.strategyParameters,
+        state: this.state,
+      }), position.direction, position.entryPrice);
+
+      const trailingStopPrice =
+        position.direction === TradeDirection.Long
+          ? position.entryPrice - trailingStopDistance
+          : position.entryPrice + trailingStopDistance;
+
+      if (position.initialStopPrice === undefined) {
+        position.initialStopPrice = trailingStopPrice;
+      } else {
+        position.initialStopPrice =
+          position.direction === TradeDirection.Long
+            ? Math.max(position.initialStopPrice, trailingStopPrice)
+            : Math.min(position.initialStopPrice, trailingStopPrice);
+      }
+
+      position.curStopPrice = position.initialStopPrice;
+    }
+
+    if (position.curStopPrice !== undefined) {
+      position.initialUnitRisk =
+        position.direction === TradeDirection.Long
+          ? position.entryPrice - position.curStopPrice
+          : position.curStopPrice - position.entryPrice;
+      position.curRMultiple = 0;
+    }
+
+    if (this.strategy.profitTarget) {
+      const profitDistance = this.strategy.profitTarget({
+        entryPrice: position.entryPrice,
+        position: position,
+        bar: bar,
+        lookback: new DataFrame<number, InputBarT>(
+          this.lookbackBuffer.toArray()
+        ),
+        parameters: this.strategyParameters,
+        state: this.state,
+      });
+      if (Array.isArray(profitDistance)) {
+        position.profitTargets = profitDistance
+          .slice()
+          .sort((a, b) => a.distance - b.distance)
+          .map(level => ({
+            price: position.direction === TradeDirection.Long
+              ? position.entryPrice + level.distance
+              : position.entryPrice - level.distance,
+            fraction: level.fraction,
+          }));
+        if (position.profitTargets.length > 0) {
+          position.profitTarget = position.profitTargets[0].price;
+        }
+      } else {
+        position.profitTarget =
+          position.direction === TradeDirection.Long
+            ? position.entryPrice + profitDistance
+            : position.entryPrice - profitDistance;
+      }
+    }
+
+    return position;
+  }
+
+  /**
+   * The number of units to trade for a lot, before the account's limits are applied.
+   *
+   * @param position The lot being entered.
+   * @param bar The bar in which the lot is entered.
+   */
+  private _sizeLot(position: IPosition<StateT>, bar: IndicatorBarT): number {
+    let positionSize = this.strategy.positionSize;
+    let equity = this.account!.equity;
+    if (positionSize === undefined) {
+      // By default the lot invests the equity that isn't already invested in the lots held.
+      positionSize = { type: "fixed-fractional", percent: 100 };
+      equity -= Math.abs(this.marketValue);
+    }
+    return computePositionSize(positionSize, {
+      entryPrice: position.entryPrice,
+      position: position,
+      bar: bar,
+      lookback: new DataFrame<number, InputBarT>(
+        this.lookbackBuffer.toArray()
+      ),
+      parameters: this.strategyParameters,
+      state: this.state,
+      equity: equity,
+      cash: this.account!.cash,
+    });
+  }
+
+  /**
+   * Reduce the quantity of a new lot to fit within the account's limits.
+   * The lot is limited at the price it fills at after slippage, and when limited to cash
+   * room is left for the commission on the entry.
+   *
+   * @param position The new lot.
+   * @param bar The bar in which the lot is entered.
+   * @param intendedEntryPrice The price the entry is intended to fill at before slippage.
+   * @param quantity The number of units requested.
+   */
+  private _limitQuantity(position: IPosition<StateT>, bar: IBar, intendedEntryPrice: number, quantity: number): number {
+    const account = this.account!;
+    const isLong = position.direction === TradeDirection.Long;
+    const entryPrice = this._fillPrice(bar, position.direction, "entry", intendedEntryPrice, this.entryReason, quantity);
+    quantity = account.limitQuantity(quantity, entryPrice, isLong, this.symbol, Math.abs(this.marketValue));
+
+    if (this.options.commission && account.limits.limitToCash && isLong && quantity > 0) {
+      const entryCommission = computeCommission(this.options.commission, {
+        direction: position.direction,
+        side: "entry",
+        price: entryPrice,
+        quantity: quantity,
+      });
+      quantity = Math.min(quantity, Math.max(account.cash - entryCommission, 0) / entryPrice);
+    }
+
+    return quantity;
+  }
+
+  /**
+   * Open a new position in the current bar.
+   *
+   * Stops and profit targets are computed from the intended entry price and then
+   * moved with the fill, so their distance from the entry price is preserved under slippage.
+   *
+   * @param bar The bar in which the position is entered.
+   * @param intendedEntryPrice The price the entry is intended to fill at before slippage.
+   * @param order The order that was filled.
+   */
+  private _openNewPosition(bar: IndicatorBarT, intendedEntryPrice: number, order?: IEntryOrder): void {
+    const position = this._newLot(bar, intendedEntryPrice);
+
+    if (this.account) {
+      if (this.openPositions.length === 0 && !this.account.canOpenPosition()) {
+        // No room in the account for another position, abandon the entry.
+        this.positionStatus = PositionStatus.None;
+        if (order) {
+          this._orderCancelled(order, "account-limit");
+        }
+        return;
+      }
+
+      const quantity = this._sizeLot(position, bar);
+      position.quantity = this._limitQuantity(position, bar, intendedEntryPrice, quantity);
+
+      if (!(position.quantity > 0)) {
+        // Nothing to trade, abandon the entry.
+        if (this.openPositions.length === 0) {
+          this.positionStatus = PositionStatus.None;
+        }
+        if (order) {
+          this._orderCancelled(order, quantity > 0 ? "account-limit" : "zero-quantity");
+        }
+        return;
+      }
+    }
+
+    position.positionId = this.openPosition ? this.openPosition.positionId : this._nextPositionId++;
+
+    const entryPrice = this._fillPrice(
+      bar,
+      position.direction,
+      "entry",
+      intendedEntryPrice,
+      this.entryReason,
+      this._quantity(position)
+    );
+
+    if (this.options.slippage) {
+      const slippage = entryPrice - intendedEntryPrice;
+      position.intendedEntryPrice = intendedEntryPrice;
+      position.entryPrice = entryPrice;
+      if (position.initialStopPrice !== undefined) {
+        position.initialStopPrice += slippage;
+        position.curStopPrice = position.initialStopPrice;
+      }
+      if (position.profitTarget !== undefined) {
+        position.profitTarget += slippage;
+      }
+      if (position.profitTargets !== undefined) {
+        for (const level of position.profitTargets) {
+          level.price += slippage;
+        }
+      }
+    }
+
+    if (position.initialUnitRisk !== undefined) {
+      position.initialRiskPct = (position.initialUnitRisk / entryPrice) * 100;
+      position.curRiskPct = position.initialRiskPct;
+
+      if (this.options.recordRisk) {
+        position.riskSeries = [
+          {
+            time: bar.time,
+            value: position.curRiskPct,
+          },
+        ];
+      }
+    }
+
+    if (this.strategy.trailingStopLoss && this.options.recordStopPrice) {
+      position.stopPriceSeries = [
+        {
+          time: bar.time,
+          value: position.curStopPrice!,
+        },
+      ];
+    }
+
+    if (this.options.commission) {
+      position.entryCommission = computeCommission(this.options.commission, {
+        direction: position.direction,
+        side: "entry",
+        price: entryPrice,
+        quantity: this._quantity(position),
+      });
+    }
+
+    if (this.account) {
+      this.account.cash -= this._marketValue(position, entryPrice) + (position.entryCommission || 0);
+    }
+
+    // Excursions are measured from the fill.
+    position.worstPrice = entryPrice;
+    position.bestPrice = entryPrice;
+    if (intendedEntryPrice === bar.open) {
+      // Filled at the open, the lot is held through the whole entry bar.
+      this._recordExcursion(position, bar.low, bar.high);
+    }
+
+    this.openPositions.push(position);
+    this._syncExitOrders(position);
+
+    this.emit("enterPosition", {
+      price: entryPrice,
+      bar,
+      position: position,
+      message: "enter",
+    });
+    this.positionStatus = PositionStatus.Position;
+
+    if (this.strategy.onEnter) {
+      this.strategy.onEnter({
+        bar: bar,
+        position: position,
+        ...this._hookArgs(),
+      });
+    }
+  }
+
+  /**
+   * Complete the position, adding the last trade if necessary
+   * @param lastBar
+   */
+  public complete(lastBar: IndicatorBarT, message = "finalize") {
+    const heldPositions = this.openPositions.slice();
+    for (const position of heldPositions) {
+      this._emitExitOrder("place-exit-order", {
+        positionId: position.positionId,
+        direction: position.direction,
+        orderType: "market",
+        timing: "signal-close",
+        quantity: this._quantity(position) * this._heldFraction(position),
+        reason: message,
+      });
+
+      const exitPrice = this._fillPrice(
+        lastBar,
+        position.direction,
+        "exit",
+        lastBar.close,
+        message,
+        this._quantity(position) * this._heldFraction(position)
+      );
+      const lastTrade = this.finalizePosition(
+        position,
+        lastBar.time,
+        exitPrice,
+        message,
+        lastBar.close
+      );
+      this._settlePosition(position, lastTrade);
+
+      this.emit("exitPosition", {
+        price: exitPrice,
+        bar: lastBar,
+        position: position,
+        message,
+      });
+
+      this.completedTrades.push(lastTrade);
+      this._invokeExitHooks(position, lastBar, lastTrade);
+    }
+
+    this.openPositions = [];
+    for (const position of heldPositions) {
+      this._syncExitOrders(position);
+    }
+    this._cancelPendingEntry("complete");
+    this._pendingExits = [];
+    this.positionStatus = PositionStatus.None;
+
+    this.emit("complete", this.completedTrades);
+
+    if (this.strategy.onComplete) {
+      this.strategy.onComplete({
+        trades: this.completedTrades,
+        ...this._hookArgs(),
+      });
+    }
+  }
+
+  /**
+   * User calls this function to enter a position on the instrument.
+   *
+   * @param options
+   */
+  private _enterPosition = (options?: IEnterPositionOptions) => {
+    if (this._pendingEntry !== undefined) {
+      return; // An order is already pending, it must be cancelled before it can be replaced.
+    }
+
+    const direction = (options && options.direction) || TradeDirection.Long;
+    const orderType = (options && options.orderType) || "market";
+    const order: IEntryOrder = {
+      direction: direction,
+      orderType: orderType,
+      entryPrice: options && options.entryPrice,
+      limitPrice: options && options.limitPrice,
+      stopPrice: options && options.stopPrice,
+      goodForBars: options && options.goodForBars,
+      goodUntil: options && options.goodUntil,
+      barsPending: 0,
+      reason: (options && options.reason) || this.entryReason,
+      tag: options && options.tag,
+    };
+
+    assert(
+      order.entryPrice === undefined || orderType === "market" || orderType === "market-on-open",
+      "The 'entryPrice' option only applies to market orders, use 'limitPrice' or 'stopPrice' for other orders."
+    );
+    assert(
+      order.limitPrice !== undefined || (orderType !== "limit" && orderType !== "stop-limit"),
+      `Expected the 'limitPrice' option to be set for a "${orderType}" order.`
+    );
+    assert(
+      order.stopPrice !== undefined || (orderType !== "stop" && orderType !== "stop-limit"),
+      `Expected the 'stopPrice' option to be set for a "${orderType}" order.`
+    );
+
+    if (this.positionStatus === PositionStatus.Position) {
+      assert(
+        this.openPositions.length < this._maxUnits,
+        "Can only add to a position when the strategy's 'maxUnits' allows another lot."
+      );
+      assert(
+        direction === this.openPosition!.direction,
+        "Can only add to a position in the same direction."
+      );
+      // Add a lot when the order is filled.
+    } else {
+      assert(
+        this.positionStatus === PositionStatus.None,
+        "Can only enter a position when not already in one."
+      );
+      this.positionStatus = PositionStatus.Enter; // Enter position when the order is filled.
+    }
+
+    this._pendingEntry = order;
+    this.positionDirection = direction;
+    this.conditionalEntryPrice = order.entryPrice;
+    this.entryReason = order.reason;
+    this.entryTag = order.tag;
+
+    this.emit("orderIntent", {
+      type: "place-order",
+      time: this.lookbackBuffer.last().time,
+      symbol: this.symbol,
+      direction: order.direction,
+      order: order,
+      quantity: this._estimateQuantity(order),
+      timing: orderType === "market" ? this._entryTiming : undefined,
+    });
+
+    if (this.strategy.onOrderPlaced) {
+      this.strategy.onOrderPlaced({
+        bar: this.lookbackBuffer.last(),
+        order: order,
+        ...this._hookArgs(),
+      });
+    }
+
+    if (orderType === "market" && order.entryPrice === undefined && this._entryTiming === "signal-close"
+      && !(direction === TradeDirection.Short && this._isShortRestricted)) {
+      // Fill immediately at the close of the current bar.
+      const lastBar = this.lookbackBuffer.last();
+      this._pendingEntry = undefined;
+      this._openNewPosition(lastBar, lastBar.close, order);
+    }
+  };
+
+  /**
+   * User calls this function to cancel an entry order that hasn't been filled.
+   */
+  private _cancelEntry = () => {
+    this._cancelPendingEntry("cancelled");
+  };
+
+  /**
+   * User calls this function to exit a position on the instrument.
+   *
+   * @param options
+   */
+  private _exitPosition = (options?: IExitPositionOptions) => {
+    assert(
+      this.positionStatus === PositionStatus.Position,
+      "Can only exit a position when we are in a position."
+    );
+
+    const lots = (options && options.lots) || "all";
+    const fraction = options && options.fraction;
+    let quantity = options && options.quantity;
+    const exitReason = (options && options.reason) || "exit-rule";
+
+    assert(
+      fraction === undefined || quantity === undefined,
+      "Can only exit a position by fraction or by quantity, not both."
+    );
+    assert(
+      fraction === undefined || (fraction > 0 && fraction <= 1),
+      "Expected the fraction of the position to exit to be greater than 0 and no more than 1."
+    );
+    assert(
+      quantity === undefined || quantity > 0,
+      "Expected the quantity of the position to exit to be greater than 0."
+    );
+
+    let positions: IPosition<StateT>[];
+    if (quantity !== undefined) {
+      positions = lots === "lifo" ? this.openPositions.slice().reverse() : this.openPositions.slice();
+    } else if (lots === "fifo") {
+      positions = [ this.openPositions[0] ];
+    } else if (lots === "lifo") {
+      positions = [ this.openPositions[this.openPositions.length - 1] ];
+    } else {
+      positions = this.openPositions.slice();
+    }
+
+    // Closing the last lot sets the positionStatus to None, which exits on this current bar
+    for (const position of positions) {
+      let closeFraction: number | undefined;
+      if (quantity !== undefined) {
+        if (quantity <= 0) {
+          break;
+        }
+        const unitsHeld = this._quantity(position) * this._heldFraction(position);
+        const units = Math.min(quantity, unitsHeld);
+        quantity -= units;
+        closeFraction = units / this._quantity(position);
+      } else if (fraction !== undefined) {
+        closeFraction = fraction * this._heldFraction(position);
+      }
+
+      this._requestExit(position, exitReason, closeFraction);
+    }
+  };
+
+  /**
+   * Exit all or part of a lot at the time set by the 'fillTiming' option.
+   * By default the exit fills on the current bar, the last bar in the lookback buffer, at its close.
+   * The 'fillTiming' option can delay the exit to the next bar (which is how older versions worked).
+   *
+   * @param position The lot to exit.
+   * @param exitReason The reason for the exit.
+   * @param fraction The proportion of the lot (as entered) to close, defaults to all that is still held.
+   */
+  private _requestExit(position: IPosition<StateT>, exitReason: string, fraction?: number): void {
+    const heldFraction = this._heldFraction(position);
+    this._emitExitOrder("place-exit-order", {
+      positionId: position.positionId,
+      direction: position.direction,
+      orderType: "market",
+      timing: this._exitTiming,
+      quantity: this._quantity(position) * (fraction !== undefined ? Math.min(fraction, heldFraction) : heldFraction),
+      reason: exitReason,
+    });
+
+    if (this._exitTiming === "signal-close") {
+      const lastBar = this.lookbackBuffer.last();
+      this._closePosition(position, lastBar, lastBar.close, exitReason, fraction);
+    } else {
+      this._pendingExits.push({ position, fraction, reason: exitReason });
+    }
+  }
+
+  /**
+   * Close all or part of a lot of the open position.
+   *
+   * @param position The lot to close.
+   * @param bar
+   * @param intendedExitPrice
+   * @param exitReason
+   * @param fraction The proportion of the lot (as entered) to close, defaults to all that is still held.
+   * @param tradeDetails Additional details to record on the trade.
+   */
+  private _closePosition(
+    position: IPosition<StateT>,
+    bar: InputBarT,
+    intendedExitPrice: number,
+    exitReason: string,
+    fraction?: number,
+    tradeDetails: Partial<ITrade<StateT>> = {}
+  ) {
+    const heldFraction = this._heldFraction(position);
+    if (fraction === undefined || fraction >= heldFraction - 1e-9) {
+      fraction = heldFraction; // Close the remainder of the lot.
+    }
+
+    const exitPrice = this._fillPrice(
+      bar,
+      position.direction,
+      "exit",
+      intendedExitPrice,
+      exitReason,
+      this._quantity(position) * fraction
+    );
+
+    this.emit("exitPosition", {
+      price: exitPrice,
       bar,
-      position: this.openPosition!,
+      position: position,
       message: exitReason,
     });
 
     const trade = this.finalizePosition(
-      this.openPosition!,
+      position,
       bar.time,
       exitPrice,
-      exitReason
+      exitReason,
+      intendedExitPrice,
+      fraction
     );
+    Object.assign(trade, tradeDetails);
+    this._settlePosition(position, trade);
 
     this.completedTrades.push(trade!);
-    
-    // Reset to no open position;
-    this.openPosition = null;
-    this.positionStatus = PositionStatus.None;
-    const reason = trade.profit > 0 ? 'profit-target' : 'stop-loss';
-    this.strategy.onExistPosition && this.strategy.onExistPosition(bar, reason)
+
+    if (fraction < heldFraction) {
+      position.remainingFraction = heldFraction - fraction;
+    } else {
+      this.openPositions = this.openPositions.filter(openPosition => openPosition !== position);
+    }
+
+    this._syncExitOrders(position);
+
+    if (this.openPositions.length === 0) {
+      // Reset to no open position;
+      this._cancelPendingEntry("position-closed");
+      this.positionStatus = PositionStatus.None;
+      this._pendingExits = [];
+    }
+
+    this._invokeExitHooks(position, bar, trade);
+  }
+
+  /**
+   * Let the strategy know that all or part of a lot has been exited.
+   *
+   * @param position The lot that was exited.
+   * @param bar The bar in which the lot was exited.
+   * @param trade The trade that records the exit.
+   */
+  private _invokeExitHooks(position: IPosition<StateT>, bar: InputBarT, trade: ITrade<StateT>): void {
+    if (this.strategy.onExit) {
+      this.strategy.onExit({
+        bar: bar,
+        position: position,
+        trade: trade,
+        ...this._hookArgs(),
+      });
+    }
+
+    if (this.strategy.onExistPosition) {
+      this.strategy.onExistPosition(bar, trade.exitReason);
+    }
   }
 
   /**
@@ -538,54 +1744,352 @@ export class PositionManager<
    * @param position The position to close.
    * @param exitTime The timestamp for the bar when the position was exited.
    * @param exitPrice The price of the instrument when the position was exited.
+   * @param intendedExitPrice The price the exit was intended to fill at before slippage.
+   * @param fraction The proportion of the position (as entered) being closed, defaults to all that is still held.
    */
   public finalizePosition(
-    position: IPosition,
+    position: IPosition<StateT>,
     exitTime: number | string,
     exitPrice: number,
-    exitReason: string
-  ): ITrade {
+    exitReason: string,
+    intendedExitPrice?: number,
+    fraction?: number
+  ): ITrade<StateT> {
+    const exitFraction = fraction !== undefined ? fraction : this._heldFraction(position);
+    const quantity = this._quantity(position) * exitFraction;
+    let exitCommission: number | undefined;
+    if (this.options.commission) {
+      exitCommission = computeCommission(this.options.commission, {
+        direction: position.direction,
+        side: "exit",
+        price: exitPrice,
+        quantity: quantity,
+      });
+    }
+    // Entry commission is shared between the parts of a position that is closed in parts.
+    const entryCommission = position.entryCommission !== undefined
+      ? position.entryCommission * exitFraction
+      : undefined;
+    // Borrow fees and dividends accrued by the units that are held are shared between the parts that are closed.
+    const borrowFees = position.borrowFees !== undefined
+      ? position.borrowFees * exitFraction / this._heldFraction(position)
+      : undefined;
+    const dividends = position.dividends !== undefined
+      ? position.dividends * exitFraction / this._heldFraction(position)
+      : undefined;
+    const entryCost = (entryCommission || 0) + (borrowFees || 0) - (dividends || 0);
+    const exitCost = exitCommission || 0;
     const profit =
-      position.direction === TradeDirection.Long
+      (position.direction === TradeDirection.Long
         ? exitPrice - position.entryPrice
-        : position.entryPrice - exitPrice;
+        : position.entryPrice - exitPrice) - (entryCost + exitCost) / quantity;
     let rmultiple;
     if (position.initialUnitRisk !== undefined) {
       rmultiple = profit / position.initialUnitRisk;
     }
+    const growth =
+      position.direction === TradeDirection.Long
+        ? (exitPrice * quantity - exitCost) / (position.entryPrice * quantity + entryCost)
+        : (position.entryPrice * quantity - entryCost) / (exitPrice * quantity + exitCost);
+    const isPartial = exitFraction !== 1;
+    this._recordExcursion(position, exitPrice, exitPrice);
+    const isLong = position.direction === TradeDirection.Long;
+    let mae: number | undefined;
+    let mfe: number | undefined;
+    if (position.worstPrice !== undefined && position.bestPrice !== undefined) {
+      mae = isLong ? position.entryPrice - position.worstPrice : position.worstPrice - position.entryPrice;
+      mfe = isLong ? position.bestPrice - position.entryPrice : position.entryPrice - position.bestPrice;
+    }
     return {
+      symbol: this.symbol,
+      positionId: position.positionId,
       direction: position.direction,
       entryTime: position.entryTime,
       entryPrice: position.entryPrice,
+      intendedEntryPrice: position.intendedEntryPrice,
       exitTime: exitTime,
       exitPrice: exitPrice,
+      intendedExitPrice: this.options.slippage ? intendedExitPrice : undefined,
+      quantity: position.quantity !== undefined ? quantity : undefined,
+      exitFraction: isPartial ? exitFraction : undefined,
+      notional: position.quantity !== undefined ? position.entryPrice * quantity : undefined,
+      entryCommission: entryCommission,
+      exitCommission: exitCommission,
+      borrowFees: borrowFees,
+      hardToBorrow: position.hardToBorrow,
+      dividends: dividends,
       profit: profit,
+      pnl: position.quantity !== undefined ? profit * quantity : undefined,
       profitPct: (profit / position.entryPrice) * 100,
-      growth:
-        position.direction === TradeDirection.Long
-          ? exitPrice / position.entryPrice
-          : position.entryPrice / exitPrice,
+      growth: isPartial ? 1 + exitFraction * (growth - 1) : growth,
       riskPct: position.initialRiskPct,
-      riskSeries: position.riskSeries,
+      riskSeries: isPartial && position.riskSeries ? position.riskSeries.slice() : position.riskSeries,
       rmultiple: rmultiple,
       holdingPeriod: position.holdingPeriod,
       entryReason: position.entryReason,
+      tag: position.tag,
+      entryState: position.entryState,
+      exitState: snapshotState(this.state),
       exitReason: exitReason,
       stopPrice: position.initialStopPrice,
-      stopPriceSeries: position.stopPriceSeries,
+      stopPriceSeries: isPartial && position.stopPriceSeries ? position.stopPriceSeries.slice() : position.stopPriceSeries,
       profitTarget: position.profitTarget,
-      maxPriceRecorded: position.maxPriceRecorded
+      maxPriceRecorded: position.maxPriceRecorded,
+      mae: mae,
+      maePct: mae !== undefined ? (mae / position.entryPrice) * 100 : undefined,
+      maeR: mae !== undefined && position.initialUnitRisk !== undefined ? mae / position.initialUnitRisk : undefined,
+      mfe: mfe,
+      mfePct: mfe !== undefined ? (mfe / position.entryPrice) * 100 : undefined,
+      mfeR: mfe !== undefined && position.initialUnitRisk !== undefined ? mfe / position.initialUnitRisk : undefined,
     };
   }
 
+  /**
+   * Record the least and most favourable prices reached by a lot.
+   *
+   * @param position The lot.
+   * @param low The lowest price reached.
+   * @param high The highest price reached.
+   */
+  private _recordExcursion(position: IPosition<StateT>, low: number, high: number): void {
+    if (position.worstPrice === undefined || position.bestPrice === undefined) {
+      return; // Lot wasn't opened by the position manager.
+    }
+
+    if (position.direction === TradeDirection.Long) {
+      position.worstPrice = min(low, position.worstPrice);
+      position.bestPrice = max(high, position.bestPrice);
+    } else {
+      position.worstPrice = max(high, position.worstPrice);
+      position.bestPrice = min(low, position.bestPrice);
+    }
+  }
+
+  /**
+   * Determine the price an order fills at, applying slippage if enabled.
+   *
+   * @param bar The bar in which the order is filled.
+   * @param direction The direction of the position being entered or exited.
+   * @param side Whether the position is being entered or exited.
+   * @param price The price the order intends to fill at.
+   * @param reason The reason for the order.
+   * @param quantity The number of units in the order.
+   */
+  private _fillPrice(
+    bar: IBar,
+    direction: TradeDirection,
+    side: "entry" | "exit",
+    price: number,
+    reason: string,
+    quantity: number
+  ): number {
+    if (!this.options.slippage) {
+      return price;
+    }
+
+    return applySlippage(this.options.slippage, {
+      bar,
+      order: {
+        direction,
+        side,
+        price,
+        quantity,
+        reason,
+      },
+    });
+  }
+
+  /**
+   * The number of units held in a position, a single unit when not trading with capital.
+   */
+  private _quantity(position: IPosition<StateT>): number {
+    return position.quantity !== undefined ? position.quantity : 1;
+  }
+
+  /**
+   * The proportion of a position that is still held after partial exits.
+   */
+  private _heldFraction(position: IPosition<StateT>): number {
+    return position.remainingFraction !== undefined ? position.remainingFraction : 1;
+  }
+
+  /**
+   * The value of the part of a position that is held at a particular price.
+   * Short positions are a liability and have negative value.
+   */
+  private _marketValue(position: IPosition<StateT>, price: number, fraction = this._heldFraction(position)): number {
+    const value = this._quantity(position) * fraction * price;
+    return position.direction === TradeDirection.Long ? value : -value;
+  }
+
+  /**
+   * Return the proceeds of a closed position, or the closed part of it, to cash.
+   */
+  private _settlePosition(position: IPosition<StateT>, trade: ITrade<StateT>): void {
+    // Fees and dividends were paid as they accrued, they are now allocated to the trade.
+    if (position.borrowFees !== undefined && trade.borrowFees !== undefined) {
+      position.borrowFees -= trade.borrowFees;
+    }
+    if (position.dividends !== undefined && trade.dividends !== undefined) {
+      position.dividends -= trade.dividends;
+    }
+
+    if (this.account) {
+      const fraction = trade.exitFraction !== undefined ? trade.exitFraction : 1;
+      this.account.cash += this._marketValue(position, trade.exitPrice, fraction) - (trade.exitCommission || 0);
+    }
+  }
+
+  /**
+   * Determine whether short positions can be entered in a new bar.
+   *
+   * @param bar The current bar.
+   */
+  private _updateShortSaleRestriction(bar: IndicatorBarT): void {
+    const restriction = this.strategy.shortSelling && this.strategy.shortSelling.restriction;
+    if (restriction === undefined) {
+      this._isShortRestricted = false;
+    } else if (isFunction(restriction)) {
+      this._isShortRestricted = restriction({
+        bar: bar,
+        lookback: new DataFrame<number, IndicatorBarT>(
+          this.lookbackBuffer.toArray()
+        ),
+        parameters: this.strategyParameters,
+        state: this.state,
+      });
+    } else if (restriction.type === "alternative-uptick") {
+      // The restriction lasts for the bar that triggers it and the next bar.
+      const isTriggered = this._previousBar !== undefined
+        && isAlternativeUptickTriggered(restriction, bar, this._previousBar.close);
+      this._isShortRestricted = isTriggered || this._uptickRuleTriggered;
+      this._uptickRuleTriggered = isTriggered;
+    } else {
+      const unknownRestrictionType: never = restriction.type;
+      throw new Error(`Unexpected "type" field of short sale restriction. Expected "alternative-uptick", Actual: "${unknownRestrictionType as string}".`);
+    }
+
+    this._previousBar = bar;
+  }
+
+  /**
+   * Apply the dividend and split of a new bar to the lots held into the bar, the pending entry order
+   * and the bars in the lookback.
+   *
+   * @param bar The current bar.
+   */
+  private _applyCorporateActions(bar: IndicatorBarT): void {
+    if (bar.dividend !== undefined) {
+      for (const position of this.openPositions) {
+        const units = this._quantity(position) * this._heldFraction(position);
+        const dividend = position.direction === TradeDirection.Long
+          ? bar.dividend * units
+          : -bar.dividend * units;
+        position.dividends = (position.dividends || 0) + dividend;
+        if (this.account) {
+          this.account.cash += dividend;
+        }
+      }
+    }
+
+    if (bar.splitRatio !== undefined) {
+      if (!(bar.splitRatio > 0)) {
+        throw new Error(`Expected 'splitRatio' field of bar to be a positive number, Actual: ${bar.splitRatio}.`);
+      }
+
+      const ratio = bar.splitRatio;
+      const adjust = (price: number | undefined) => price !== undefined ? price / ratio : undefined;
+      for (const position of this.openPositions) {
+        position.entryPrice /= ratio;
+        position.intendedEntryPrice = adjust(position.intendedEntryPrice);
+        position.initialUnitRisk = adjust(position.initialUnitRisk);
+        position.initialStopPrice = adjust(position.initialStopPrice);
+        position.curStopPrice = adjust(position.curStopPrice);
+        position.profitTarget = adjust(position.profitTarget);
+        if (position.profitTargets !== undefined) {
+          for (const level of position.profitTargets) {
+            level.price /= ratio;
+          }
+        }
+        position.maxPriceRecorded /= ratio;
+        position.worstPrice = adjust(position.worstPrice);
+        position.bestPrice = adjust(position.bestPrice);
+        if (position.quantity !== undefined) {
+          position.quantity *= ratio;
+        }
+      }
+
+      if (this._pendingEntry !== undefined) {
+        this._pendingEntry.entryPrice = adjust(this._pendingEntry.entryPrice);
+        this._pendingEntry.limitPrice = adjust(this._pendingEntry.limitPrice);
+        this._pendingEntry.stopPrice = adjust(this._pendingEntry.stopPrice);
+        this.conditionalEntryPrice = this._pendingEntry.entryPrice;
+      }
+
+      // Stops computed from the lookback see the bars before the split at the new price level.
+      // The bars are copied so the input data series isn't changed, indicator fields aren't adjusted.
+      for (let i = 0; i < this.lookbackBuffer.length - 1; ++i) {
+        this.lookbackBuffer.set(i, splitAdjustBar(this.lookbackBuffer.get(i), ratio));
+      }
+
+      // So the short sale restriction doesn't see the split as a decline from the previous close.
+      if (this._previousBar !== undefined) {
+        this._previousBar = splitAdjustBar(this._previousBar, ratio);
+      }
+    }
+  }
+
+  /**
+   * Charge the fee for holding a short lot through a bar.
+   *
+   * @param position The lot held through the bar.
+   * @param bar The current bar.
+   */
+  private _accrueBorrowFee(position: IPosition<StateT>, bar: IndicatorBarT): void {
+    const shortSelling = this.strategy.shortSelling;
+    if (position.direction !== TradeDirection.Short || shortSelling === undefined) {
+      return;
+    }
+
+    const hardToBorrow = shortSelling.isHardToBorrow !== undefined && shortSelling.isHardToBorrow({
+      bar: bar,
+      lookback: new DataFrame<number, IndicatorBarT>(
+        this.lookbackBuffer.toArray()
+      ),
+      parameters: this.strategyParameters,
+      state: this.state,
+    });
+    if (hardToBorrow) {
+      position.hardToBorrow = true;
+    }
+
+    if (shortSelling.borrowRatePct === undefined && shortSelling.hardToBorrowRatePct === undefined) {
+      return; // No fees.
+    }
+
+    const borrowFee = computeBorrowFee(
+      shortSelling,
+      bar.close,
+      this._quantity(position) * this._heldFraction(position),
+      hardToBorrow
+    );
+    position.borrowFees = (position.borrowFees || 0) + borrowFee;
+    if (this.account) {
+      this.account.cash -= borrowFee;
+    }
+  }
+
   /**
    * Update an open position for a new bar.
    *
    * @param position The position to update.
    * @param bar The current bar.
    */
-  private _updatePosition(position: IPosition, bar: IBar): void {
-    position.profit = bar.close - position.entryPrice;
+  private _updatePosition(position: IPosition<StateT>, bar: IBar): void {
+    position.profit =
+      position.direction === TradeDirection.Long
+        ? bar.close - position.entryPrice
+        : position.entryPrice - bar.close;
     position.profitPct = (position.profit / position.entryPrice) * 100;
     position.growth =
       position.direction === TradeDirection.Long
@@ -600,7 +2104,5 @@ export class PositionManager<
       position.curRMultiple = position.profit / unitRisk;
     }
     position.holdingPeriod += 1;
-
-    this.openPosition = position;
   }
 }
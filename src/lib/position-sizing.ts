@@ -0,0 +1,176 @@
+import { std } from "mathjs";
+import { IBar } from "./bar";
+import { IOpenPositionRuleArgs } from "./strategy";
+import { isFunction } from "./utils";
+
+/**
+ * Arguments to a position sizing function.
+ */
+export interface IPositionSizeArgs<BarT extends IBar, ParametersT, StateT = any> extends IOpenPositionRuleArgs<BarT, ParametersT, StateT> {
+    /**
+     * Total equity (cash plus the value of open positions) when the position is entered.
+     */
+    equity: number;
+
+    /**
+     * Cash available when the position is entered.
+     */
+    cash: number;
+}
+
+/**
+ * A custom function that computes the number of units to trade.
+ */
+export type PositionSizeFn<BarT extends IBar, ParametersT = any, StateT = any> = (args: IPositionSizeArgs<BarT, ParametersT, StateT>) => number;
+
+/**
+ * Trades a fixed number of units.
+ */
+export interface IFixedUnitsSize {
+    type: "fixed-units";
+
+    /**
+     * The number of units to trade.
+     */
+    units: number;
+}
+
+/**
+ * Invests a fixed percentage of equity in each position.
+ */
+export interface IFixedFractionalSize {
+    type: "fixed-fractional";
+
+    /**
+     * The percentage of equity to invest, eg 50 invests half of equity.
+     */
+    percent: number;
+}
+
+/**
+ * Risks a fixed percentage of equity on each position.
+ * The risk per unit is the distance from the entry price to the initial stop loss,
+ * so this requires the strategy to set a stop loss.
+ */
+export interface IFixedRiskSize {
+    type: "fixed-risk";
+
+    /**
+     * The percentage of equity to lose if the position is stopped out, eg 1 risks 1% of equity.
+     */
+    riskPercent: number;
+}
+
+/**
+ * Sizes positions so that their volatility is a fixed percentage of equity.
+ * Volatility is the standard deviation of bar to bar returns in the lookback period.
+ */
+export interface IVolatilityTargetSize {
+    type: "volatility-target";
+
+    /**
+     * The target volatility of the position as a percentage of equity.
+     */
+    targetPercent: number;
+}
+
+/**
+ * Invests the percentage of equity given by the Kelly criterion.
+ */
+export interface IKellySize {
+    type: "kelly";
+
+    /**
+     * The proportion of trades that are expected to win, in the range 0-1.
+     */
+    winRate: number;
+
+    /**
+     * The ratio of the average win to the average loss.
+     */
+    payoffRatio: number;
+
+    /**
+     * The fraction of the full Kelly percentage to invest, eg 0.5 for "half Kelly".
+     * Defaults to 1.
+     */
+    fraction?: number;
+}
+
+/**
+ * Defines how many units to trade when entering a position.
+ */
+export type PositionSizeModel<BarT extends IBar, ParametersT = any, StateT = any> =
+    | PositionSizeFn<BarT, ParametersT, StateT>
+    | IFixedUnitsSize
+    | IFixedFractionalSize
+    | IFixedRiskSize
+    | IVolatilityTargetSize
+    | IKellySize;
+
+//
+// Computes the standard deviation of bar to bar returns in the lookback period.
+//
+function computeVolatility(lookback: IBar[]): number {
+    if (lookback.length < 3) {
+        throw new Error("Expected a lookback period of at least 3 bars to size a position by volatility.");
+    }
+
+    const returns: number[] = [];
+    for (let i = 1; i < lookback.length; ++i) {
+        returns.push(lookback[i].close / lookback[i - 1].close - 1);
+    }
+
+    return std(returns, "unbiased") as number;
+}
+
+/**
+ * Compute the number of units to trade when entering a position.
+ * A size of zero or less means the position is not entered.
+ *
+ * @param model The position sizing model to apply.
+ * @param args Describes the position being entered and the state of the account.
+ */
+export function computePositionSize<BarT extends IBar, ParametersT, StateT>(
+    model: PositionSizeModel<BarT, ParametersT, StateT>,
+    args: IPositionSizeArgs<BarT, ParametersT, StateT>
+): number {
+    if (isFunction(model)) {
+        return model(args);
+    }
+
+    switch (model.type) {
+        case "fixed-units":
+            return model.units;
+
+        case "fixed-fractional":
+            return (args.equity * (model.percent / 100)) / args.entryPrice;
+
+        case "fixed-risk": {
+            const unitRisk = args.position.initialUnitRisk;
+            if (unitRisk === undefined || unitRisk <= 0) {
+                throw new Error("Expected the strategy to set a stop loss when using 'fixed-risk' position sizing.");
+            }
+            return (args.equity * (model.riskPercent / 100)) / unitRisk;
+        }
+
+        case "volatility-target": {
+            const volatility = computeVolatility(args.lookback.toArray());
+            if (volatility <= 0) {
+                return 0; // Can't size for volatility when the price hasn't moved.
+            }
+            return (args.equity * (model.targetPercent / 100)) / (args.entryPrice * volatility);
+        }
+
+        case "kelly": {
+            const kellyPct = model.winRate - (1 - model.winRate) / model.payoffRatio;
+            const fraction = model.fraction !== undefined ? model.fraction : 1;
+            return (args.equity * kellyPct * fraction) / args.entryPrice;
+        }
+
+        default: {
+            const unknownModel: never = model;
+            throw new Error(`Unexpected "type" field of position size model. Expected "fixed-units", "fixed-fractional", "fixed-risk", "volatility-target" or "kelly", Actual: "${(unknownModel as { type: string }).type}".`);
+        }
+    }
+}
@@ -1,10 +1,31 @@
 import { TradeDirection } from "./strategy";
 import { ITimestampedValue } from "./trade";
 
+/**
+ * A price at which to close part of a position.
+ */
+export interface IProfitTarget {
+    /**
+     * Price where the exit is triggered.
+     */
+    price: number;
+
+    /**
+     * The proportion of the position to close.
+     */
+    fraction: number;
+}
+
 /**
  * Interface that defines an open position.
+ * 'StateT' is the type of the strategy's state (see 'IStrategy.state').
  */
-export interface IPosition {
+export interface IPosition<StateT = unknown> {
+
+    /**
+     * Identifies the position, lots that are added to a position share its id.
+     */
+    positionId?: number;
 
     /**
      * The direction of the position.
@@ -22,11 +43,58 @@ export interface IPosition {
      */
     entryPrice: number;
 
+    /**
+     * The price the entry was intended to fill at before slippage (if a slippage model is applied).
+     */
+    intendedEntryPrice?: number;
+
     /**
      * The reason why we entered, defaults to 'entry-rule'
      */
     entryReason?: string;
 
+    /**
+     * Tag the strategy gave the entry.
+     */
+    tag?: string;
+
+    /**
+     * Snapshot of the strategy's state when the position was entered (when the strategy defines state).
+     */
+    entryState?: StateT;
+
+    /**
+     * The number of units bought or sold when the position was entered (if trading with capital).
+     */
+    quantity?: number;
+
+    /**
+     * The proportion of the position that is still held after partial exits.
+     * Undefined when none of the position has been closed.
+     */
+    remainingFraction?: number;
+
+    /**
+     * Commission charged when the position was entered (if a commission model is applied).
+     */
+    entryCommission?: number;
+
+    /**
+     * Borrow fees accrued by a short position and not yet allocated to a trade (when a borrow rate is set).
+     */
+    borrowFees?: number;
+
+    /**
+     * Set when a short position has been held while the instrument was hard to borrow.
+     */
+    hardToBorrow?: boolean;
+
+    /**
+     * Dividends received by a long position (positive) or paid by a short position (negative)
+     * and not yet allocated to a trade.
+     */
+    dividends?: number;
+
     /**
      * Net profit or loss.
      */
@@ -89,11 +157,33 @@ export interface IPosition {
 
     /*
      * Profit target where exit is triggered (intrabar).
+     * When scaling out this is the nearest of the levels that haven't been reached.
      */
     profitTarget?: number;
 
     /**
-     * Highest price recorded while in an entry
+     * Profit target levels that haven't been reached yet, nearest first (when the strategy scales out).
+     */
+    profitTargets?: IProfitTarget[];
+
+    /**
+     * Most favourable price recorded from the body of bars while in an entry,
+     * the highest price for a long position and the lowest price for a short position.
      */
     maxPriceRecorded: number;
+
+    /**
+     * Least favourable price reached since entry, from the highs and lows of bars.
+     */
+    worstPrice?: number;
+
+    /**
+     * Most favourable price reached since entry, from the highs and lows of bars.
+     */
+    bestPrice?: number;
+
+    /**
+     * The number of bars since the most favourable price was last exceeded (a new high for a long position).
+     */
+    barsSinceBestPrice?: number;
 }
\ No newline at end of file
@@ -0,0 +1,354 @@
+import * as dayjs from "dayjs";
+import * as timezonePlugin from "dayjs/plugin/timezone";
+import * as utcPlugin from "dayjs/plugin/utc";
+import { computeReturns, IRiskMetricsOptions, resolveRiskMetricsOptions } from "./risk-metrics";
+import { ITimestampedValue } from "./trade";
+import { isArray, isNumber, isString } from "./utils";
+
+dayjs.extend(utcPlugin);
+dayjs.extend(timezonePlugin);
+
+/**
+ * A calendar period to bucket equity by.
+ */
+export type ReturnPeriod = "daily" | "weekly" | "monthly" | "quarterly" | "yearly";
+
+/**
+ * Options for bucketing equity by calendar period.
+ */
+export interface IReturnsOptions {
+    /**
+     * IANA timezone that calendar periods are measured in, eg "America/New_York".
+     * Defaults to "UTC".
+     */
+    timezone?: string;
+}
+
+/**
+ * The return over a calendar period.
+ */
+export interface IPeriodReturn {
+    /**
+     * Label of the period, eg "2018-10-22" for a day or the Monday that starts a week,
+     * "2018-10" for a month, "2018-Q4" for a quarter or "2018" for a year.
+     */
+    period: string;
+
+    /**
+     * Time of the first value in the period.
+     */
+    startTime: number | string;
+
+    /**
+     * Time of the last value in the period.
+     */
+    endTime: number | string;
+
+    /**
+     * Equity at the end of the previous period, or the first value of the equity curve for the first period.
+     */
+    startValue: number;
+
+    /**
+     * Equity at the end of the period.
+     */
+    endValue: number;
+
+    /**
+     * Return over the period as a percentage.
+     */
+    returnPct: number;
+}
+
+/**
+ * A year of monthly returns.
+ */
+export interface IMonthlyReturnsRow {
+    /**
+     * The calendar year.
+     */
+    year: number;
+
+    /**
+     * Return of each month as a percentage, January first.
+     * Undefined for months without equity.
+     */
+    months: (number | undefined)[];
+
+    /**
+     * Return over the year as a percentage.
+     */
+    yearPct: number;
+}
+
+/**
+ * Metrics over a rolling window of the equity curve.
+ */
+export interface IRollingMetrics {
+    /**
+     * Time at the end of the window.
+     */
+    time: number | string;
+
+    /**
+     * Annualized Sharpe ratio of the returns in the window.
+     * Undefined when returns don't vary.
+     */
+    sharpeRatio: number | undefined;
+
+    /**
+     * Percentage of bars in the window with a positive return.
+     * This is a win rate per bar, not per trade, a trade that is held for several bars counts once for each bar.
+     */
+    winRatePct: number;
+
+    /**
+     * Maximum drawdown within the window as a percentage of the peak, a negative amount.
+     */
+    maxDrawdownPct: number;
+}
+
+/**
+ * Get the calendar date of a time in a timezone, as a UTC date that can be safely manipulated.
+ *
+ * @param time The time.
+ * @param timezone IANA timezone of the calendar.
+ */
+export function calendarDate(time: number | string, timezone: string): dayjs.Dayjs {
+    const local = dayjs(time).tz(timezone);
+    return dayjs.utc(Date.UTC(local.year(), local.month(), local.date()));
+}
+
+//
+// Labels the calendar period that a time falls in.
+//
+function periodLabel(time: number | string, period: ReturnPeriod, timezone: string): string {
+    const date = calendarDate(time, timezone);
+
+    switch (period) {
+        case "daily":
+            return date.format("YYYY-MM-DD");
+
+        case "weekly":
+            // Weeks start on Monday.
+            return date.subtract((date.day() + 6) % 7, "day").format("YYYY-MM-DD");
+
+        case "monthly":
+            return date.format("YYYY-MM");
+
+        case "quarterly":
+            return `${date.year()}-Q${Math.floor(date.month() / 3) + 1}`;
+
+        case "yearly":
+            return date.format("YYYY");
+
+        default:
+            throw new Error(`Unexpected return period. Expected "daily", "weekly", "monthly", "quarterly" or "yearly", Actual: "${period}".`);
+    }
+}
+
+/**
+ * Bucket an equity curve by calendar period and compute the return of each period.
+ * Each period is measured from the last value of the previous period to its own last value.
+ *
+ * @param equityCurve Equity in time order, such as the equity curve recorded by the backtest.
+ * @param period The calendar period to bucket equity by.
+ * @param options Options for bucketing equity.
+ */
+export function computePeriodReturns(equityCurve: ITimestampedValue[], period: ReturnPeriod, options?: IReturnsOptions): IPeriodReturn[] {
+
+    if (!isArray(equityCurve)) {
+        throw new Error("Expected 'equityCurve' argument to 'computePeriodReturns' to be an array that contains equity in time order.");
+    }
+
+    const timezone = options && options.timezone !== undefined ? options.timezone : "UTC";
+    if (!isString(timezone)) {
+        throw new Error("Expected 'timezone' option to 'computePeriodReturns' to be a string that specifies an IANA timezone.");
+    }
+
+    const periodReturns: IPeriodReturn[] = [];
+    let current: IPeriodReturn | undefined = undefined;
+
+    for (const point of equityCurve) {
+        const label = periodLabel(point.time, period, timezone);
+        if (current === undefined || current.period !== label) {
+            current = {
+                period: label,
+                startTime: point.time,
+                endTime: point.time,
+                startValue: current !== undefined ? current.endValue : point.value,
+                endValue: point.value,
+                returnPct: 0,
+            };
+            periodReturns.push(current);
+        }
+
+        current.endTime = point.time;
+        current.endValue = point.value;
+        current.returnPct = (current.endValue / current.startValue - 1) * 100;
+    }
+
+    return periodReturns;
+}
+
+/**
+ * Compute the month by year table of returns, with the return of each year.
+ *
+ * @param equityCurve Equity in time order, such as the equity curve recorded by the backtest.
+ * @param options Options for bucketing equity.
+ */
+export function computeMonthlyReturns(equityCurve: ITimestampedValue[], options?: IReturnsOptions): IMonthlyReturnsRow[] {
+
+    const rows: IMonthlyReturnsRow[] = [];
+    for (const monthReturn of computePeriodReturns(equityCurve, "monthly", options)) {
+        const year = Number(monthReturn.period.substring(0, 4));
+        const month = Number(monthReturn.period.substring(5, 7)) - 1;
+
+        let row = rows.length > 0 ? rows[rows.length - 1] : undefined;
+        if (row === undefined || row.year !== year) {
+            row = {
+                year,
+                months: new Array(12).fill(undefined),
+                yearPct: 0,
+            };
+            rows.push(row);
+        }
+
+        row.months[month] = monthReturn.returnPct;
+        row.yearPct = ((1 + row.yearPct / 100) * (1 + monthReturn.returnPct / 100) - 1) * 100;
+    }
+
+    return rows;
+}
+
+//
+// Summarises drawdown over a run of equity values.
+// Summaries of consecutive runs can be combined, so drawdown over a window can be found from the
+// summaries of the parts of the window.
+//
+interface IDrawdownSummary {
+    /**
+     * Highest value in the run.
+     */
+    peak: number;
+
+    /**
+     * Lowest value in the run.
+     */
+    trough: number;
+
+    /**
+     * Lowest ratio of a value to an earlier (or the same) value in the run.
+     */
+    worstRatio: number;
+}
+
+//
+// Combines the summaries of two consecutive runs of equity values.
+//
+function combineDrawdown(earlier: IDrawdownSummary, later: IDrawdownSummary): IDrawdownSummary {
+    return {
+        peak: Math.max(earlier.peak, later.peak),
+        trough: Math.min(earlier.trough, later.trough),
+        worstRatio: Math.min(earlier.worstRatio, later.worstRatio, later.trough / earlier.peak),
+    };
+}
+
+//
+// Computes the maximum drawdown of each window of values in a single pass.
+// Values are split into blocks the size of a window, so each window spans the end of one block
+// and the start of the next. Drawdown is summarised for the end and the start of each block and
+// the summaries are combined for each window.
+//
+function computeRollingMaxDrawdownPct(values: number[], windowLength: number): number[] {
+    const single = (value: number): IDrawdownSummary => ({ peak: value, trough: value, worstRatio: 1 });
+
+    // Summary from the start of the block to each value.
+    const blockStart: IDrawdownSummary[] = [];
+    for (let i = 0; i < values.length; ++i) {
+        blockStart.push(i % windowLength === 0 ? single(values[i]) : combineDrawdown(blockStart[i - 1], single(values[i])));
+    }
+
+    // Summary from each value to the end of the block.
+    const blockEnd: IDrawdownSummary[] = new Array(values.length);
+    for (let i = values.length - 1; i >= 0; --i) {
+        blockEnd[i] = (i + 1) % windowLength === 0 || i === values.length - 1
+            ? single(values[i])
+            : combineDrawdown(single(values[i]), blockEnd[i + 1]);
+    }
+
+    const maxDrawdownPct: number[] = [];
+    for (let end = windowLength - 1; end < values.length; ++end) {
+        const start = end - windowLength + 1;
+        const window = start % windowLength === 0
+            ? blockEnd[start] // The window is a whole block.
+            : combineDrawdown(blockEnd[start], blockStart[end]);
+        maxDrawdownPct.push((window.worstRatio - 1) * 100);
+    }
+    return maxDrawdownPct;
+}
+
+/**
+ * Compute metrics over a rolling window of bars.
+ * The first window ends at the bar 'windowSize' bars after the start of the equity curve.
+ * Metrics are updated as the window moves, rather than recomputed for each window.
+ *
+ * @param equityCurve Equity at each bar, as recorded by a backtest with 'recordEquityCurve' enabled.
+ * @param windowSize Number of bar returns in each window.
+ * @param options Options for annualizing the Sharpe ratio.
+ */
+export function computeRollingMetrics(equityCurve: ITimestampedValue[], windowSize: number, options?: IRiskMetricsOptions): IRollingMetrics[] {
+
+    if (!isArray(equityCurve)) {
+        throw new Error("Expected 'equityCurve' argument to 'computeRollingMetrics' to be an array that contains equity at each bar.");
+    }
+
+    if (!isNumber(windowSize) || windowSize < 1) {
+        throw new Error("Expected 'windowSize' argument to 'computeRollingMetrics' to be a positive number that specifies the number of bars in each window.");
+    }
+
+    const { barsPerYear, riskFreeRate } = resolveRiskMetricsOptions(options, "computeRollingMetrics");
+    const riskFreeReturn = Math.pow(1 + riskFreeRate, 1 / barsPerYear) - 1;
+
+    const equity = equityCurve.map(point => point.value);
+    const returns = computeReturns(equity);
+    const maxDrawdownPct = computeRollingMaxDrawdownPct(equity, windowSize + 1);
+
+    // Running totals of the returns in the window.
+    let sumReturns = 0;
+    let sumSquaredReturns = 0;
+    let numWinningBars = 0;
+
+    const rollingMetrics: IRollingMetrics[] = [];
+    for (let i = 0; i < returns.length; ++i) {
+        sumReturns += returns[i];
+        sumSquaredReturns += returns[i] ** 2;
+        numWinningBars += returns[i] > 0 ? 1 : 0;
+
+        if (i >= windowSize) {
+            // The oldest return has left the window.
+            const oldest = returns[i - windowSize];
+            sumReturns -= oldest;
+            sumSquaredReturns -= oldest ** 2;
+            numWinningBars -= oldest > 0 ? 1 : 0;
+        }
+
+        if (i < windowSize - 1) {
+            continue; // The first window isn't full yet.
+        }
+
+        const meanReturn = sumReturns / windowSize;
+        // Sample variance, differences smaller than rounding error are treated as returns that don't vary.
+        const variance = windowSize > 1 ? (sumSquaredReturns - windowSize * meanReturn ** 2) / (windowSize - 1) : 0;
+        const isVarying = variance > 1e-12 * (sumSquaredReturns / windowSize);
+
+        rollingMetrics.push({
+            time: equityCurve[i + 1].time,
+            sharpeRatio: isVarying ? (meanReturn - riskFreeReturn) / Math.sqrt(variance) * Math.sqrt(barsPerYear) : undefined,
+            winRatePct: (numWinningBars / windowSize) * 100,
+            maxDrawdownPct: maxDrawdownPct[i + 1 - windowSize],
+        });
+    }
+
+    return rollingMetrics;
+}
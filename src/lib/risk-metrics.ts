@@ -0,0 +1,179 @@
+import { IRiskMetrics } from "./analysis";
+import { ITimestampedValue } from "./trade";
+import { isArray, isNumber, percentile } from "./utils";
+
+/**
+ * Options for computing risk metrics.
+ */
+export interface IRiskMetricsOptions {
+    /**
+     * Number of bars in a year, used to annualize returns and volatility.
+     * Defaults to 252 (trading days in a year).
+     */
+    barsPerYear?: number;
+
+    /**
+     * Annual risk-free rate of return as a fraction, eg 0.02 for 2%.
+     * Defaults to 0.
+     */
+    riskFreeRate?: number;
+}
+
+/**
+ * Compute risk-adjusted return metrics from an equity curve.
+ * Returns are measured from bar to bar, so the equity curve should contain a value for every bar,
+ * as recorded by a backtest with 'recordEquityCurve' enabled.
+ *
+ * @param equityCurve Equity at each bar, at least two values are required.
+ * @param options Options for annualizing returns.
+ */
+export function computeRiskMetrics(equityCurve: ITimestampedValue[], options?: IRiskMetricsOptions): IRiskMetrics {
+
+    if (!isArray(equityCurve) || equityCurve.length < 2) {
+        throw new Error("Expected 'equityCurve' argument to 'computeRiskMetrics' to be an array that contains equity for at least two bars.");
+    }
+
+    const { barsPerYear, riskFreeRate } = resolveRiskMetricsOptions(options, "computeRiskMetrics");
+
+    const equity = equityCurve.map(point => point.value);
+    const returns = computeReturns(equity);
+
+    // Risk-free return per bar.
+    const riskFreeReturn = Math.pow(1 + riskFreeRate, 1 / barsPerYear) - 1;
+    const excessReturns = returns.map(value => value - riskFreeReturn);
+    const meanExcessReturn = mean(excessReturns);
+    const annualizationFactor = Math.sqrt(barsPerYear);
+
+    const returnStdDev = standardDeviation(returns);
+    const downsideDeviation = Math.sqrt(mean(excessReturns.map(value => Math.min(value, 0) ** 2)));
+
+    const gains = sum(excessReturns.map(value => Math.max(value, 0)));
+    const losses = sum(excessReturns.map(value => Math.max(-value, 0)));
+
+    const cagrPct = computeCagrPct(equity, barsPerYear);
+    const drawdownPct = computeDrawdownPct(equity);
+    const maxDrawdownPct = Math.abs(minimum(drawdownPct));
+    const ulcerIndex = Math.sqrt(mean(drawdownPct.map(value => value ** 2)));
+
+    // Calmar ratio is measured over the most recent three years.
+    const calmarEquity = equity.slice(-Math.round(3 * barsPerYear) - 1);
+    const calmarMaxDrawdownPct = Math.abs(minimum(computeDrawdownPct(calmarEquity)));
+
+    const sortedReturns = returns.slice().sort((a, b) => a - b);
+    const lowerTail = Math.abs(percentile(sortedReturns, 0.05));
+
+    const moments = computeMoments(returns);
+
+    return {
+        cagrPct,
+        annualizedVolatilityPct: returnStdDev * annualizationFactor * 100,
+        sharpeRatio: returnStdDev > 0 ? meanExcessReturn / returnStdDev * annualizationFactor : undefined,
+        sortinoRatio: downsideDeviation > 0 ? meanExcessReturn / downsideDeviation * annualizationFactor : undefined,
+        calmarRatio: calmarMaxDrawdownPct > 0 ? computeCagrPct(calmarEquity, barsPerYear) / calmarMaxDrawdownPct : undefined,
+        marRatio: maxDrawdownPct > 0 ? cagrPct / maxDrawdownPct : undefined,
+        omegaRatio: losses > 0 ? gains / losses : undefined,
+        ulcerIndex,
+        ulcerPerformanceIndex: ulcerIndex > 0 ? (cagrPct - riskFreeRate * 100) / ulcerIndex : undefined,
+        tailRatio: lowerTail > 0 ? Math.abs(percentile(sortedReturns, 0.95)) / lowerTail : undefined,
+        returnSkewness: moments.variance > 0 ? moments.third / Math.pow(moments.variance, 1.5) : undefined,
+        returnKurtosis: moments.variance > 0 ? moments.fourth / (moments.variance ** 2) - 3 : undefined,
+    };
+}
+
+/**
+ * Apply defaults to risk metrics options and check that they are valid.
+ *
+ * @param options The options to check.
+ * @param functionName Name of the function the options were passed to, for error messages.
+ */
+export function resolveRiskMetricsOptions(options: IRiskMetricsOptions | undefined, functionName: string): Required<IRiskMetricsOptions> {
+    const barsPerYear = options && options.barsPerYear !== undefined ? options.barsPerYear : 252;
+    if (!isNumber(barsPerYear) || barsPerYear <= 0) {
+        throw new Error(`Expected 'barsPerYear' option to '${functionName}' to be a positive number that specifies the number of bars in a year.`);
+    }
+
+    const riskFreeRate = options && options.riskFreeRate !== undefined ? options.riskFreeRate : 0;
+    if (!isNumber(riskFreeRate)) {
+        throw new Error(`Expected 'riskFreeRate' option to '${functionName}' to be a number that specifies the annual risk-free rate of return.`);
+    }
+
+    return { barsPerYear, riskFreeRate };
+}
+
+/**
+ * Returns from each value to the next.
+ */
+export function computeReturns(values: number[]): number[] {
+    const returns: number[] = [];
+    for (let i = 1; i < values.length; ++i) {
+        returns.push(values[i] / values[i - 1] - 1);
+    }
+    return returns;
+}
+
+function sum(values: number[]): number {
+    let total = 0;
+    for (const value of values) {
+        total += value;
+    }
+    return total;
+}
+
+function minimum(values: number[]): number {
+    let lowest = Infinity;
+    for (const value of values) {
+        lowest = Math.min(lowest, value);
+    }
+    return lowest;
+}
+
+/**
+ * The mean of a set of values, zero when there are no values.
+ */
+export function mean(values: number[]): number {
+    return values.length > 0 ? sum(values) / values.length : 0;
+}
+
+/**
+ * Sample standard deviation, zero when there are less than two values.
+ */
+export function standardDeviation(values: number[]): number {
+    if (values.length < 2) {
+        return 0;
+    }
+
+    const average = mean(values);
+    return Math.sqrt(sum(values.map(value => (value - average) ** 2)) / (values.length - 1));
+}
+
+//
+// Central moments of a set of values, used for skewness and kurtosis.
+//
+function computeMoments(values: number[]): { variance: number, third: number, fourth: number } {
+    const average = mean(values);
+    return {
+        variance: mean(values.map(value => (value - average) ** 2)),
+        third: mean(values.map(value => (value - average) ** 3)),
+        fourth: mean(values.map(value => (value - average) ** 4)),
+    };
+}
+
+//
+// Compound annual growth rate, as a percentage, from the first to the last value.
+//
+function computeCagrPct(equity: number[], barsPerYear: number): number {
+    const years = (equity.length - 1) / barsPerYear;
+    const growth = equity[equity.length - 1] / equity[0];
+    return (Math.pow(growth, 1 / years) - 1) * 100;
+}
+
+//
+// Drawdown from the peak, as a percentage, at each value.
+//
+function computeDrawdownPct(equity: number[]): number[] {
+    let peak = -Infinity;
+    return equity.map(value => {
+        peak = Math.max(peak, value);
+        return (value / peak - 1) * 100;
+    });
+}
@@ -0,0 +1,212 @@
+import { DataFrame, IDataFrame } from "data-forge";
+import { IBacktestOptions, IBacktestResult, prepareIndicators } from "./backtest";
+import { IBar } from "./bar";
+import { IBroker, OrderIntent, SimulatedBroker } from "./broker";
+import { computeDrawdown } from "./compute-drawdown";
+import { PositionManager } from "./position-manager";
+import { IStrategy } from "./strategy";
+import { ITimestampedValue } from "./trade";
+import { isIterable, isNumber, isObject } from "./utils";
+
+/**
+ * Options to the runStream function.
+ */
+export interface IStreamOptions extends IBacktestOptions {
+  /**
+   * The broker that order intents are routed to.
+   * Defaults to a simulated broker with the 'startingCapital' (if any).
+   */
+  broker?: IBroker;
+
+  /**
+   * Symbol of the instrument being traded, recorded on order intents and trades.
+   */
+  symbol?: string;
+
+  /**
+   * The number of most recent bars that the strategy's indicators are computed from as each bar arrives.
+   * Defaults to all bars received.
+   */
+  indicatorsPeriod?: number;
+}
+
+/**
+ * Result of running a trading strategy against a stream of bars.
+ */
+export interface IStreamResult<StateT = unknown> extends IBacktestResult<StateT> {
+  /**
+   * The broker that order intents were routed to.
+   */
+  broker: IBroker;
+}
+
+/**
+ * Options to the replay function.
+ */
+export interface IReplayOptions {
+  /**
+   * Milliseconds to wait before each bar is delivered.
+   * Defaults to delivering bars without waiting.
+   */
+  delay?: number;
+}
+
+//
+// Submits order intents to the broker in the order they were emitted.
+//
+async function submitIntents(broker: IBroker, intents: OrderIntent[]): Promise<void> {
+  while (intents.length > 0) {
+    await broker.submit(intents.shift()!);
+  }
+}
+
+/**
+ * Replay the bars of a data series as a feed, for paper trading with 'runStream'.
+ *
+ * @param bars The bars to replay, in forward chronological order.
+ * @param options Options for the replay.
+ */
+export async function* replay<BarT extends IBar>(
+  bars: IDataFrame<any, BarT> | BarT[],
+  options?: IReplayOptions
+): AsyncIterable<BarT> {
+  const delay = (options && options.delay) || 0;
+  for (const bar of bars) {
+    if (delay > 0) {
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+    yield bar;
+  }
+}
+
+/**
+ * Run a trading strategy against a stream of bars as they arrive, for example a live or replayed feed.
+ * The strategy's rules are invoked on each bar exactly as they are in a backtest.
+ * Order intents are routed to a broker as orders are placed, changed and cancelled: entry orders,
+ * exits requested by the strategy and the working stop loss and profit target orders of each lot.
+ * Each bar is passed to the broker (see 'IBroker.addBar') before the strategy's rules are invoked for it,
+ * and the bar's intents are submitted before the next bar is processed. The broker fills the orders.
+ * When the feed ends any open position is closed at the close of the last bar.
+ *
+ * Indicators can't be prepared ahead of time from a stream, so when the strategy defines 'prepIndicators'
+ * they are computed from the bars received so far (see 'indicatorsPeriod') as each bar arrives.
+ * Only indicator bars that are newer than the last bar the strategy has seen are passed to its rules,
+ * so bars are skipped until there are enough to compute the indicators and a bar that is missing
+ * from the indicators isn't replaced by an older one.
+ *
+ * @param strategy The strategy to trade.
+ * @param bars The feed of bars, in forward chronological order.
+ * @param options Options for the run.
+ */
+export async function runStream<InputBarT extends IBar, IndicatorBarT extends InputBarT, ParametersT, StateT = unknown>(
+  strategy: IStrategy<InputBarT, IndicatorBarT, ParametersT, number, StateT>,
+  bars: AsyncIterable<InputBarT> | Iterable<InputBarT>,
+  options?: IStreamOptions
+): Promise<IStreamResult<StateT>> {
+  if (!isObject(strategy)) {
+    throw new Error(
+      "Expected 'strategy' argument to 'runStream' to be an object that defines the trading strategy to run."
+    );
+  }
+
+  if (!isIterable<InputBarT>(bars)) {
+    throw new Error(
+      "Expected 'bars' argument to 'runStream' to be an iterable or async iterable of bars."
+    );
+  }
+
+  if (!options) {
+    options = {};
+  }
+
+  if (options.startingCapital !== undefined && (!isNumber(options.startingCapital) || options.startingCapital <= 0)) {
+    throw new Error(
+      "Expected 'startingCapital' option to 'runStream' to be a positive number that specifies the amount of capital to trade with."
+    );
+  }
+
+  if (strategy.positionSize && options.startingCapital === undefined) {
+    throw new Error(
+      "Expected 'startingCapital' option to be passed to 'runStream' when the strategy defines 'positionSize'."
+    );
+  }
+
+  if ((options.recordEquityCurve || options.recordDrawdown) && options.startingCapital === undefined) {
+    throw new Error(
+      "Expected 'startingCapital' option to be passed to 'runStream' when 'recordEquityCurve' or 'recordDrawdown' is enabled."
+    );
+  }
+
+  if (options.indicatorsPeriod !== undefined && (!isNumber(options.indicatorsPeriod) || options.indicatorsPeriod < 1)) {
+    throw new Error(
+      "Expected 'indicatorsPeriod' option to 'runStream' to be a number that is at least 1."
+    );
+  }
+
+  const broker = options.broker || new SimulatedBroker(options.startingCapital, options.commission);
+  const positionManager = new PositionManager(strategy, options);
+  positionManager.symbol = options.symbol;
+
+  const intents: OrderIntent[] = [];
+  positionManager.on("orderIntent", intent => {
+    intents.push(intent);
+  });
+
+  const recordEquity = options.recordEquityCurve || options.recordDrawdown;
+  const equityCurve: ITimestampedValue[] = [];
+  const history: InputBarT[] = [];
+  let lastBar: IndicatorBarT | undefined;
+
+  for await (const bar of bars) {
+    let indicatorsBars: IndicatorBarT[] = [ bar as IndicatorBarT ];
+    if (strategy.prepIndicators) {
+      history.push(bar);
+      if (options.indicatorsPeriod !== undefined && history.length > options.indicatorsPeriod) {
+        history.shift();
+      }
+      const indicatorsSeries = prepareIndicators(strategy, new DataFrame<number, InputBarT>(history));
+      const lastTime = lastBar !== undefined ? lastBar.time : undefined;
+      indicatorsBars = indicatorsSeries
+        .where(indicatorsBar => lastTime === undefined || indicatorsBar.time > lastTime)
+        .toArray();
+    }
+
+    if (broker.addBar) {
+      await broker.addBar(bar);
+    }
+
+    for (const indicatorsBar of indicatorsBars) {
+      positionManager.addBar(indicatorsBar);
+      lastBar = indicatorsBar;
+      await submitIntents(broker, intents);
+    }
+
+    if (recordEquity) {
+      equityCurve.push({ time: bar.time, value: positionManager.equity! });
+    }
+  }
+
+  if (lastBar === undefined) {
+    throw new Error("Expected the stream of bars to contain at least 1 bar.");
+  }
+
+  positionManager.complete(lastBar);
+  await submitIntents(broker, intents);
+
+  if (recordEquity) {
+    // The last point includes the cost of closing open positions.
+    equityCurve[equityCurve.length - 1].value = positionManager.equity!;
+  }
+
+  const result: IStreamResult<StateT> = {
+    trades: positionManager.completedTrades,
+    broker: broker,
+  };
+  if (options.recordEquityCurve) {
+    result.equityCurve = equityCurve;
+  }
+  if (options.recordDrawdown) {
+    result.drawdown = computeDrawdown(equityCurve);
+  }
+  return result;
+}
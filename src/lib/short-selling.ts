@@ -0,0 +1,99 @@
+import { IBar } from "./bar";
+import { IRuleParams } from "./strategy";
+
+/**
+ * A custom function that returns true when a short position can't be entered in a bar,
+ * for example because the instrument isn't available to borrow.
+ */
+export type ShortSaleRestrictionFn<BarT extends IBar, ParametersT = any, StateT = any> = (args: IRuleParams<BarT, ParametersT, StateT>) => boolean;
+
+/**
+ * A custom function that returns true when the instrument is hard to borrow in a bar.
+ */
+export type HardToBorrowFn<BarT extends IBar, ParametersT = any, StateT = any> = (args: IRuleParams<BarT, ParametersT, StateT>) => boolean;
+
+/**
+ * Restricts short selling after a large decline in price, as for the SEC's alternative uptick rule (Rule 201).
+ * The restriction applies in the bar where the low falls 10% (or the specified percentage)
+ * below the previous close, and in the bar after.
+ */
+export interface IAlternativeUptickRestriction {
+    type: "alternative-uptick";
+
+    /**
+     * Decline from the previous close, as a percentage, that triggers the restriction.
+     * Defaults to 10.
+     */
+    declinePct?: number;
+}
+
+/**
+ * Defines when a short position can't be entered.
+ */
+export type ShortSaleRestriction<BarT extends IBar, ParametersT = any, StateT = any> =
+    | ShortSaleRestrictionFn<BarT, ParametersT, StateT>
+    | IAlternativeUptickRestriction;
+
+/**
+ * Options for short selling, set on the strategy.
+ */
+export interface IShortSellingOptions<BarT extends IBar = IBar, ParametersT = any, StateT = any> {
+    /**
+     * Annual fee for borrowing the instrument, as a percentage of the value of the short position.
+     * The fee is charged for each bar the position is held through, at the close of the bar.
+     * Defaults to 0.
+     */
+    borrowRatePct?: number;
+
+    /**
+     * Annual borrow fee, as a percentage, in bars where the instrument is hard to borrow.
+     * Defaults to 'borrowRatePct'.
+     */
+    hardToBorrowRatePct?: number;
+
+    /**
+     * Returns true in bars where the instrument is hard to borrow, for example from a flag on the bar.
+     * Trades that are held short while hard to borrow are flagged with 'hardToBorrow'.
+     */
+    isHardToBorrow?: HardToBorrowFn<BarT, ParametersT, StateT>;
+
+    /**
+     * Number of bars in a year, used to convert annual borrow rates to a fee per bar.
+     * Defaults to 252.
+     */
+    barsPerYear?: number;
+
+    /**
+     * Restricts when a short position can be entered.
+     * A short entry order isn't filled in a restricted bar, it remains pending until the restriction is lifted
+     * (or the order expires or is cancelled).
+     */
+    restriction?: ShortSaleRestriction<BarT, ParametersT, StateT>;
+}
+
+/**
+ * Returns true when a bar's low falls far enough below the previous close to trigger the alternative uptick rule.
+ *
+ * @param restriction The alternative uptick restriction.
+ * @param bar The bar to check.
+ * @param previousClose Close of the previous bar.
+ */
+export function isAlternativeUptickTriggered(restriction: IAlternativeUptickRestriction, bar: IBar, previousClose: number): boolean {
+    const declinePct = restriction.declinePct !== undefined ? restriction.declinePct : 10;
+    return bar.low <= previousClose * (1 - declinePct / 100);
+}
+
+/**
+ * Compute the fee for holding a short position through a bar.
+ *
+ * @param options Short selling options of the strategy.
+ * @param price Price the position is valued at.
+ * @param units Number of units held short.
+ * @param hardToBorrow Whether the instrument is hard to borrow in the bar.
+ */
+export function computeBorrowFee(options: IShortSellingOptions<any, any>, price: number, units: number, hardToBorrow: boolean): number {
+    const borrowRatePct = options.borrowRatePct !== undefined ? options.borrowRatePct : 0;
+    const ratePct = hardToBorrow && options.hardToBorrowRatePct !== undefined ? options.hardToBorrowRatePct : borrowRatePct;
+    const barsPerYear = options.barsPerYear !== undefined ? options.barsPerYear : 252;
+    return price * units * (ratePct / 100) / barsPerYear;
+}
@@ -0,0 +1,168 @@
+import { IBar } from "./bar";
+import { TradeDirection } from "./strategy";
+import { isFunction } from "./utils";
+
+/**
+ * Describes an order that is about to be filled.
+ */
+export interface ISlippageOrder {
+    /**
+     * The direction of the position being entered or exited.
+     */
+    direction: TradeDirection;
+
+    /**
+     * Set to "entry" when the position is being entered and "exit" when it is being exited.
+     */
+    side: "entry" | "exit";
+
+    /**
+     * The price the order intends to fill at.
+     */
+    price: number;
+
+    /**
+     * The number of units being traded.
+     */
+    quantity: number;
+
+    /**
+     * The reason for the order, eg 'entry-rule' or 'stop-loss'.
+     */
+    reason: string;
+}
+
+/**
+ * Arguments to a slippage function.
+ */
+export interface ISlippageArgs {
+    /**
+     * The bar in which the order is filled.
+     */
+    bar: IBar;
+
+    /**
+     * The order being filled.
+     */
+    order: ISlippageOrder;
+}
+
+/**
+ * A custom function that computes the actual fill price of an order.
+ */
+export type SlippageFn = (args: ISlippageArgs) => number;
+
+/**
+ * Slips the fill by a fixed number of ticks.
+ */
+export interface ITickSlippage {
+    type: "ticks";
+
+    /**
+     * The number of ticks to slip by.
+     */
+    ticks: number;
+
+    /**
+     * The minimum price movement of the instrument.
+     */
+    tickSize: number;
+}
+
+/**
+ * Slips the fill by a percentage of the intended price.
+ */
+export interface IPercentSlippage {
+    type: "percent";
+
+    /**
+     * The percentage to slip by, eg 0.1 slips by 0.1%.
+     */
+    percent: number;
+}
+
+/**
+ * Fills orders on the wrong side of the bid/ask spread, slipping by half the spread.
+ */
+export interface ISpreadSlippage {
+    type: "spread";
+
+    /**
+     * The full bid/ask spread in price units.
+     */
+    spread: number;
+}
+
+/**
+ * Slips the fill in proportion to the share of the bar's volume taken by the order.
+ */
+export interface IVolumeSlippage {
+    type: "volume";
+
+    /**
+     * The percentage price impact when the order takes all of the bar's volume.
+     * Impact scales linearly with the proportion of volume taken.
+     */
+    impactPercent: number;
+}
+
+/**
+ * Defines how the fill price of an order is adjusted for slippage.
+ */
+export type SlippageModel =
+    | SlippageFn
+    | ITickSlippage
+    | IPercentSlippage
+    | ISpreadSlippage
+    | IVolumeSlippage;
+
+/**
+ * Returns true when the order buys the instrument.
+ * Entering a long position or exiting a short position is a buy.
+ */
+export function isBuyOrder(order: { direction: TradeDirection, side: "entry" | "exit" }): boolean {
+    return (order.direction === TradeDirection.Long) === (order.side === "entry");
+}
+
+/**
+ * Compute the actual fill price for an order after slippage.
+ * Slippage is always adverse, buys fill higher and sells fill lower.
+ *
+ * @param model The slippage model to apply.
+ * @param args Describes the bar and the order being filled.
+ */
+export function applySlippage(model: SlippageModel, args: ISlippageArgs): number {
+    if (isFunction(model)) {
+        return model(args);
+    }
+
+    const order = args.order;
+    let slippage: number;
+
+    switch (model.type) {
+        case "ticks":
+            slippage = model.ticks * model.tickSize;
+            break;
+
+        case "percent":
+            slippage = order.price * (model.percent / 100);
+            break;
+
+        case "spread":
+            slippage = model.spread / 2;
+            break;
+
+        case "volume": {
+            const participation = args.bar.volume > 0 ? order.quantity / args.bar.volume : 0;
+            slippage = order.price * (model.impactPercent / 100) * participation;
+            break;
+        }
+
+        default: {
+            const unknownModel: never = model;
+            throw new Error(`Unexpected "type" field of slippage model. Expected "ticks", "percent", "spread" or "volume", Actual: "${(unknownModel as { type: string }).type}".`);
+        }
+    }
+
+    return isBuyOrder(order) ? order.price + slippage : order.price - slippage;
+}
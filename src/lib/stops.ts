@@ -0,0 +1,285 @@
+import { IBar } from "./bar";
+import { IPosition } from "./position";
+import { IStopLossArgs, IStopPrice, StopLossFn, TradeDirection } from "./strategy";
+import { isFunction, isNumber } from "./utils";
+
+/**
+ * A stop loss a percentage of the entry price away.
+ */
+export interface IPercentStop {
+    type: "percent";
+
+    /**
+     * The percentage of the entry price to risk, eg 5 risks 5% of the entry price.
+     */
+    percent: number;
+}
+
+/**
+ * A stop loss a multiple of the average true range away.
+ * As a trailing stop it trails the highest price recorded (or the lowest for a short position).
+ */
+export interface IAtrStop {
+    type: "atr";
+
+    /**
+     * The number of average true ranges to risk.
+     */
+    multiple: number;
+
+    /**
+     * The number of bars the average true range is computed over.
+     * The strategy's 'lookbackPeriod' must be at least one more than this.
+     */
+    period: number;
+}
+
+/**
+ * The chandelier exit, a stop a multiple of the average true range below the highest high of the period
+ * (or above the lowest low for a short position). Intended as a trailing stop.
+ */
+export interface IChandelierStop {
+    type: "chandelier";
+
+    /**
+     * The number of average true ranges to hang the stop from the highest high, eg 3.
+     */
+    multiple: number;
+
+    /**
+     * The number of bars the highest high and average true range are computed over, eg 22.
+     * The strategy's 'lookbackPeriod' must be at least one more than this.
+     */
+    period: number;
+}
+
+/**
+ * A stop at Wilder's parabolic SAR, computed from the bars since the lot was entered. Intended as a trailing stop.
+ * The strategy's 'lookbackPeriod' should cover the bars a lot is held, older bars aren't available to the stop.
+ */
+export interface IParabolicSarStop {
+    type: "parabolic-sar";
+
+    /**
+     * The acceleration factor is increased by this much with each new extreme.
+     * Defaults to 0.02.
+     */
+    step?: number;
+
+    /**
+     * The maximum acceleration factor.
+     * Defaults to 0.2.
+     */
+    maxStep?: number;
+}
+
+/**
+ * Moves the stop to the entry price once the lot has moved a multiple of its initial risk in its favour.
+ * Intended as a trailing stop, the strategy must also set a stop loss.
+ */
+export interface IBreakevenStop {
+    type: "breakeven";
+
+    /**
+     * The favourable move that triggers the move to breakeven, as a multiple of the initial risk (R), eg 1.
+     */
+    afterR: number;
+}
+
+/**
+ * Ratchets the stop up by the step each time the lot moves a further step in its favour,
+ * where the step is a multiple of the initial risk (R). Intended as a trailing stop, the strategy must also set a stop loss.
+ */
+export interface IStepStop {
+    type: "step";
+
+    /**
+     * The size of each step, as a multiple of the initial risk (R), eg 1.
+     */
+    stepR: number;
+}
+
+/**
+ * Shrinks the risk from the initial risk (R) in even steps over a number of bars, tightening the stop
+ * towards the entry price as the lot is held. Intended as a trailing stop, the strategy must also set a stop loss.
+ */
+export interface ITimeDecayStop {
+    type: "time-decay";
+
+    /**
+     * The number of bars over which the risk shrinks, measured by the lot's holding period.
+     */
+    bars: number;
+
+    /**
+     * The proportion of the initial risk that is kept once the bars have passed, eg 0.25.
+     * Defaults to 0, the stop reaches the entry price.
+     */
+    minFraction?: number;
+}
+
+/**
+ * Defines how to compute a stop loss or a trailing stop loss.
+ */
+export type StopLossModel<BarT extends IBar, ParametersT = any, StateT = any> =
+    | StopLossFn<BarT, ParametersT, StateT>
+    | IPercentStop
+    | IAtrStop
+    | IChandelierStop
+    | IParabolicSarStop
+    | IBreakevenStop
+    | IStepStop
+    | ITimeDecayStop;
+
+//
+// Checks that an option of a stop is a positive number.
+//
+function checkPositive(value: any, optionName: string, stopType: string): void {
+    if (!isNumber(value) || value <= 0) {
+        throw new Error(`Expected '${optionName}' option to the '${stopType}' stop to be a positive number, Actual: "${value}".`);
+    }
+}
+
+//
+// Computes the average true range over the most recent bars of the lookback.
+//
+function averageTrueRange(lookback: IBar[], period: number, stopType: string): number {
+    if (lookback.length < period + 1) {
+        throw new Error(`Expected a lookback period of at least ${period + 1} bars to compute the '${stopType}' stop.`);
+    }
+
+    let total = 0;
+    for (let i = lookback.length - period; i < lookback.length; ++i) {
+        const bar = lookback[i];
+        const prevClose = lookback[i - 1].close;
+        total += Math.max(bar.high - bar.low, Math.abs(bar.high - prevClose), Math.abs(bar.low - prevClose));
+    }
+
+    return total / period;
+}
+
+//
+// Computes the parabolic SAR that applies to the bar after the bars held.
+//
+function parabolicSar(bars: IBar[], isLong: boolean, step: number, maxStep: number): number {
+    // The extreme in the lot's favour and the extreme against it.
+    const best = (bar: IBar) => isLong ? bar.high : bar.low;
+    const worst = (bar: IBar) => isLong ? bar.low : bar.high;
+    const isBetter = (a: number, b: number) => isLong ? a > b : a < b;
+
+    let sar = worst(bars[0]);
+    let extremePoint = best(bars[0]);
+    let accelerationFactor = step;
+
+    for (let i = 1; i <= bars.length; ++i) {
+        sar += accelerationFactor * (extremePoint - sar);
+
+        // The SAR never moves into the range of the previous two bars.
+        for (const prevBar of bars.slice(Math.max(0, i - 2), i)) {
+            if (isBetter(sar, worst(prevBar))) {
+                sar = worst(prevBar);
+            }
+        }
+
+        if (i < bars.length && isBetter(best(bars[i]), extremePoint)) {
+            extremePoint = best(bars[i]);
+            accelerationFactor = Math.min(accelerationFactor + step, maxStep);
+        }
+    }
+
+    return sar;
+}
+
+//
+// The distance from the entry price to the initial stop, the initial risk (R) of the lot.
+//
+function initialRisk(position: IPosition, stopType: string): number {
+    if (position.initialStopPrice === undefined) {
+        throw new Error(`Expected the strategy to set a stop loss when using the '${stopType}' stop.`);
+    }
+
+    return Math.abs(position.entryPrice - position.initialStopPrice);
+}
+
+/**
+ * Compute a stop loss.
+ * Returns the maximum loss before an exit is triggered, or the price of the stop.
+ *
+ * @param model The stop loss model to apply.
+ * @param args Describes the lot and the current bar.
+ */
+export function computeStopLoss<BarT extends IBar, ParametersT, StateT>(
+    model: StopLossModel<BarT, ParametersT, StateT>,
+    args: IStopLossArgs<BarT, ParametersT, StateT>
+): number | IStopPrice {
+
+    if (isFunction(model)) {
+        return model(args);
+    }
+
+    const { position } = args;
+    const isLong = position.direction === TradeDirection.Long;
+    const sign = isLong ? 1 : -1;
+
+    switch (model.type) {
+        case "percent":
+            checkPositive(model.percent, "percent", model.type);
+            return args.entryPrice * (model.percent / 100);
+
+        case "atr":
+            checkPositive(model.multiple, "multiple", model.type);
+            checkPositive(model.period, "period", model.type);
+            return model.multiple * averageTrueRange(args.lookback.toArray(), model.period, model.type);
+
+        case "chandelier": {
+            checkPositive(model.multiple, "multiple", model.type);
+            checkPositive(model.period, "period", model.type);
+            const lookback = args.lookback.toArray();
+            const atr = averageTrueRange(lookback, model.period, model.type);
+            const periodBars = lookback.slice(lookback.length - model.period);
+            const extreme = isLong
+                ? Math.max(...periodBars.map(bar => bar.high))
+                : Math.min(...periodBars.map(bar => bar.low));
+            return { price: extreme - sign * model.multiple * atr };
+        }
+
+        case "parabolic-sar": {
+            const step = model.step !== undefined ? model.step : 0.02;
+            const maxStep = model.maxStep !== undefined ? model.maxStep : 0.2;
+            checkPositive(step, "step", model.type);
+            checkPositive(maxStep, "maxStep", model.type);
+            const barsHeld = args.lookback.toArray().filter(bar => bar.time >= position.entryTime);
+            return { price: parabolicSar(barsHeld.length > 0 ? barsHeld : [ args.bar ], isLong, step, maxStep) };
+        }
+
+        case "breakeven": {
+            checkPositive(model.afterR, "afterR", model.type);
+            const risk = initialRisk(position, model.type);
+            const move = sign * (position.maxPriceRecorded - position.entryPrice);
+            return { price: move >= model.afterR * risk ? position.entryPrice : position.initialStopPrice! };
+        }
+
+        case "step": {
+            checkPositive(model.stepR, "stepR", model.type);
+            const stepSize = model.stepR * initialRisk(position, model.type);
+            const move = sign * (position.maxPriceRecorded - position.entryPrice);
+            const steps = stepSize > 0 ? Math.max(0, Math.floor(move / stepSize)) : 0;
+            return { price: position.initialStopPrice! + sign * steps * stepSize };
+        }
+
+        case "time-decay": {
+            checkPositive(model.bars, "bars", model.type);
+            const minFraction = model.minFraction !== undefined ? model.minFraction : 0;
+            if (!isNumber(minFraction) || minFraction < 0 || minFraction > 1) {
+                throw new Error(`Expected 'minFraction' option to the 'time-decay' stop to be a number between 0 and 1, Actual: "${minFraction}".`);
+            }
+            const fraction = Math.max(minFraction, 1 - position.holdingPeriod / model.bars);
+            return { price: position.entryPrice - sign * fraction * initialRisk(position, model.type) };
+        }
+
+        default: {
+            const unknownModel: never = model;
+            throw new Error(`Unexpected "type" field of stop loss model. Expected "percent", "atr", "chandelier", "parabolic-sar", "breakeven", "step" or "time-decay", Actual: "${(unknownModel as { type: string }).type}".`);
+        }
+    }
+}
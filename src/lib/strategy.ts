@@ -1,6 +1,11 @@
 import { IDataFrame } from "data-forge";
 import { IBar } from "./bar";
 import { IPosition } from "./position";
+import { PositionSizeModel } from "./position-sizing";
+import { IShortSellingOptions } from "./short-selling";
+import { StopLossModel } from "./stops";
+import { ITimeExits } from "./time-exits";
+import { ITrade } from "./trade";
 
 /**
  * Specifies which direction we are trading.
@@ -13,6 +18,18 @@ export enum TradeDirection {
     Short = "short",
 }
 
+/**
+ * The type of order used to enter a position.
+ *
+ * market:          Fill at the time set by the 'fillTiming' backtest option, defaults to the open of the next bar.
+ * market-on-open:  Fill at the open of the next bar.
+ * market-on-close: Fill at the close of the next bar.
+ * limit:           Fill when the price reaches the limit price or better (below it for longs, above it for shorts).
+ * stop:            Fill when the price breaks through the stop price (above it for longs, below it for shorts).
+ * stop-limit:      When the stop price is broken a limit order is placed at the limit price.
+ */
+export type EntryOrderType = "market" | "market-on-open" | "market-on-close" | "limit" | "stop" | "stop-limit";
+
 /**
  * Options to the enter position function.
  */
@@ -34,13 +51,110 @@ export interface IEnterPositionOptions {
      * 
      * Short:
      *      Position will be opened in the bar after the bar where the low drops through this price.
+     *
+     * Only applies to "market" and "market-on-open" orders, see 'orderType' for limit and stop orders.
      */
     entryPrice?: number;
 
+    /**
+     * The type of order used to enter the position.
+     * Defaults to "market".
+     *
+     * Limit and stop orders fill at their price, or at the open of the bar if the price gapped through it.
+     */
+    orderType?: EntryOrderType;
+
+    /**
+     * The price for a "limit" or "stop-limit" order.
+     */
+    limitPrice?: number;
+
+    /**
+     * The price for a "stop" or "stop-limit" order.
+     */
+    stopPrice?: number;
+
+    /**
+     * The number of bars the order can be filled in before it expires.
+     * Defaults to the order never expiring.
+     */
+    goodForBars?: number;
+
+    /**
+     * Timestamp after which the order expires.
+     * Defaults to the order never expiring.
+     */
+    goodUntil?: number;
+
     /**
      * Optionally provide a reason to the entry, such as an entry condition
      */
     reason?: string;
+
+    /**
+     * Optional tag recorded on the trade, used to group trades with 'analyzeBy'.
+     */
+    tag?: string;
+}
+
+/**
+ * An order to enter a position that is waiting to be filled.
+ */
+export interface IEntryOrder {
+    /**
+     * The direction of the position to enter.
+     */
+    direction: TradeDirection;
+
+    /**
+     * The type of order.
+     */
+    orderType: EntryOrderType;
+
+    /**
+     * Conditional entry price for a "market" or "market-on-open" order.
+     */
+    entryPrice?: number;
+
+    /**
+     * The price for a "limit" or "stop-limit" order.
+     */
+    limitPrice?: number;
+
+    /**
+     * The price for a "stop" or "stop-limit" order.
+     */
+    stopPrice?: number;
+
+    /**
+     * Set when the stop price of a "stop-limit" order has been broken and the limit order is working.
+     */
+    stopTriggered?: boolean;
+
+    /**
+     * The number of bars the order can be filled in before it expires.
+     */
+    goodForBars?: number;
+
+    /**
+     * Timestamp after which the order expires.
+     */
+    goodUntil?: number;
+
+    /**
+     * The number of bars the order has been waiting to be filled.
+     */
+    barsPending: number;
+
+    /**
+     * The reason for the entry.
+     */
+    reason: string;
+
+    /**
+     * Tag recorded on the trade.
+     */
+    tag?: string;
 }
 
 /**
@@ -50,15 +164,54 @@ export interface IEnterPositionOptions {
  */
 export type EnterPositionFn = (options?: IEnterPositionOptions) => void;
 
+/**
+ * Type for the function used to cancel an entry order that hasn't been filled.
+ */
+export type CancelEntryFn = () => void;
+
+/**
+ * Options to the exit position function.
+ */
+export interface IExitPositionOptions {
+    /**
+     * Determines which lots to close when the strategy has scaled in to the position.
+     * Defaults to "all".
+     *
+     * all:     Close every lot.
+     * fifo:    Close the oldest lot.
+     * lifo:    Close the newest lot.
+     */
+    lots?: "all" | "fifo" | "lifo";
+
+    /**
+     * The proportion of the selected lots to close, eg 0.5 closes half of what is held.
+     * Defaults to closing the selected lots entirely.
+     */
+    fraction?: number;
+
+    /**
+     * The number of units to close, taken from the lots in order (oldest first unless 'lots' is "lifo").
+     * When not trading with capital each lot is a single unit.
+     * Can't be combined with 'fraction'.
+     */
+    quantity?: number;
+
+    /**
+     * The reason for the exit, recorded on the trade.
+     * Defaults to 'exit-rule'.
+     */
+    reason?: string;
+}
+
 /**
  * Type for the function used to exit a position.
  */
-export type ExitPositionFn = () => void;
+export type ExitPositionFn = (options?: IExitPositionOptions) => void;
 
 /**
  * General parameters to rule functions.
  */
-export interface IRuleParams<BarT extends IBar, ParametersT> {
+export interface IRuleParams<BarT extends IBar, ParametersT, StateT = any> {
 
     /**
      * The most recent bar.
@@ -74,12 +227,18 @@ export interface IRuleParams<BarT extends IBar, ParametersT> {
      * Optimizable parameters to the trading strategy.
      */
     parameters: ParametersT;
+
+    /**
+     * State shared between rules, initialised by the strategy for each backtest (see 'IStrategy.state').
+     * Rules can update the state as they like.
+     */
+    state: StateT;
 }
 
 /**
  * Parameters to a rule that's executed when there's a current open position.
  */
-export interface IOpenPositionRuleArgs<BarT extends IBar, ParametersT> extends IRuleParams<BarT, ParametersT> {
+export interface IOpenPositionRuleArgs<BarT extends IBar, ParametersT, StateT = any> extends IRuleParams<BarT, ParametersT, StateT> {
     /**
      * Entry price for the position.
      */
@@ -88,65 +247,226 @@ export interface IOpenPositionRuleArgs<BarT extends IBar, ParametersT> extends I
     /**
      * The position that is currently open.
      */
-    position: IPosition;
+    position: IPosition<StateT>;
 }
 
 /**
  * Arguments to a stop loss rule function.
  */
-export interface IStopLossArgs<BarT extends IBar, ParametersT> extends IOpenPositionRuleArgs<BarT, ParametersT> {
+export interface IStopLossArgs<BarT extends IBar, ParametersT, StateT = any> extends IOpenPositionRuleArgs<BarT, ParametersT, StateT> {
+}
+
+/**
+ * A stop loss at a price, rather than a distance from the price.
+ */
+export interface IStopPrice {
+    /**
+     * Price where the stop loss is triggered.
+     */
+    price: number;
 }
 
 /**
  * Computes the intrabar stop loss.
- * Return the maximum loss before an exit is triggered.
+ * Return the maximum loss before an exit is triggered, or the price of the stop.
  */
-export type StopLossFn<BarT extends IBar, ParametersT = any> = (args: IStopLossArgs<BarT, ParametersT>) => number;
+export type StopLossFn<BarT extends IBar, ParametersT = any, StateT = any> = (args: IStopLossArgs<BarT, ParametersT, StateT>) => number | IStopPrice;
 
 /**
  * Arguments to a profit target rule function.
  */
-export interface IProfitTargetArgs<BarT extends IBar, ParametersT> extends IOpenPositionRuleArgs<BarT, ParametersT> {
+export interface IProfitTargetArgs<BarT extends IBar, ParametersT, StateT = any> extends IOpenPositionRuleArgs<BarT, ParametersT, StateT> {
+}
+
+/**
+ * A level at which to take some profit when scaling out of a position.
+ */
+export interface IProfitTargetLevel {
+    /**
+     * The amount of profit to trigger the exit.
+     */
+    distance: number;
+
+    /**
+     * The proportion of the lot to close at this level, eg 0.5 closes half of the lot.
+     */
+    fraction: number;
 }
 
 /**
  * Computes the intrabar profit target.
- * Return the amount of profit to trigger an exit.
+ * Return the amount of profit to trigger an exit, or multiple levels to scale out of the position.
  */
-export type ProfitTargetFn<BarT extends IBar, ParametersT = any> = (args: IProfitTargetArgs<BarT, ParametersT>) => number;
+export type ProfitTargetFn<BarT extends IBar, ParametersT = any, StateT = any> = (args: IProfitTargetArgs<BarT, ParametersT, StateT>) => number | IProfitTargetLevel[];
 
 /**
  * Arguments for an entry rule function.
  */
-export interface IEntryRuleArgs<BarT extends IBar, ParametersT> extends IRuleParams<BarT, ParametersT> {
+export interface IEntryRuleArgs<BarT extends IBar, ParametersT, StateT = any> extends IRuleParams<BarT, ParametersT, StateT> {
+    /**
+     * Lots held in the open position, oldest first.
+     * Empty when there is no open position, the strategy can only be in a position
+     * when it is allowed to scale in (see 'maxUnits').
+     */
+    positions: IPosition<StateT>[];
+
+    /**
+     * The entry order that is waiting to be filled, if any.
+     * Entering a position while an order is pending has no effect, cancel the order first to replace it.
+     */
+    pendingEntry?: IEntryOrder;
+
+    /**
+     * Cancels the pending entry order.
+     */
+    cancelEntry: CancelEntryFn;
 }
 
 /**
  * Type for a function that defines an entry rule.
  */
-export type EntryRuleFn<BarT extends IBar, ParametersT = any> = (enterPosition: EnterPositionFn, args: IEntryRuleArgs<BarT, ParametersT>) => void;
+export type EntryRuleFn<BarT extends IBar, ParametersT = any, StateT = any> = (enterPosition: EnterPositionFn, args: IEntryRuleArgs<BarT, ParametersT, StateT>) => void;
 
 /**
  * Arguments for an exit rule function.
  */
-export interface IExitRuleArgs<BarT extends IBar, ParametersT> extends IOpenPositionRuleArgs<BarT, ParametersT> {
+export interface IExitRuleArgs<BarT extends IBar, ParametersT, StateT = any> extends IOpenPositionRuleArgs<BarT, ParametersT, StateT> {
+    /**
+     * Lots held in the open position, oldest first.
+     * The 'position' argument is the oldest lot.
+     */
+    positions: IPosition<StateT>[];
 }
 
 /**
  * Type for a function that defines an exit rule.
  */
-export type ExitRuleFn<BarT extends IBar, ParametersT = any> = (exitPosition: ExitPositionFn, args: IExitRuleArgs<BarT, ParametersT>) => void;
-
+export type ExitRuleFn<BarT extends IBar, ParametersT = any, StateT = any> = (exitPosition: ExitPositionFn, args: IExitRuleArgs<BarT, ParametersT, StateT>) => void;
 
+/**
+ * @deprecated Use the 'onExit' hook, which is passed the trade.
+ */
 export interface IOnExitRuleArgs<BarT extends IBar, ParametersT> {
 }
 
-
 /**
- * Type for a function that defines an exit rule.
+ * @deprecated Use the 'onExit' hook, which is passed the trade.
  */
 export type OnExitPositionRuleFn<BarT extends IBar, ParametersT = any> = (args: IOnExitRuleArgs<BarT, ParametersT>, reason: string) => void;
 
+/**
+ * General arguments to the strategy's lifecycle hooks.
+ */
+export interface IHookArgs<ParametersT, StateT = any> {
+    /**
+     * Optimizable parameters to the trading strategy.
+     */
+    parameters: ParametersT;
+
+    /**
+     * State shared between rules and hooks (see 'IStrategy.state').
+     */
+    state: StateT;
+}
+
+/**
+ * Arguments to the 'onBar' hook.
+ */
+export interface IBarHookArgs<BarT extends IBar, ParametersT, StateT = any> extends IRuleParams<BarT, ParametersT, StateT> {
+    /**
+     * Lots held in the open position after the bar has been processed, oldest first.
+     */
+    positions: IPosition<StateT>[];
+
+    /**
+     * The entry order that is waiting to be filled, if any.
+     */
+    pendingEntry?: IEntryOrder;
+}
+
+/**
+ * Arguments to the 'onOrderPlaced' hook.
+ */
+export interface IOrderHookArgs<BarT extends IBar, ParametersT, StateT = any> extends IHookArgs<ParametersT, StateT> {
+    /**
+     * The bar in which the order was placed.
+     */
+    bar: BarT;
+
+    /**
+     * The order to enter a position.
+     */
+    order: IEntryOrder;
+}
+
+/**
+ * Why an entry order was cancelled before it was filled.
+ *
+ * cancelled:       The strategy cancelled the order.
+ * expired:         The order wasn't filled within 'goodForBars' or before 'goodUntil'.
+ * position-closed: The order was to add to a position that has been closed.
+ * complete:        The backtest completed before the order was filled.
+ * account-limit:   The order was filled but the account's limits (eg 'maxPositions' or 'maxAllocationPct'
+ *                  when backtesting a portfolio) left no room for the position.
+ * zero-quantity:   The order was filled but the position size came to no units.
+ */
+export type OrderCancelReason = "cancelled" | "expired" | "position-closed" | "complete" | "account-limit" | "zero-quantity";
+
+/**
+ * Arguments to the 'onOrderCancelled' hook.
+ */
+export interface IOrderCancelledHookArgs<BarT extends IBar, ParametersT, StateT = any> extends IOrderHookArgs<BarT, ParametersT, StateT> {
+    /**
+     * Why the order was cancelled.
+     */
+    reason: OrderCancelReason;
+}
+
+/**
+ * Arguments to the 'onEnter' hook.
+ */
+export interface IEnterHookArgs<BarT extends IBar, ParametersT, StateT = any> extends IHookArgs<ParametersT, StateT> {
+    /**
+     * The bar in which the position was entered.
+     */
+    bar: BarT;
+
+    /**
+     * The lot that was entered.
+     */
+    position: IPosition<StateT>;
+}
+
+/**
+ * Arguments to the 'onExit' hook.
+ */
+export interface IExitHookArgs<BarT extends IBar, ParametersT, StateT = any> extends IHookArgs<ParametersT, StateT> {
+    /**
+     * The bar in which the position was exited.
+     */
+    bar: BarT;
+
+    /**
+     * The lot that was exited, all or in part.
+     */
+    position: IPosition<StateT>;
+
+    /**
+     * The trade that records the exit, the reason is in 'exitReason'.
+     */
+    trade: ITrade<StateT>;
+}
+
+/**
+ * Arguments to the 'onComplete' hook.
+ */
+export interface ICompleteHookArgs<ParametersT, StateT = any> extends IHookArgs<ParametersT, StateT> {
+    /**
+     * Trades that were completed.
+     */
+    trades: ITrade<StateT>[];
+}
+
 /**
  * A collection of key/value pairs for parameters.
  */
@@ -170,6 +490,11 @@ export interface IPrepIndicatorsArgs<InputBarT extends IBar, ParametersT, IndexT
     inputSeries: IDataFrame<IndexT, InputBarT>;
 }
 
+/**
+ * A function that initialises the strategy's state for a backtest.
+ */
+export type InitStateFn<ParametersT, StateT> = (parameters: ParametersT) => StateT;
+
 /**
  * A function that prepares indicators for backtesting.
  */
@@ -178,7 +503,7 @@ export type PrepIndicatorsFn<InputBarT extends IBar, IndicatorsBarT extends Inpu
 /**
  * Interface that defines a trading strategy.
  */
-export interface IStrategy<InputBarT extends IBar = IBar, IndicatorsBarT extends InputBarT = InputBarT, ParametersT = IParameterBucket, IndexT = number> {
+export interface IStrategy<InputBarT extends IBar = IBar, IndicatorsBarT extends InputBarT = InputBarT, ParametersT = IParameterBucket, IndexT = number, StateT = any> {
 
     /**
      * Optimizable parameters to the strategy.
@@ -195,35 +520,108 @@ export interface IStrategy<InputBarT extends IBar = IBar, IndicatorsBarT extends
      */
     prepIndicators?: PrepIndicatorsFn<InputBarT, IndicatorsBarT, ParametersT, IndexT>;
 
+    /**
+     * State that is passed to every rule, so that rules can keep counters and flags between bars.
+     * Each backtest starts with fresh state: an object is copied (as JSON) and a function is called to create it.
+     * Use a function for state that can't be copied as JSON.
+     * The state is snapshot into each trade when the position is entered and exited.
+     */
+    state?: StateT | InitStateFn<ParametersT, StateT>;
+
     /**
      * Defines the rule to enter a position.
      */
-    entryRule: EntryRuleFn<IndicatorsBarT, ParametersT>;
+    entryRule: EntryRuleFn<IndicatorsBarT, ParametersT, StateT>;
 
     /**
      * Defines the rule to exit a position.
      */
-    exitRule?: ExitRuleFn<IndicatorsBarT, ParametersT>;
+    exitRule?: ExitRuleFn<IndicatorsBarT, ParametersT, StateT>;
 
     /**
-     * Function that computes intrabar stop loss distance.
-     * Return the maximum loss before an exit is triggered.
+     * Computes intrabar stop loss distance, either a function or one of the built-in stops (eg an ATR stop).
+     * A function returns the maximum loss before an exit is triggered, or the price of the stop.
      */
-    stopLoss?: StopLossFn<InputBarT, ParametersT>;
+    stopLoss?: StopLossModel<InputBarT, ParametersT, StateT>;
 
     /**
-     * Function that computes intrabar trailing stop loss distance.
-     * Return the maximum loss before an exit is triggered.
+     * Computes intrabar trailing stop loss distance, either a function or one of the built-in stops (eg a chandelier exit).
+     * A function returns the maximum loss before an exit is triggered, or the price of the stop.
      * This stop trails the current price, rising but never declining.
      */
-    trailingStopLoss?: StopLossFn<InputBarT, ParametersT>;
+    trailingStopLoss?: StopLossModel<InputBarT, ParametersT, StateT>;
     
     /**
      * Function that computes the intrabar profit target.
-     * Return the amount of profit to trigger an exit.
+     * Return the amount of profit to trigger an exit, or multiple levels to scale out of the position.
+     */
+    profitTarget?: ProfitTargetFn<InputBarT, ParametersT, StateT>;
+
+    /**
+     * Exits based on time or the number of bars a lot has been held, each recorded with its own exit reason.
+     */
+    timeExits?: ITimeExits;
+
+    /**
+     * The maximum number of lots that can be held in a position.
+     * When greater than 1 the entry rule continues to be invoked while in a position
+     * so that the strategy can scale in. Defaults to 1.
+     */
+    maxUnits?: number;
+
+    /**
+     * Determines the number of units to trade when entering a position.
+     * Requires the 'startingCapital' backtest option so that cash and equity can be tracked.
+     * Defaults to investing all equity in each position. When scaling in (see 'maxUnits') each lot added
+     * by default invests only the equity that isn't already invested, so a lot isn't added once all equity is invested.
+     * Other models size each lot from total equity and can invest more than the equity when scaling in.
+     */
+    positionSize?: PositionSizeModel<InputBarT, ParametersT, StateT>;
+
+    /**
+     * Borrow fees, hard to borrow flags and short sale restrictions for short positions.
+     */
+    shortSelling?: IShortSellingOptions<IndicatorsBarT, ParametersT, StateT>;
+
+    /**
+     * Called before the first bar is processed.
+     */
+    onStart?: (args: IHookArgs<ParametersT, StateT>) => void;
+
+    /**
+     * Called after each bar has been processed, once the lookback period is satisfied.
+     */
+    onBar?: (args: IBarHookArgs<IndicatorsBarT, ParametersT, StateT>) => void;
+
+    /**
+     * Called when the entry rule places an order.
+     */
+    onOrderPlaced?: (args: IOrderHookArgs<IndicatorsBarT, ParametersT, StateT>) => void;
+
+    /**
+     * Called when an entry order is cancelled before it is filled.
+     */
+    onOrderCancelled?: (args: IOrderCancelledHookArgs<IndicatorsBarT, ParametersT, StateT>) => void;
+
+    /**
+     * Called when a lot is entered.
+     */
+    onEnter?: (args: IEnterHookArgs<InputBarT, ParametersT, StateT>) => void;
+
+    /**
+     * Called when all or part of a lot is exited, including when the backtest completes.
+     */
+    onExit?: (args: IExitHookArgs<InputBarT, ParametersT, StateT>) => void;
+
+    /**
+     * Called when the backtest completes, after open positions have been closed.
+     */
+    onComplete?: (args: ICompleteHookArgs<ParametersT, StateT>) => void;
+
+    /**
+     * Called with the bar and the exit reason when all or part of a lot is exited.
+     *
+     * @deprecated Use 'onExit', which is passed the trade.
      */
-    profitTarget?: ProfitTargetFn<InputBarT, ParametersT>;
-    
-    
     onExistPosition?: OnExitPositionRuleFn<InputBarT>;
 }
\ No newline at end of file
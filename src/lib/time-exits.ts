@@ -0,0 +1,124 @@
+import * as dayjs from "dayjs";
+import * as timezonePlugin from "dayjs/plugin/timezone";
+import * as utcPlugin from "dayjs/plugin/utc";
+import { IBar } from "./bar";
+import { IPosition } from "./position";
+import { isNumber, isString } from "./utils";
+
+dayjs.extend(utcPlugin);
+dayjs.extend(timezonePlugin);
+
+/**
+ * The exit reason recorded on a trade that is closed by a time exit.
+ *
+ * max-bars:        The lot was held for the maximum number of bars.
+ * time-of-day:     The bar started at or after the time of day to exit.
+ * weekend:         The bar is the last of the week.
+ * date:            The bar started on or after the date to exit.
+ * no-new-high:     The lot went the maximum number of bars without a new high (or a new low for a short position).
+ */
+export type TimeExitReason = "max-bars" | "time-of-day" | "weekend" | "date" | "no-new-high";
+
+/**
+ * Exits a lot at the close of a bar based on time or the number of bars it has been held.
+ * Time exits are checked after stops and profit targets and before the exit rule, they are filled
+ * like exits requested by the exit rule (see the 'fillTiming' backtest option).
+ */
+export interface ITimeExits {
+    /**
+     * Exit after holding a lot for this many bars, not counting the entry bar.
+     */
+    maxBars?: number;
+
+    /**
+     * Exit at the close of a bar that starts at or after this time of day ("HH:mm"), eg the end of the session.
+     */
+    timeOfDay?: string;
+
+    /**
+     * Exit before the weekend, at the close of a bar that starts on a Friday (or Saturday).
+     * Set a time of day ("HH:mm") to only exit at the close of a Friday bar that starts at or after that time.
+     */
+    beforeWeekend?: boolean | string;
+
+    /**
+     * Exit at the close of a bar that starts on or after this timestamp.
+     */
+    exitDate?: number;
+
+    /**
+     * Exit after this many bars without a new high for a long position (or a new low for a short position).
+     */
+    maxBarsWithoutNewHigh?: number;
+
+    /**
+     * Timezone for times of day and days of the week, eg "America/New_York".
+     * Defaults to "UTC".
+     */
+    timezone?: string;
+}
+
+//
+// Converts a time of day ("HH:mm") to minutes since midnight.
+//
+function minutesSinceMidnight(timeOfDay: string, optionName: string): number {
+    const match = isString(timeOfDay) ? /^(\d{1,2}):(\d{2})$/.exec(timeOfDay) : null;
+    if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+        throw new Error(`Expected '${optionName}' time exit to be a time of day in the format "HH:mm", Actual: "${timeOfDay}".`);
+    }
+    return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/**
+ * Check if a lot should be exited at the close of a bar.
+ * Returns the reason for the exit, or undefined when the lot isn't exited.
+ *
+ * @param timeExits The time exits to check.
+ * @param bar The current bar.
+ * @param position The lot, updated for the current bar.
+ */
+export function checkTimeExits(timeExits: ITimeExits, bar: IBar, position: IPosition): TimeExitReason | undefined {
+    if (timeExits.maxBars !== undefined) {
+        if (!isNumber(timeExits.maxBars) || timeExits.maxBars < 1) {
+            throw new Error(`Expected 'maxBars' time exit to be a number that is at least 1, Actual: "${timeExits.maxBars}".`);
+        }
+        if (position.holdingPeriod >= timeExits.maxBars) {
+            return "max-bars";
+        }
+    }
+
+    const local = dayjs(bar.time).tz(timeExits.timezone || "UTC");
+    const barMinutes = local.hour() * 60 + local.minute();
+
+    if (timeExits.timeOfDay !== undefined && barMinutes >= minutesSinceMidnight(timeExits.timeOfDay, "timeOfDay")) {
+        return "time-of-day";
+    }
+
+    if (timeExits.beforeWeekend) {
+        const isFriday = local.day() === 5;
+        const isSaturday = local.day() === 6;
+        if (isString(timeExits.beforeWeekend)) {
+            if (isSaturday || (isFriday && barMinutes >= minutesSinceMidnight(timeExits.beforeWeekend, "beforeWeekend"))) {
+                return "weekend";
+            }
+        }
+        else if (isFriday || isSaturday) {
+            return "weekend";
+        }
+    }
+
+    if (timeExits.exitDate !== undefined && bar.time >= timeExits.exitDate) {
+        return "date";
+    }
+
+    if (timeExits.maxBarsWithoutNewHigh !== undefined) {
+        if (!isNumber(timeExits.maxBarsWithoutNewHigh) || timeExits.maxBarsWithoutNewHigh < 1) {
+            throw new Error(`Expected 'maxBarsWithoutNewHigh' time exit to be a number that is at least 1, Actual: "${timeExits.maxBarsWithoutNewHigh}".`);
+        }
+        if ((position.barsSinceBestPrice || 0) >= timeExits.maxBarsWithoutNewHigh) {
+            return "no-new-high";
+        }
+    }
+
+    return undefined;
+}
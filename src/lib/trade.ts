@@ -17,8 +17,19 @@ export interface ITimestampedValue {
 
 /**
  * Interface that defines a trade.
+ * 'StateT' is the type of the strategy's state (see 'IStrategy.state').
  */
-export interface ITrade {
+export interface ITrade<StateT = unknown> {
+  /**
+   * Symbol of the instrument traded (when backtesting a portfolio).
+   */
+  symbol?: string;
+
+  /**
+   * Identifies the position the trade closed, trades from lots of the same position share its id.
+   */
+  positionId?: number;
+
   /**
    * The direction of the trade.
    * Long or short.
@@ -35,6 +46,11 @@ export interface ITrade {
    */
   entryPrice: number;
 
+  /**
+   * The price the entry was intended to fill at before slippage (if a slippage model is applied).
+   */
+  intendedEntryPrice?: number;
+
   /**
    * Timestamp when the position was exited.
    */
@@ -46,10 +62,61 @@ export interface ITrade {
   exitPrice: number;
 
   /**
-   * Net profit or loss.
+   * The price the exit was intended to fill at before slippage (if a slippage model is applied).
+   */
+  intendedExitPrice?: number;
+
+  /**
+   * The number of units traded (if trading with capital).
+   */
+  quantity?: number;
+
+  /**
+   * The proportion of the position closed by this trade, only set when the position was closed in parts.
+   * Growth of the trade is scaled by this proportion.
+   */
+  exitFraction?: number;
+
+  /**
+   * Value of the position when it was entered, entry price * quantity (if trading with capital).
+   */
+  notional?: number;
+
+  /**
+   * Commission charged when the position was entered (if a commission model is applied).
+   */
+  entryCommission?: number;
+
+  /**
+   * Commission charged when the position was exited (if a commission model is applied).
+   */
+  exitCommission?: number;
+
+  /**
+   * Fees paid to borrow the instrument while the trade was held short (when a borrow rate is set).
+   */
+  borrowFees?: number;
+
+  /**
+   * Set when the trade was held short while the instrument was hard to borrow.
+   */
+  hardToBorrow?: boolean;
+
+  /**
+   * Dividends received by a long trade (positive) or paid by a short trade (negative), included in profit.
+   */
+  dividends?: number;
+
+  /**
+   * Net profit or loss per unit, after commission, borrow fees and dividends.
    */
   profit: number;
 
+  /**
+   * Net profit or loss in dollars, profit * quantity (if trading with capital).
+   */
+  pnl?: number;
+
   /**
    * Profit expressed as a percentage.
    */
@@ -85,11 +152,38 @@ export interface ITrade {
    */
   entryReason?: string;
 
+  /**
+   * Tag the strategy gave the entry.
+   */
+  tag?: string;
+
+  /**
+   * Snapshot of the strategy's state when the position was entered (when the strategy defines state).
+   */
+  entryState?: StateT;
+
+  /**
+   * Snapshot of the strategy's state when the position was exited (when the strategy defines state).
+   */
+  exitState?: StateT;
+
   /**
    * The reason the position was exited.
    */
   exitReason: string;
 
+  /**
+   * Set when the price gapped through the stop loss or profit target and the exit filled at the open of the bar.
+   */
+  gapFill?: boolean;
+
+  /**
+   * How the order of the exits was decided when the bar that exited the trade reached both the stop loss
+   * and the profit target, eg "stop-first" (the default), "pessimistic", "ohlc" or "drill-down"
+   * (see the 'intrabarPath' backtest option). "open" means the bar opened beyond one of the levels.
+   */
+  intrabarResolution?: string;
+
   /**
    * Price where stop loss exit is triggered.
    */
@@ -106,7 +200,56 @@ export interface ITrade {
   profitTarget?: number;
 
   /**
-   * Highest price recorded while in an entry
+   * Most favourable price recorded from the body of bars while in an entry,
+   * the highest price for a long trade and the lowest price for a short trade.
    */
   maxPriceRecorded: number;
+
+  /**
+   * Maximum adverse excursion, the furthest the price moved against the trade, from the highs and lows of bars.
+   * Measured from the entry price to the exit price and the bars in between.
+   */
+  mae?: number;
+
+  /**
+   * Maximum adverse excursion as a percentage of the entry price.
+   */
+  maePct?: number;
+
+  /**
+   * Maximum adverse excursion as a multiple of the initial unit risk (when a stop loss is used).
+   */
+  maeR?: number;
+
+  /**
+   * Maximum favourable excursion, the furthest the price moved in favour of the trade, from the highs and lows of bars.
+   * Measured from the entry price to the exit price and the bars in between.
+   */
+  mfe?: number;
+
+  /**
+   * Maximum favourable excursion as a percentage of the entry price.
+   */
+  mfePct?: number;
+
+  /**
+   * Maximum favourable excursion as a multiple of the initial unit risk (when a stop loss is used).
+   */
+  mfeR?: number;
+}
+
+/**
+ * Compute the capital after a trade.
+ * Trades with dollar profit and loss (from capital-aware backtesting) add their pnl to capital,
+ * otherwise all capital is assumed to be invested in the trade and is compounded by its growth.
+ *
+ * @param workingCapital The capital before the trade.
+ * @param trade The trade to apply.
+ */
+export function applyTradeToCapital(workingCapital: number, trade: ITrade): number {
+  if (trade.pnl !== undefined) {
+    return workingCapital + trade.pnl;
+  }
+
+  return workingCapital * trade.growth;
 }
@@ -32,6 +32,21 @@ export function isArray(v: any): v is Array<any> {
     return t(v).isArray;
 }
 
+export function isIterable<T>(v: any): v is Iterable<T> | AsyncIterable<T> {
+    return v !== null && v !== undefined
+        && (isFunction(v[Symbol.iterator]) || isFunction(v[Symbol.asyncIterator]));
+}
+
 export function isUndefined(v: any): boolean {
     return v === undefined;
 }
+
+//
+// Percentile of values sorted in ascending order, linearly interpolated between the closest ranks.
+//
+export function percentile(sortedValues: number[], proportion: number): number {
+    const rank = proportion * (sortedValues.length - 1);
+    const lower = Math.floor(rank);
+    const upper = Math.ceil(rank);
+    return sortedValues[lower] + (sortedValues[upper] - sortedValues[lower]) * (rank - lower);
+}
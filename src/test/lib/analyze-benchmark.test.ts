@@ -0,0 +1,106 @@
+import { expect } from 'chai';
+import { DataFrame, IDataFrame } from 'data-forge';
+import * as moment from 'dayjs';
+import { analyzeAgainstBenchmark } from '../../lib/analyze-benchmark';
+import { backtestWithResults } from '../../lib/backtest';
+import { IBar } from '../../lib/bar';
+import { IStrategy } from '../../lib/strategy';
+import { ITimestampedValue } from '../../lib/trade';
+
+describe("analyze against benchmark", () => {
+
+    function makeTime(dateStr: string): number {
+        return moment(dateStr, "YYYY/MM/DD").valueOf();
+    }
+
+    function makeDataSeries(bars: { time: string, close: number }[]): IDataFrame<number, IBar> {
+        return new DataFrame<number, IBar>(bars.map(bar => ({
+            time: makeTime(bar.time),
+            open: bar.close,
+            high: bar.close,
+            low: bar.close,
+            close: bar.close,
+            volume: 1,
+        })));
+    }
+
+    function makeEquityCurve(points: [string, number][]): ITimestampedValue[] {
+        return points.map(([ time, value ]) => ({ time: makeTime(time), value }));
+    }
+
+    // Returns: +10%, -10%, +10%.
+    const benchmark = makeDataSeries([
+        { time: "2018/10/20", close: 100 },
+        { time: "2018/10/21", close: 110 },
+        { time: "2018/10/22", close: 99 },
+        { time: "2018/10/23", close: 108.9 },
+    ]);
+
+    // Returns: +20%, -20%, +20%, twice the benchmark.
+    const equityCurve = makeEquityCurve([
+        [ "2018/10/20", 1000 ],
+        [ "2018/10/21", 1200 ],
+        [ "2018/10/22", 960 ],
+        [ "2018/10/23", 1152 ],
+    ]);
+
+    it("reports returns of the strategy and the benchmark", () => {
+        const analysis = analyzeAgainstBenchmark(equityCurve, benchmark);
+        expect(analysis.strategyReturnPct).to.be.closeTo(15.2, 0.0001);
+        expect(analysis.benchmarkReturnPct).to.be.closeTo(8.9, 0.0001);
+        expect(analysis.excessReturnPct).to.be.closeTo(6.3, 0.0001);
+    });
+
+    it("reports equity from buying and holding the benchmark", () => {
+        const analysis = analyzeAgainstBenchmark(equityCurve, benchmark);
+        expect(analysis.benchmarkEquityCurve.map(point => point.value)).to.eql([ 1000, 1100, 990, 1089 ]);
+        expect(analysis.benchmarkEquityCurve[0].time).to.eql(makeTime("2018/10/20"));
+    });
+
+    it("computes alpha, beta and correlation", () => {
+        const analysis = analyzeAgainstBenchmark(equityCurve, benchmark);
+        expect(analysis.beta).to.be.closeTo(2, 0.0001);
+        expect(analysis.correlation).to.be.closeTo(1, 0.0001);
+        expect(analysis.alphaPct).to.be.closeTo(0, 0.0001);
+    });
+
+    it("computes tracking error and information ratio", () => {
+        const analysis = analyzeAgainstBenchmark(equityCurve, benchmark, { barsPerYear: 1 });
+        // Active returns are +10%, -10%, +10%.
+        const trackingError = Math.sqrt(0.08 / 3 / 2);
+        expect(analysis.trackingErrorPct).to.be.closeTo(trackingError * 100, 0.0001);
+        expect(analysis.informationRatio).to.be.closeTo((0.1 / 3) / trackingError, 0.0001);
+    });
+
+    it("computes up and down capture", () => {
+        const analysis = analyzeAgainstBenchmark(equityCurve, benchmark);
+        expect(analysis.upCapture).to.be.closeTo(2, 0.0001);
+        expect(analysis.downCapture).to.be.closeTo(2, 0.0001);
+    });
+
+    it("computes the percentage of time the strategy beat the benchmark", () => {
+        const analysis = analyzeAgainstBenchmark(equityCurve, benchmark);
+        expect(analysis.pctTimeBeatBenchmark).to.be.closeTo(200 / 3, 0.0001);
+    });
+
+    it("only compares times where both the strategy and the benchmark have a value", () => {
+        const analysis = analyzeAgainstBenchmark(equityCurve.slice(1), benchmark);
+        expect(analysis.benchmarkEquityCurve.map(point => point.value)).to.eql([ 1200, 1080, 1188 ]);
+    });
+
+    it("can compare a backtest against buying and holding its input series", () => {
+        const strategy: IStrategy = {
+            entryRule: enterPosition => enterPosition(),
+        };
+
+        const result = backtestWithResults(strategy, benchmark, { startingCapital: 1000, recordEquityCurve: true });
+        const analysis = analyzeAgainstBenchmark(result.equityCurve!, benchmark);
+        expect(analysis.strategyReturnPct).to.be.closeTo(-1, 0.0001);
+        expect(analysis.benchmarkReturnPct).to.be.closeTo(8.9, 0.0001);
+        expect(analysis.upCapture).to.be.closeTo(0.5, 0.0001); // Missed the first rise.
+    });
+
+    it("throws when the strategy and the benchmark don't overlap", () => {
+        expect(() => analyzeAgainstBenchmark(equityCurve, makeDataSeries([ { time: "2018/11/20", close: 100 } ]))).to.throw();
+    });
+});
@@ -0,0 +1,123 @@
+import { expect } from 'chai';
+import { DataFrame, IDataFrame } from 'data-forge';
+import * as moment from 'dayjs';
+import { analyzeBy } from '../../lib/analyze-by';
+import { backtest } from '../../lib/backtest';
+import { IBar } from '../../lib/bar';
+import { IStrategy, TradeDirection } from '../../lib/strategy';
+import { ITrade } from '../../lib/trade';
+
+describe("analyze by", () => {
+
+    function makeTime(dateStr: string): number {
+        return Date.parse(dateStr);
+    }
+
+    function makeTrade(entryTime: string, profit: number, holdingPeriod: number, fields?: Partial<ITrade>): ITrade {
+        return {
+            direction: TradeDirection.Long,
+            entryTime: makeTime(entryTime),
+            entryPrice: 100,
+            exitTime: makeTime(entryTime),
+            exitPrice: 100 + profit,
+            profit,
+            profitPct: profit,
+            growth: 1 + profit / 100,
+            holdingPeriod,
+            exitReason: "exit-rule",
+            maxPriceRecorded: 100,
+            ...fields,
+        };
+    }
+
+    const trades = [
+        makeTrade("2018-10-22T12:00:00Z", 10, 1, { exitReason: "profit-target" }),             // Monday.
+        makeTrade("2018-10-23T12:00:00Z", 5, 3),                                                // Tuesday.
+        makeTrade("2018-10-29T12:00:00Z", -4, 7, { direction: TradeDirection.Short }),          // Monday.
+        makeTrade("2018-11-05T12:00:00Z", -2, 2, { exitReason: "stop-loss", tag: "breakout" }), // Monday.
+        makeTrade("2018-11-06T12:00:00Z", 8, 30, { tag: "breakout" }),                          // Tuesday.
+    ];
+
+    it("groups trades by direction", () => {
+        const groups = analyzeBy(1000, trades, "direction");
+        expect(Object.keys(groups)).to.eql([ "long", "short" ]);
+        expect(groups.long.analysis.totalTrades).to.eql(4);
+        expect(groups.short.analysis.totalTrades).to.eql(1);
+        expect(groups.short.trades).to.eql([ trades[2] ]);
+    });
+
+    it("groups trades by exit reason", () => {
+        const groups = analyzeBy(1000, trades, "exitReason");
+        expect(Object.keys(groups)).to.eql([ "profit-target", "exit-rule", "stop-loss" ]);
+        expect(groups["exit-rule"].analysis.totalTrades).to.eql(3);
+    });
+
+    it("groups trades by tag", () => {
+        const groups = analyzeBy(1000, trades, "tag");
+        expect(Object.keys(groups)).to.eql([ "untagged", "breakout" ]);
+        expect(groups.breakout.analysis.numWinningTrades).to.eql(1);
+    });
+
+    it("groups trades by weekday and month of entry", () => {
+        const weekdayGroups = analyzeBy(1000, trades, "weekday");
+        expect(Object.keys(weekdayGroups)).to.eql([ "Monday", "Tuesday" ]);
+        expect(weekdayGroups.Monday.analysis.totalTrades).to.eql(3);
+
+        const monthGroups = analyzeBy(1000, trades, "month");
+        expect(Object.keys(monthGroups)).to.eql([ "October", "November" ]);
+    });
+
+    it("weekday is found in the configured timezone", () => {
+        const groups = analyzeBy(1000, [ makeTrade("2018-10-23T02:00:00Z", 1, 1) ], "weekday", { timezone: "America/New_York" });
+        expect(Object.keys(groups)).to.eql([ "Monday" ]);
+    });
+
+    it("groups trades by holding period bucket", () => {
+        const groups = analyzeBy(1000, trades, "holdingPeriod");
+        expect(Object.keys(groups)).to.eql([ "0-1", "2-5", "6-10", "21+" ]);
+        expect(groups["2-5"].analysis.totalTrades).to.eql(2);
+
+        const customGroups = analyzeBy(1000, trades, "holdingPeriod", { holdingPeriodBuckets: [ 5 ] });
+        expect(Object.keys(customGroups)).to.eql([ "0-5", "6+" ]);
+    });
+
+    it("groups trades with a custom function", () => {
+        const groups = analyzeBy(1000, trades, trade => trade.profit > 5 ? "big" : "small");
+        expect(Object.keys(groups)).to.eql([ "big", "small" ]);
+    });
+
+    it("computes streaks, holding periods and largest win and loss", () => {
+        const groups = analyzeBy(1000, trades, "direction");
+        const long = groups.long;
+        expect(long.maxConsecutiveWins).to.eql(2);
+        expect(long.maxConsecutiveLosses).to.eql(1);
+        expect(long.averageWinningHoldingPeriod).to.eql(34 / 3);
+        expect(long.averageLosingHoldingPeriod).to.eql(2);
+        expect(long.largestWin).to.eql(10);
+        expect(long.largestLoss).to.eql(-2);
+    });
+
+    it("throws for an unknown key", () => {
+        expect(() => analyzeBy(1000, trades, "colour" as any)).to.throw();
+    });
+
+    it("can tag trades from the entry rule", () => {
+        const strategy: IStrategy = {
+            entryRule: (enterPosition, args) => enterPosition({ tag: args.bar.close > 10 ? "high" : "low" }),
+            exitRule: exitPosition => exitPosition(),
+        };
+
+        const inputSeries: IDataFrame<number, IBar> = new DataFrame<number, IBar>([ 10, 11, 12, 13, 14 ].map((close, index) => ({
+            time: moment("2018/10/20", "YYYY/MM/DD").add(index, "day").valueOf(),
+            open: close,
+            high: close,
+            low: close,
+            close,
+            volume: 1,
+        })));
+
+        const backtestTrades = backtest(strategy, inputSeries);
+        expect(backtestTrades.map(trade => trade.tag)).to.eql([ "low", "high" ]);
+        expect(Object.keys(analyzeBy(1000, backtestTrades, "tag"))).to.eql([ "low", "high" ]);
+    });
+});
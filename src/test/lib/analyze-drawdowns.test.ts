@@ -0,0 +1,133 @@
+import { expect } from 'chai';
+import * as moment from 'dayjs';
+import { analyzeDrawdowns } from '../../lib/analyze-drawdowns';
+import { TradeDirection } from '../../lib/strategy';
+import { ITimestampedValue, ITrade } from '../../lib/trade';
+
+describe("analyze drawdowns", () => {
+
+    function makeTime(dateStr: string): number {
+        return moment(dateStr, "YYYY/MM/DD").valueOf();
+    }
+
+    function makeEquityCurve(points: [string, number][]): ITimestampedValue[] {
+        return points.map(([ time, value ]) => ({ time: makeTime(time), value }));
+    }
+
+    const oneDay = 24 * 60 * 60 * 1000;
+
+    const equityCurve = makeEquityCurve([
+        [ "2018/10/20", 100 ],
+        [ "2018/10/21", 110 ], // Peak.
+        [ "2018/10/22", 99 ],  // Trough.
+        [ "2018/10/23", 105 ],
+        [ "2018/10/24", 110 ], // Recovered.
+        [ "2018/10/25", 120 ], // Peak.
+        [ "2018/10/26", 114 ],
+        [ "2018/10/27", 90 ],  // Trough, never recovered.
+        [ "2018/10/28", 100 ],
+    ]);
+
+    it("equity curve without drawdown has no episodes", () => {
+        const analysis = analyzeDrawdowns(makeEquityCurve([ [ "2018/10/20", 100 ], [ "2018/10/21", 110 ] ]));
+        expect(analysis.episodes).to.eql([]);
+        expect(analysis.longestEpisode).to.eql(undefined);
+        expect(analysis.maxLength).to.eql(0);
+        expect(analysis.averageDepth).to.eql(0);
+    });
+
+    it("identifies each drawdown episode", () => {
+        const analysis = analyzeDrawdowns(equityCurve);
+        expect(analysis.episodes).to.eql([
+            {
+                peakTime: makeTime("2018/10/21"),
+                peakValue: 110,
+                troughTime: makeTime("2018/10/22"),
+                troughValue: 99,
+                recoveryTime: makeTime("2018/10/24"),
+                depth: -11,
+                depthPct: -10,
+                length: 3,
+                duration: 3 * oneDay,
+            },
+            {
+                peakTime: makeTime("2018/10/25"),
+                peakValue: 120,
+                troughTime: makeTime("2018/10/27"),
+                troughValue: 90,
+                depth: -30,
+                depthPct: -25,
+                length: 3,
+                duration: 3 * oneDay,
+            },
+        ]);
+    });
+
+    it("reports the longest time under water", () => {
+        const analysis = analyzeDrawdowns(makeEquityCurve([
+            [ "2018/10/20", 100 ],
+            [ "2018/10/21", 90 ],
+            [ "2018/10/22", 100 ],
+            [ "2018/10/23", 95 ],
+            [ "2018/10/24", 96 ],
+            [ "2018/10/30", 101 ],
+        ]));
+        expect(analysis.longestEpisode!.peakTime).to.eql(makeTime("2018/10/22"));
+        expect(analysis.maxLength).to.eql(3);
+        expect(analysis.maxDuration).to.eql(8 * oneDay);
+    });
+
+    it("reports the average drawdown", () => {
+        const analysis = analyzeDrawdowns(equityCurve);
+        expect(analysis.averageDepth).to.eql(-20.5);
+        expect(analysis.averageDepthPct).to.eql(-17.5);
+    });
+
+    it("reports the worst drawdowns, deepest first", () => {
+        const analysis = analyzeDrawdowns(equityCurve);
+        expect(analysis.worstEpisodes.map(episode => episode.depthPct)).to.eql([ -25, -10 ]);
+
+        const worstAnalysis = analyzeDrawdowns(equityCurve, { numWorst: 1 });
+        expect(worstAnalysis.worstEpisodes.map(episode => episode.depthPct)).to.eql([ -25 ]);
+    });
+
+    function makeTrade(entryTime: string, exitTime: string, growth: number): ITrade {
+        return {
+            direction: TradeDirection.Long,
+            entryTime: makeTime(entryTime),
+            entryPrice: 10,
+            exitTime: makeTime(exitTime),
+            exitPrice: 10 * growth,
+            profit: 10 * growth - 10,
+            profitPct: (growth - 1) * 100,
+            growth,
+            riskPct: undefined,
+            rmultiple: undefined,
+            holdingPeriod: 1,
+            exitReason: "Sell",
+            maxPriceRecorded: 10,
+        };
+    }
+
+    it("can analyse drawdowns from trades", () => {
+        const analysis = analyzeDrawdowns(1000, [
+            makeTrade("2018/10/20", "2018/10/22", 1.1),
+            makeTrade("2018/10/23", "2018/10/25", 0.5),
+            makeTrade("2018/10/26", "2018/10/29", 2.5),
+        ]);
+        expect(analysis.episodes.length).to.eql(1);
+        expect(analysis.episodes[0].peakTime).to.eql(makeTime("2018/10/22"));
+        expect(analysis.episodes[0].troughValue).to.eql(550);
+        expect(analysis.episodes[0].depthPct).to.eql(-50);
+        expect(analysis.episodes[0].recoveryTime).to.eql(makeTime("2018/10/29"));
+        expect(analysis.episodes[0].length).to.eql(2);
+    });
+
+    it("no trades has no drawdowns", () => {
+        expect(analyzeDrawdowns(1000, []).episodes).to.eql([]);
+    });
+
+    it("throws for invalid starting capital", () => {
+        expect(() => analyzeDrawdowns(0, [])).to.throw();
+    });
+});
@@ -0,0 +1,119 @@
+import { expect } from 'chai';
+import { DataFrame, IDataFrame } from 'data-forge';
+import * as moment from 'dayjs';
+import { analyzeExcursions } from '../../lib/analyze-excursions';
+import { backtest } from '../../lib/backtest';
+import { IBar } from '../../lib/bar';
+import { IStrategy, TradeDirection } from '../../lib/strategy';
+import { ITrade } from '../../lib/trade';
+
+describe("analyze excursions", () => {
+
+    function makeTime(dateStr: string): number {
+        return moment(dateStr, "YYYY/MM/DD").valueOf();
+    }
+
+    function makeDataSeries(bars: { time: string, open: number, high: number, low: number, close: number }[]): IDataFrame<number, IBar> {
+        return new DataFrame<number, IBar>(bars.map(bar => ({ ...bar, time: makeTime(bar.time), volume: 1 })));
+    }
+
+    const inputSeries = makeDataSeries([
+        { time: "2018/10/20", open: 100, high: 100, low: 100, close: 100 },
+        { time: "2018/10/21", open: 100, high: 103, low: 98, close: 101 },  // Entry day.
+        { time: "2018/10/22", open: 101, high: 108, low: 96, close: 104 },
+        { time: "2018/10/23", open: 104, high: 105, low: 101, close: 102 },
+    ]);
+
+    it("records excursions of a long trade from bar highs and lows", () => {
+        const strategy: IStrategy = {
+            entryRule: enterPosition => enterPosition(),
+            stopLoss: () => 5,
+        };
+
+        const trades = backtest(strategy, inputSeries);
+        expect(trades[0].mae).to.eql(4);
+        expect(trades[0].maePct).to.eql(4);
+        expect(trades[0].maeR).to.eql(0.8);
+        expect(trades[0].mfe).to.eql(8);
+        expect(trades[0].mfePct).to.eql(8);
+        expect(trades[0].mfeR).to.eql(1.6);
+    });
+
+    it("records excursions of a short trade from bar highs and lows", () => {
+        const strategy: IStrategy = {
+            entryRule: enterPosition => enterPosition({ direction: TradeDirection.Short }),
+        };
+
+        const trades = backtest(strategy, inputSeries);
+        expect(trades[0].mae).to.eql(8);
+        expect(trades[0].mfe).to.eql(4);
+        expect(trades[0].maeR).to.eql(undefined);
+    });
+
+    it("excursion of a stopped out trade is limited to the exit price", () => {
+        const strategy: IStrategy = {
+            entryRule: enterPosition => enterPosition(),
+            stopLoss: () => 3,
+        };
+
+        const trades = backtest(strategy, inputSeries, { intrabarPath: { type: "pessimistic" } });
+        expect(trades[0].exitReason).to.eql("stop-loss");
+        expect(trades[0].exitPrice).to.eql(97);
+        expect(trades[0].mae).to.eql(3);
+        expect(trades[0].mfe).to.eql(3);
+    });
+
+    function makeTrade(profitPct: number, maePct: number, mfePct: number, maeR?: number, mfeR?: number): ITrade {
+        return {
+            direction: TradeDirection.Long,
+            entryTime: makeTime("2018/10/20"),
+            entryPrice: 100,
+            exitTime: makeTime("2018/10/21"),
+            exitPrice: 100 + profitPct,
+            profit: profitPct,
+            profitPct,
+            growth: 1 + profitPct / 100,
+            holdingPeriod: 1,
+            exitReason: "exit-rule",
+            maxPriceRecorded: 100,
+            maePct,
+            mfePct,
+            maeR,
+            mfeR,
+        };
+    }
+
+    it("produces scatter data for trades with excursions", () => {
+        const trade = makeTrade(2, 1, 3, 0.5, 1.5);
+        const analysis = analyzeExcursions([ trade, { ...trade, maePct: undefined, mfePct: undefined } ]);
+        expect(analysis.points).to.eql([
+            { maePct: 1, mfePct: 3, maeR: 0.5, mfeR: 1.5, profitPct: 2, isWinner: true },
+        ]);
+    });
+
+    it("suggests stop and target levels from the distribution of excursions", () => {
+        const trades = [
+            makeTrade(4, 1, 5, 0.5, 2.5),
+            makeTrade(2, 2, 3, 1, 1.5),
+            makeTrade(6, 3, 7, 1.5, 3.5),
+            makeTrade(-5, 5, 1, 2.5, 0.5),
+        ];
+
+        const analysis = analyzeExcursions(trades, { stopPercentile: 1, targetPercentile: 0.5 });
+        expect(analysis.suggestedStopPct).to.eql(3);
+        expect(analysis.suggestedTargetPct).to.eql(4);
+        expect(analysis.suggestedStopR).to.eql(1.5);
+        expect(analysis.suggestedTargetR).to.eql(2);
+    });
+
+    it("no suggestions without trades", () => {
+        const analysis = analyzeExcursions([]);
+        expect(analysis.points).to.eql([]);
+        expect(analysis.suggestedStopPct).to.eql(undefined);
+        expect(analysis.suggestedTargetPct).to.eql(undefined);
+    });
+
+    it("throws for an invalid percentile", () => {
+        expect(() => analyzeExcursions([], { stopPercentile: 2 })).to.throw();
+    });
+});
@@ -0,0 +1,191 @@
+import { expect } from 'chai';
+import { DataFrame, IDataFrame } from 'data-forge';
+import * as moment from 'dayjs';
+import { backtest } from '../../lib/backtest';
+import { IBar } from '../../lib/bar';
+import { IStrategy, TradeDirection } from '../../lib/strategy';
+
+describe("backtest corporate actions", () => {
+
+    function makeTime(dateStr: string): number {
+        return moment(dateStr, "YYYY/MM/DD").valueOf();
+    }
+
+    interface IBarDef {
+        time: string;
+        open?: number;
+        low?: number;
+        close: number;
+        dividend?: number;
+        splitRatio?: number;
+    }
+
+    function makeDataSeries(bars: IBarDef[]): IDataFrame<number, IBar> {
+        return new DataFrame<number, IBar>(bars.map(bar => ({
+            time: makeTime(bar.time),
+            open: bar.open !== undefined ? bar.open : bar.close,
+            high: Math.max(bar.open !== undefined ? bar.open : bar.close, bar.close),
+            low: bar.low !== undefined ? bar.low : Math.min(bar.open !== undefined ? bar.open : bar.close, bar.close),
+            close: bar.close,
+            volume: 1,
+            dividend: bar.dividend,
+            splitRatio: bar.splitRatio,
+        })));
+    }
+
+    const dividendSeries = makeDataSeries([
+        { time: "2018/10/20", close: 100 },
+        { time: "2018/10/21", close: 100 },              // Entered position.
+        { time: "2018/10/22", close: 98, dividend: 2 },  // Ex-dividend.
+        { time: "2018/10/23", close: 98 },
+    ]);
+
+    it("long position is credited with dividends", () => {
+        const strategy: IStrategy = {
+            entryRule: enterPosition => enterPosition(),
+            positionSize: { type: "fixed-units", units: 10 },
+        };
+
+        const trades = backtest(strategy, dividendSeries, { startingCapital: 10000 });
+        expect(trades[0].dividends).to.eql(20);
+        expect(trades[0].profit).to.eql(0);
+        expect(trades[0].pnl).to.eql(0);
+        expect(trades[0].growth).to.eql(1);
+    });
+
+    it("short position is debited with dividends", () => {
+        const strategy: IStrategy = {
+            entryRule: enterPosition => enterPosition({ direction: TradeDirection.Short }),
+        };
+
+        const trades = backtest(strategy, dividendSeries);
+        expect(trades[0].dividends).to.eql(-2);
+        expect(trades[0].profit).to.eql(0);
+    });
+
+    it("position entered on the ex-dividend date doesn't receive the dividend", () => {
+        const strategy: IStrategy = {
+            entryRule: (enterPosition, args) => {
+                if (args.bar.close === 100 && args.bar.time === makeTime("2018/10/21")) {
+                    enterPosition();
+                }
+            },
+        };
+
+        const trades = backtest(strategy, dividendSeries);
+        expect(trades[0].entryTime).to.eql(makeTime("2018/10/22"));
+        expect(trades[0].dividends).to.eql(undefined);
+    });
+
+    const splitSeries = makeDataSeries([
+        { time: "2018/10/20", close: 100 },
+        { time: "2018/10/21", close: 100 },                        // Entered position.
+        { time: "2018/10/22", open: 50, low: 48, close: 52, splitRatio: 2 }, // 2-for-1 split.
+        { time: "2018/10/23", close: 55 },
+    ]);
+
+    it("split adjusts the entry price, stop and quantity of an open position", () => {
+        const strategy: IStrategy = {
+            entryRule: enterPosition => enterPosition(),
+            stopLoss: () => 10,
+            positionSize: { type: "fixed-units", units: 10 },
+        };
+
+        const trades = backtest(strategy, splitSeries, { startingCapital: 10000, intrabarPath: { type: "pessimistic" } });
+        expect(trades.length).to.eql(1);
+        expect(trades[0].exitReason).to.eql("finalize"); // Not stopped out by the split.
+        expect(trades[0].entryPrice).to.eql(50);
+        expect(trades[0].stopPrice).to.eql(45);
+        expect(trades[0].quantity).to.eql(20);
+        expect(trades[0].pnl).to.eql(100);
+        expect(trades[0].growth).to.eql(1.1);
+    });
+
+    it("split adjusts the profit target of an open position", () => {
+        const strategy: IStrategy = {
+            entryRule: enterPosition => enterPosition(),
+            profitTarget: () => 8,
+        };
+
+        const trades = backtest(strategy, splitSeries);
+        expect(trades[0].profitTarget).to.eql(54);
+        expect(trades[0].exitReason).to.eql("profit-target");
+        expect(trades[0].exitPrice).to.eql(55); // Gapped through the target.
+    });
+
+    it("split adjusts the price of a pending entry order", () => {
+        let entered = false;
+        const strategy: IStrategy = {
+            entryRule: enterPosition => {
+                if (!entered) {
+                    entered = true;
+                    enterPosition({ orderType: "limit", limitPrice: 98 });
+                }
+            },
+        };
+
+        const trades = backtest(strategy, splitSeries);
+        expect(trades[0].entryTime).to.eql(makeTime("2018/10/22"));
+        expect(trades[0].entryPrice).to.eql(49);
+    });
+
+    it("split adjusts the bars that trailing stops are computed from", () => {
+        let entered = false;
+        const strategy: IStrategy = {
+            lookbackPeriod: 11,
+            entryRule: enterPosition => {
+                if (!entered) {
+                    entered = true;
+                    enterPosition();
+                }
+            },
+            trailingStopLoss: { type: "chandelier", multiple: 3, period: 10 },
+        };
+
+        // The price is flat through the 2-for-1 split.
+        const bars: IBarDef[] = [];
+        for (let day = 1; day <= 12; ++day) {
+            bars.push({ time: `2018/10/${day}`, low: 99, close: 100 });
+        }
+        bars.push({ time: "2018/10/13", low: 49.5, close: 50, splitRatio: 2 });
+        bars.push({ time: "2018/10/14", low: 49.5, close: 50 });
+        bars.push({ time: "2018/10/15", low: 49.5, close: 50 });
+
+        const trades = backtest(strategy, makeDataSeries(bars), { recordStopPrice: true });
+        expect(trades.length).to.eql(1);
+        expect(trades[0].exitReason).to.eql("finalize"); // Not stopped out by the split.
+        expect(trades[0].stopPriceSeries!.map(point => point.value)).to.eql([ 97, 48.5, 48.5, 48.5 ]);
+    });
+
+    it("split isn't a decline that triggers the alternative uptick rule", () => {
+        const strategy: IStrategy = {
+            entryRule: enterPosition => enterPosition({ direction: TradeDirection.Short }),
+            shortSelling: {
+                restriction: { type: "alternative-uptick" },
+            },
+        };
+
+        const inputSeries = makeDataSeries([
+            { time: "2018/10/20", close: 100 },
+            { time: "2018/10/21", low: 49.5, close: 50, splitRatio: 2 }, // Entered position.
+            { time: "2018/10/22", close: 50 },
+        ]);
+
+        const trades = backtest(strategy, inputSeries);
+        expect(trades.length).to.eql(1);
+        expect(trades[0].entryTime).to.eql(makeTime("2018/10/21"));
+        expect(trades[0].entryPrice).to.eql(50);
+    });
+
+    it("throws for an invalid split ratio", () => {
+        const strategy: IStrategy = {
+            entryRule: enterPosition => enterPosition(),
+        };
+
+        const inputSeries = makeDataSeries([
+            { time: "2018/10/20", close: 100 },
+            { time: "2018/10/21", close: 100, splitRatio: 0 },
+        ]);
+        expect(() => backtest(strategy, inputSeries)).to.throw();
+    });
+});
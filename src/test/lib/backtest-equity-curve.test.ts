@@ -0,0 +1,113 @@
+import { expect } from 'chai';
+import { DataFrame, IDataFrame } from 'data-forge';
+import * as moment from 'dayjs';
+import { backtest, backtestWithResults } from '../../lib/backtest';
+import { IBar } from '../../lib/bar';
+import { IStrategy } from '../../lib/strategy';
+
+describe("backtest equity curve", () => {
+
+    function makeTime(dateStr: string): number {
+        return moment(dateStr, "YYYY/MM/DD").valueOf();
+    }
+
+    function makeDataSeries(bars: { time: string, close: number }[]): IDataFrame<number, IBar> {
+        return new DataFrame<number, IBar>(bars.map(bar => ({
+            time: makeTime(bar.time),
+            open: bar.close,
+            high: bar.close,
+            low: bar.close,
+            close: bar.close,
+            volume: 1,
+        })));
+    }
+
+    const strategy: IStrategy = {
+        entryRule: (enterPosition, args) => {
+            if (args.bar.close === 10) {
+                enterPosition();
+            }
+        },
+        exitRule: (exitPosition, args) => {
+            if (args.bar.close === 14) {
+                exitPosition();
+            }
+        },
+        positionSize: { type: "fixed-units", units: 10 },
+    };
+
+    const inputSeries = makeDataSeries([
+        { time: "2018/10/20", close: 10 }, // Entry signal.
+        { time: "2018/10/21", close: 10 }, // Entry day.
+        { time: "2018/10/22", close: 12 },
+        { time: "2018/10/23", close: 8 },
+        { time: "2018/10/24", close: 14 }, // Exit.
+        { time: "2018/10/25", close: 20 }, // Flat.
+    ]);
+
+    it("records equity at the close of every bar", () => {
+        const result = backtestWithResults(strategy, inputSeries, { startingCapital: 1000, recordEquityCurve: true });
+        expect(result.trades.length).to.eql(1);
+        expect(result.equityCurve).to.eql([
+            { time: makeTime("2018/10/20"), value: 1000 },
+            { time: makeTime("2018/10/21"), value: 1000 },
+            { time: makeTime("2018/10/22"), value: 1020 },
+            { time: makeTime("2018/10/23"), value: 980 },
+            { time: makeTime("2018/10/24"), value: 1040 },
+            { time: makeTime("2018/10/25"), value: 1040 },
+        ]);
+        expect(result.drawdown).to.eql(undefined);
+    });
+
+    it("records drawdown at the close of every bar", () => {
+        const result = backtestWithResults(strategy, inputSeries, { startingCapital: 1000, recordDrawdown: true });
+        expect(result.equityCurve).to.eql(undefined);
+        expect(result.drawdown!.map(point => point.value)).to.eql([ 0, 0, 0, -40, 0, 0 ]);
+    });
+
+    it("last point of the equity curve includes the cost of closing an open position", () => {
+        const holdStrategy: IStrategy = {
+            entryRule: enterPosition => enterPosition(),
+            positionSize: { type: "fixed-units", units: 10 },
+        };
+
+        const result = backtestWithResults(holdStrategy, inputSeries, {
+            startingCapital: 1000,
+            recordEquityCurve: true,
+            commission: { type: "fixed", amount: 5 },
+        });
+        expect(result.equityCurve![result.equityCurve!.length - 1].value).to.eql(1090);
+    });
+
+    it("closes an open position when the strategy prepares indicators", () => {
+        let numCompleteCalls = 0;
+        const holdStrategy: IStrategy = {
+            entryRule: enterPosition => enterPosition(),
+            // Each enumeration of the series produces new bar objects.
+            prepIndicators: args => args.inputSeries.select(bar => ({ ...bar })),
+            positionSize: { type: "fixed-units", units: 10 },
+            onComplete: () => {
+                ++numCompleteCalls;
+            },
+        };
+
+        const result = backtestWithResults(holdStrategy, inputSeries, {
+            startingCapital: 1000,
+            recordEquityCurve: true,
+            commission: { type: "fixed", amount: 5 },
+        });
+        expect(result.trades.length).to.eql(1);
+        expect(result.trades[0].exitReason).to.eql("finalize");
+        expect(numCompleteCalls).to.eql(1);
+        expect(result.equityCurve![result.equityCurve!.length - 1].value).to.eql(1090);
+    });
+
+    it("trades match the trades from backtest", () => {
+        const result = backtestWithResults(strategy, inputSeries, { startingCapital: 1000, recordEquityCurve: true });
+        expect(result.trades).to.eql(backtest(strategy, inputSeries, { startingCapital: 1000 }));
+    });
+
+    it("recording the equity curve requires starting capital", () => {
+        expect(() => backtestWithResults(strategy, inputSeries, { recordEquityCurve: true })).to.throw();
+    });
+});
@@ -0,0 +1,114 @@
+import { expect } from 'chai';
+import { DataFrame, IDataFrame } from 'data-forge';
+import * as moment from 'dayjs';
+import { backtest } from '../../lib/backtest';
+import { IBar } from '../../lib/bar';
+import { IStrategy } from '../../lib/strategy';
+
+describe("backtest fill timing", () => {
+
+    function makeTime(dateStr: string): number {
+        return moment(dateStr, "YYYY/MM/DD").valueOf();
+    }
+
+    function makeDataSeries(bars: { time: string, open: number, high: number, low: number, close: number }[]): IDataFrame<number, IBar> {
+        return new DataFrame<number, IBar>(bars.map(bar => ({
+            time: makeTime(bar.time),
+            open: bar.open,
+            high: bar.high,
+            low: bar.low,
+            close: bar.close,
+            volume: 1,
+        })));
+    }
+
+    const strategy: IStrategy = {
+        entryRule: (enterPosition, args) => {
+            if (args.bar.close === 10) {
+                enterPosition();
+            }
+        },
+        exitRule: (exitPosition, args) => {
+            if (args.bar.close === 16) {
+                exitPosition();
+            }
+        },
+    };
+
+    const inputSeries = makeDataSeries([
+        { time: "2018/10/20", open: 9, high: 11, low: 8, close: 10 },   // Entry signal.
+        { time: "2018/10/21", open: 11, high: 14, low: 11, close: 13 },
+        { time: "2018/10/22", open: 13, high: 17, low: 12, close: 16 }, // Exit signal.
+        { time: "2018/10/23", open: 15, high: 18, low: 15, close: 18 },
+        { time: "2018/10/24", open: 18, high: 18, low: 18, close: 18 },
+    ]);
+
+    it("defaults to entering at the next open and exiting at the signal close", () => {
+        const trades = backtest(strategy, inputSeries);
+        expect(trades.length).to.eql(1);
+        expect(trades[0].entryTime).to.eql(makeTime("2018/10/21"));
+        expect(trades[0].entryPrice).to.eql(11);
+        expect(trades[0].exitTime).to.eql(makeTime("2018/10/22"));
+        expect(trades[0].exitPrice).to.eql(16);
+    });
+
+    it("can enter at the signal close", () => {
+        const trades = backtest(strategy, inputSeries, { fillTiming: { entry: "signal-close" } });
+        expect(trades[0].entryTime).to.eql(makeTime("2018/10/20"));
+        expect(trades[0].entryPrice).to.eql(10);
+    });
+
+    it("can enter at the next close", () => {
+        const trades = backtest(strategy, inputSeries, { fillTiming: { entry: "next-close" } });
+        expect(trades[0].entryTime).to.eql(makeTime("2018/10/21"));
+        expect(trades[0].entryPrice).to.eql(13);
+    });
+
+    it("can enter at the next bar's approximate vwap", () => {
+        const trades = backtest(strategy, inputSeries, { fillTiming: { entry: "next-vwap" } });
+        expect(trades[0].entryTime).to.eql(makeTime("2018/10/21"));
+        expect(trades[0].entryPrice).to.eql(38 / 3);
+    });
+
+    it("can exit at the next open", () => {
+        const trades = backtest(strategy, inputSeries, { fillTiming: { exit: "next-open" } });
+        expect(trades[0].exitTime).to.eql(makeTime("2018/10/23"));
+        expect(trades[0].exitPrice).to.eql(15);
+        expect(trades[0].exitReason).to.eql("exit-rule");
+    });
+
+    it("can exit at the next close", () => {
+        const trades = backtest(strategy, inputSeries, { fillTiming: { exit: "next-close" } });
+        expect(trades[0].exitTime).to.eql(makeTime("2018/10/23"));
+        expect(trades[0].exitPrice).to.eql(18);
+    });
+
+    it("can exit at the next bar's approximate vwap", () => {
+        const trades = backtest(strategy, inputSeries, { fillTiming: { exit: "next-vwap" } });
+        expect(trades[0].exitTime).to.eql(makeTime("2018/10/23"));
+        expect(trades[0].exitPrice).to.eql(17);
+    });
+
+    it("stop loss fills before a delayed exit", () => {
+        const stopStrategy: IStrategy = {
+            ...strategy,
+            stopLoss: () => 1,
+        };
+
+        const gapSeries = makeDataSeries([
+            { time: "2018/10/20", open: 9, high: 11, low: 8, close: 10 },   // Entry signal.
+            { time: "2018/10/21", open: 11, high: 14, low: 11, close: 13 }, // Entry, stop at 10.
+            { time: "2018/10/22", open: 13, high: 17, low: 12, close: 16 }, // Exit signal.
+            { time: "2018/10/23", open: 9, high: 12, low: 8, close: 12 },   // Stopped out.
+        ]);
+
+        const trades = backtest(stopStrategy, gapSeries, { fillTiming: { exit: "next-close" } });
+        expect(trades.length).to.eql(1);
+        expect(trades[0].exitTime).to.eql(makeTime("2018/10/23"));
+        expect(trades[0].exitReason).to.eql("stop-loss");
+    });
+
+    it("throws for an unknown fill timing", () => {
+        expect(() => backtest(strategy, inputSeries, { fillTiming: { entry: "whenever" as any } })).to.throw();
+    });
+});
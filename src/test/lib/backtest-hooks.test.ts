@@ -0,0 +1,160 @@
+import { expect } from 'chai';
+import { DataFrame, IDataFrame } from 'data-forge';
+import * as moment from 'dayjs';
+import { backtest } from '../../lib/backtest';
+import { IBar } from '../../lib/bar';
+import { IStrategy } from '../../lib/strategy';
+
+describe("backtest lifecycle hooks", () => {
+
+    function makeTime(dateStr: string): number {
+        return moment(dateStr, "YYYY/MM/DD").valueOf();
+    }
+
+    function makeDataSeries(bars: { time: string, close: number }[]): IDataFrame<number, IBar> {
+        return new DataFrame<number, IBar>(bars.map(bar => ({
+            time: makeTime(bar.time),
+            open: bar.close,
+            high: bar.close,
+            low: bar.close,
+            close: bar.close,
+            volume: 1,
+        })));
+    }
+
+    const inputSeries = makeDataSeries([
+        { time: "2018/10/20", close: 10 }, // Order placed.
+        { time: "2018/10/21", close: 11 }, // Entered.
+        { time: "2018/10/22", close: 12 }, // Exited.
+        { time: "2018/10/23", close: 8 },  // Order placed.
+    ]);
+
+    //
+    // Records the hooks that are called.
+    //
+    function recordHooks(strategy: IStrategy, events: string[]): IStrategy {
+        return {
+            ...strategy,
+            onStart: () => events.push("start"),
+            onBar: args => events.push(`bar ${args.bar.close}`),
+            onOrderPlaced: args => events.push(`order placed ${args.bar.close}`),
+            onOrderCancelled: args => events.push(`order ${args.reason} ${args.bar.close}`),
+            onEnter: args => events.push(`enter ${args.bar.close}`),
+            onExit: args => events.push(`exit ${args.trade.exitReason} ${args.bar.close}`),
+            onComplete: args => events.push(`complete ${args.trades.length}`),
+        };
+    }
+
+    it("hooks are called through the life of a backtest", () => {
+        const events: string[] = [];
+        const strategy = recordHooks({
+            entryRule: (enterPosition, args) => {
+                if (args.bar.close === 10 || args.bar.close === 8) {
+                    enterPosition();
+                }
+            },
+            exitRule: (exitPosition, args) => {
+                if (args.bar.close === 12) {
+                    exitPosition();
+                }
+            },
+        }, events);
+
+        backtest(strategy, inputSeries);
+        expect(events).to.eql([
+            "start",
+            "order placed 10",
+            "bar 10",
+            "enter 11",
+            "bar 11",
+            "exit exit-rule 12",
+            "bar 12",
+            "order placed 8",
+            "bar 8",
+            "order complete 8",
+            "complete 1",
+        ]);
+    });
+
+    it("exit hooks are passed the actual exit reason", () => {
+        const exitReasons: string[] = [];
+        const legacyReasons: string[] = [];
+        const strategy: IStrategy = {
+            entryRule: enterPosition => enterPosition(),
+            stopLoss: () => 0.5,
+            onExit: args => exitReasons.push(args.trade.exitReason),
+            onExistPosition: (bar, reason) => legacyReasons.push(reason),
+        };
+
+        const trades = backtest(strategy, inputSeries);
+        expect(trades.map(trade => trade.exitReason)).to.eql([ "stop-loss" ]);
+        expect(exitReasons).to.eql([ "stop-loss" ]);
+        expect(legacyReasons).to.eql([ "stop-loss" ]);
+    });
+
+    it("exit hook is called when the backtest completes", () => {
+        const trades: number[] = [];
+        const strategy: IStrategy = {
+            entryRule: enterPosition => enterPosition(),
+            onExit: args => trades.push(args.trade.exitPrice),
+        };
+
+        backtest(strategy, inputSeries);
+        expect(trades).to.eql([ 8 ]);
+    });
+
+    it("hook is called when an order expires", () => {
+        const events: string[] = [];
+        let entered = false;
+        const strategy = recordHooks({
+            entryRule: enterPosition => {
+                if (!entered) {
+                    entered = true;
+                    enterPosition({ orderType: "limit", limitPrice: 5, goodForBars: 1 });
+                }
+            },
+        }, events);
+
+        backtest(strategy, inputSeries);
+        expect(events).to.include("order expired 12");
+    });
+
+    it("hook is called when the strategy cancels an order", () => {
+        const events: string[] = [];
+        const strategy = recordHooks({
+            entryRule: (enterPosition, args) => {
+                if (args.pendingEntry !== undefined) {
+                    args.cancelEntry();
+                }
+                else if (args.bar.close === 10) {
+                    enterPosition({ orderType: "limit", limitPrice: 5 });
+                }
+            },
+        }, events);
+
+        backtest(strategy, inputSeries);
+        expect(events.filter(event => event.startsWith("order"))).to.eql([ "order placed 10", "order cancelled 11" ]);
+    });
+
+    it("hooks are passed the strategy's parameters and state", () => {
+        const strategy: IStrategy<IBar, IBar, { threshold: number }, number, { numBars: number }> = {
+            parameters: { threshold: 11 },
+            state: { numBars: 0 },
+            entryRule: (enterPosition, args) => {
+                if (args.bar.close === args.parameters.threshold) {
+                    enterPosition();
+                }
+            },
+            onBar: args => {
+                args.state.numBars += 1;
+            },
+            onComplete: args => {
+                expect(args.parameters.threshold).to.eql(11);
+                expect(args.state.numBars).to.eql(4);
+            },
+        };
+
+        const trades = backtest(strategy, inputSeries);
+        expect(trades[0].exitState).to.eql({ numBars: 4 }); // Closed when the backtest completes.
+    });
+});
@@ -260,6 +260,77 @@ describe("backtest long", () => {
         expect(singleTrade.exitTime).to.eql(makeDate("2018/10/24"));
     });
 
+    it("stop loss exits long at the open when the price gaps down through the stop", () => {
+        
+        const strategy: IStrategy = {
+            entryRule: unconditionalLongEntry,
+            stopLoss: args => args.entryPrice * (20/100)
+        };
+
+        const inputSeries = makeDataSeries([
+            { time: "2018/10/20", close: 100 },
+            { time: "2018/10/21", close: 100 }, // Entry day.
+            { time: "2018/10/22", close: 90 },  // Hold
+            { time: "2018/10/23", open: 70, high: 75, low: 65, close: 72 },  // Gaps down through the stop.
+            { time: "2018/10/24", close: 72 },
+        ]);
+
+        const trades = backtest(strategy, inputSeries);
+        expect(trades.length).to.eql(1);
+
+        const singleTrade = trades[0];
+        expect(singleTrade.exitReason).to.eql("stop-loss");
+        expect(singleTrade.exitPrice).to.eql(70);
+        expect(singleTrade.gapFill).to.eql(true);
+    });
+
+    it("stop loss exits long at the stop price when the price doesn't gap", () => {
+        
+        const strategy: IStrategy = {
+            entryRule: unconditionalLongEntry,
+            stopLoss: args => args.entryPrice * (20/100)
+        };
+
+        const inputSeries = makeDataSeries([
+            { time: "2018/10/20", close: 100 },
+            { time: "2018/10/21", close: 100 }, // Entry day.
+            { time: "2018/10/22", close: 90 },  // Hold
+            { time: "2018/10/23", open: 90, high: 90, low: 75, close: 78 },  // Stop loss triggered.
+            { time: "2018/10/24", close: 78 },
+        ]);
+
+        const trades = backtest(strategy, inputSeries);
+        expect(trades.length).to.eql(1);
+
+        const singleTrade = trades[0];
+        expect(singleTrade.exitPrice).to.eql(80);
+        expect(singleTrade.gapFill).to.eql(undefined);
+    });
+
+    it("profit target exits long at the open when the price gaps up through the target", () => {
+        
+        const strategy: IStrategy = {
+            entryRule: unconditionalLongEntry,
+            profitTarget: args => args.entryPrice * (10/100)
+        };
+
+        const inputSeries = makeDataSeries([
+            { time: "2018/10/20", close: 100 },
+            { time: "2018/10/21", close: 100 }, // Entry day.
+            { time: "2018/10/22", close: 100 },  // Hold
+            { time: "2018/10/23", open: 120, high: 125, low: 118, close: 121 },  // Gaps up through the target.
+            { time: "2018/10/24", close: 121 },
+        ]);
+
+        const trades = backtest(strategy, inputSeries);
+        expect(trades.length).to.eql(1);
+
+        const singleTrade = trades[0];
+        expect(singleTrade.exitReason).to.eql("profit-target");
+        expect(singleTrade.exitPrice).to.eql(120);
+        expect(singleTrade.gapFill).to.eql(true);
+    });
+
     it("can exit long via trailing stop loss", () => {
         
         const strategy: IStrategy = {
@@ -453,11 +524,11 @@ describe("backtest long", () => {
         const inputSeries = makeDataSeries([
             { time: "2018/10/20", close: 100 },
             { time: "2018/10/21", close: 100 }, // Entry day
-            { time: "2018/10/22", close: 98 },  // Exit traditional stop
+            { time: "2018/10/22", open: 100, close: 98 },  // Exit traditional stop
             { time: "2018/10/23", close: 110 }, 
             { time: "2018/10/24", close: 120 }, // Entry Day
             { time: "2018/10/25", close: 140 }, // Hit profit target
-            { time: "2018/10/26", close: 130 }, // Exit at 137.2 
+            { time: "2018/10/26", open: 140, close: 130 }, // Exit at 137.2 
         ]);
 
         const trades = backtest(strategy, inputSeries);
@@ -689,6 +760,214 @@ describe("backtest long", () => {
         ]);
     });
 
+    it("can exit long via percent stop", () => {
+
+        const strategy: IStrategy = {
+            entryRule: unconditionalLongEntry,
+            stopLoss: { type: "percent", percent: 10 },
+        };
+
+        const inputSeries = makeDataSeries([
+            { time: "2018/10/20", close: 100 },
+            { time: "2018/10/21", close: 100 }, // Entry day, stop at 90.
+            { time: "2018/10/22", close: 95 },  // Hold
+            { time: "2018/10/23", open: 92, close: 89 },  // Stop loss triggered.
+            { time: "2018/10/24", close: 89 },
+        ]);
+
+        const trades = backtest(strategy, inputSeries);
+        expect(trades.length).to.eql(1);
+
+        const singleTrade = trades[0];
+        expect(singleTrade.exitReason).to.eql("stop-loss");
+        expect(singleTrade.exitTime).to.eql(makeDate("2018/10/23"));
+        expect(singleTrade.exitPrice).to.eql(90);
+    });
+
+    it("can exit long via ATR stop", () => {
+
+        const strategy: IStrategy = {
+            entryRule: unconditionalLongEntry,
+            stopLoss: { type: "atr", multiple: 2, period: 2 },
+            lookbackPeriod: 3,
+        };
+
+        const inputSeries = makeDataSeries([
+            { time: "2018/10/20", high: 102, low: 98, close: 100 },
+            { time: "2018/10/21", high: 102, low: 98, close: 100 },
+            { time: "2018/10/22", high: 102, low: 98, close: 100 },
+            { time: "2018/10/23", high: 102, low: 98, close: 100 }, // Entry day, ATR is 4 so the stop is at 92.
+            { time: "2018/10/24", close: 93 },  // Hold
+            { time: "2018/10/25", close: 91 },  // Stop loss triggered.
+            { time: "2018/10/26", close: 91 },
+        ]);
+
+        const trades = backtest(strategy, inputSeries);
+        expect(trades.length).to.eql(1);
+
+        const singleTrade = trades[0];
+        expect(singleTrade.stopPrice).to.eql(92);
+        expect(singleTrade.exitReason).to.eql("stop-loss");
+        expect(singleTrade.exitTime).to.eql(makeDate("2018/10/25"));
+    });
+
+    it("can exit long via chandelier stop", () => {
+
+        const strategy: IStrategy = {
+            entryRule: unconditionalLongEntry,
+            trailingStopLoss: { type: "chandelier", multiple: 1, period: 2 },
+            lookbackPeriod: 3,
+        };
+
+        const inputSeries = makeDataSeries([
+            { time: "2018/10/20", high: 101, low: 99, close: 100 },
+            { time: "2018/10/21", high: 101, low: 99, close: 100 },
+            { time: "2018/10/22", high: 101, low: 99, close: 100 },
+            { time: "2018/10/23", high: 101, low: 99, close: 100 }, // Entry day, stop at 99.
+            { time: "2018/10/24", high: 111, low: 109, close: 110 }, // Stop rises to 104.5 (highest high 111 less ATR 6.5).
+            { time: "2018/10/25", high: 107, low: 105, close: 106 }, // Hold, the stop doesn't decline.
+            { time: "2018/10/26", close: 104 }, // Stop loss triggered.
+            { time: "2018/10/27", close: 104 },
+        ]);
+
+        const trades = backtest(strategy, inputSeries);
+        expect(trades.length).to.eql(1);
+
+        const singleTrade = trades[0];
+        expect(singleTrade.exitReason).to.eql("stop-loss");
+        expect(singleTrade.exitTime).to.eql(makeDate("2018/10/26"));
+        expect(singleTrade.exitPrice).to.eql(104);
+    });
+
+    it("can exit long via parabolic SAR stop", () => {
+
+        const strategy: IStrategy = {
+            entryRule: unconditionalLongEntry,
+            trailingStopLoss: { type: "parabolic-sar", step: 0.5, maxStep: 0.5 },
+            lookbackPeriod: 5,
+        };
+
+        const inputSeries = makeDataSeries([
+            { time: "2018/10/20", high: 101, low: 99, close: 100 },
+            { time: "2018/10/21", high: 101, low: 99, close: 100 },
+            { time: "2018/10/22", high: 101, low: 99, close: 100 },
+            { time: "2018/10/23", high: 101, low: 99, close: 100 },
+            { time: "2018/10/24", high: 101, low: 99, close: 100 },
+            { time: "2018/10/25", high: 101, low: 99, close: 100 }, // Entry day, SAR at the low of 99.
+            { time: "2018/10/26", open: 106, high: 111, low: 105, close: 110 }, // Hold
+            { time: "2018/10/27", open: 112, high: 116, low: 112, close: 115 }, // SAR rises to 105, limited by the previous low.
+            { time: "2018/10/28", open: 110, close: 104 }, // Stop loss triggered.
+            { time: "2018/10/29", close: 104 },
+        ]);
+
+        const trades = backtest(strategy, inputSeries);
+        expect(trades.length).to.eql(1);
+
+        const singleTrade = trades[0];
+        expect(singleTrade.exitReason).to.eql("stop-loss");
+        expect(singleTrade.exitTime).to.eql(makeDate("2018/10/28"));
+        expect(singleTrade.exitPrice).to.eql(105);
+    });
+
+    it("breakeven stop moves the long stop to the entry price after the move is reached", () => {
+
+        const strategy: IStrategy = {
+            entryRule: unconditionalLongEntry,
+            stopLoss: args => 10,
+            trailingStopLoss: { type: "breakeven", afterR: 1 },
+        };
+
+        const inputSeries = makeDataSeries([
+            { time: "2018/10/20", close: 100 },
+            { time: "2018/10/21", close: 100 }, // Entry day, stop at 90.
+            { time: "2018/10/22", close: 112 }, // Moved 1.2R, stop to 100.
+            { time: "2018/10/23", open: 101, close: 99 }, // Stop loss triggered.
+            { time: "2018/10/24", close: 99 },
+        ]);
+
+        const trades = backtest(strategy, inputSeries);
+        expect(trades.length).to.eql(1);
+
+        const singleTrade = trades[0];
+        expect(singleTrade.exitReason).to.eql("stop-loss");
+        expect(singleTrade.exitTime).to.eql(makeDate("2018/10/23"));
+        expect(singleTrade.exitPrice).to.eql(100);
+    });
+
+    it("breakeven stop doesn't move the long stop until the move is reached", () => {
+
+        const strategy: IStrategy = {
+            entryRule: unconditionalLongEntry,
+            stopLoss: args => 10,
+            trailingStopLoss: { type: "breakeven", afterR: 1 },
+        };
+
+        const inputSeries = makeDataSeries([
+            { time: "2018/10/20", close: 100 },
+            { time: "2018/10/21", close: 100 }, // Entry day, stop at 90.
+            { time: "2018/10/22", close: 108 }, // Moved 0.8R.
+            { time: "2018/10/23", open: 101, close: 99 }, // Hold
+            { time: "2018/10/24", close: 99 },
+        ]);
+
+        const trades = backtest(strategy, inputSeries);
+        expect(trades.length).to.eql(1);
+        expect(trades[0].exitReason).to.eql("finalize");
+    });
+
+    it("step stop ratchets the long stop up by whole steps", () => {
+
+        const strategy: IStrategy = {
+            entryRule: unconditionalLongEntry,
+            stopLoss: args => 10,
+            trailingStopLoss: { type: "step", stepR: 1 },
+        };
+
+        const inputSeries = makeDataSeries([
+            { time: "2018/10/20", close: 100 },
+            { time: "2018/10/21", close: 100 }, // Entry day, stop at 90.
+            { time: "2018/10/22", close: 125 }, // Moved 2.5R, stop up 2 steps to 110.
+            { time: "2018/10/23", open: 112, close: 108 }, // Stop loss triggered.
+            { time: "2018/10/24", close: 108 },
+        ]);
+
+        const trades = backtest(strategy, inputSeries);
+        expect(trades.length).to.eql(1);
+
+        const singleTrade = trades[0];
+        expect(singleTrade.exitReason).to.eql("stop-loss");
+        expect(singleTrade.exitTime).to.eql(makeDate("2018/10/23"));
+        expect(singleTrade.exitPrice).to.eql(110);
+    });
+
+    it("time decaying stop tightens the long stop as the position is held", () => {
+
+        const strategy: IStrategy = {
+            entryRule: unconditionalLongEntry,
+            stopLoss: args => 10,
+            trailingStopLoss: { type: "time-decay", bars: 4 },
+        };
+
+        const inputSeries = makeDataSeries([
+            { time: "2018/10/20", close: 100 },
+            { time: "2018/10/21", close: 100 }, // Entry day, stop at 90.
+            { time: "2018/10/22", close: 100 }, // Held 0 bars, stop at 90.
+            { time: "2018/10/23", close: 100 }, // Held 1 bar, stop at 92.5.
+            { time: "2018/10/24", close: 100 }, // Held 2 bars, stop at 95.
+            { time: "2018/10/25", close: 96 },  // Held 3 bars, stop at 97.5.
+            { time: "2018/10/26", close: 97 },  // Stop loss triggered.
+            { time: "2018/10/27", close: 97 },
+        ]);
+
+        const trades = backtest(strategy, inputSeries, { recordStopPrice: true });
+        expect(trades.length).to.eql(1);
+
+        const singleTrade = trades[0];
+        expect(singleTrade.stopPriceSeries!.map(point => point.value)).to.eql([ 90, 90, 92.5, 95, 97.5 ]);
+        expect(singleTrade.exitReason).to.eql("stop-loss");
+        expect(singleTrade.exitTime).to.eql(makeDate("2018/10/26"));
+    });
+
     it('profit is computed for long trade finalized at end of the trading period', () => {
 
         const inputData = makeDataSeries([
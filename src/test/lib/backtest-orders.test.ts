@@ -0,0 +1,165 @@
+import { expect } from 'chai';
+import { DataFrame, IDataFrame } from 'data-forge';
+import * as moment from 'dayjs';
+import { backtest } from '../../lib/backtest';
+import { IBar } from '../../lib/bar';
+import { IEnterPositionOptions, IStrategy, TradeDirection } from '../../lib/strategy';
+
+describe("backtest entry orders", () => {
+
+    function makeTime(dateStr: string): number {
+        return moment(dateStr, "YYYY/MM/DD").valueOf();
+    }
+
+    function makeDataSeries(bars: { time: string, open: number, high: number, low: number, close: number }[]): IDataFrame<number, IBar> {
+        return new DataFrame<number, IBar>(bars.map(bar => ({
+            time: makeTime(bar.time),
+            open: bar.open,
+            high: bar.high,
+            low: bar.low,
+            close: bar.close,
+            volume: 1,
+        })));
+    }
+
+    //
+    // Enters once with the specified order.
+    //
+    function enterOnce(options: IEnterPositionOptions): IStrategy {
+        let entered = false;
+        return {
+            entryRule: enterPosition => {
+                if (!entered) {
+                    entered = true;
+                    enterPosition(options);
+                }
+            },
+        };
+    }
+
+    const inputSeries = makeDataSeries([
+        { time: "2018/10/20", open: 10, high: 10, low: 10, close: 10 }, // Order placed.
+        { time: "2018/10/21", open: 10, high: 11, low: 9, close: 10.5 },
+        { time: "2018/10/22", open: 10.5, high: 12, low: 10, close: 11 },
+        { time: "2018/10/23", open: 8, high: 9, low: 7, close: 8.5 },   // Gaps down.
+        { time: "2018/10/24", open: 13, high: 14, low: 12.5, close: 13.5 }, // Gaps up.
+        { time: "2018/10/25", open: 13, high: 13, low: 13, close: 13 },
+    ]);
+
+    it("market on open order fills at the open of the next bar", () => {
+        const trades = backtest(enterOnce({ orderType: "market-on-open" }), inputSeries);
+        expect(trades[0].entryTime).to.eql(makeTime("2018/10/21"));
+        expect(trades[0].entryPrice).to.eql(10);
+    });
+
+    it("market on close order fills at the close of the next bar", () => {
+        const trades = backtest(enterOnce({ orderType: "market-on-close" }), inputSeries);
+        expect(trades[0].entryTime).to.eql(makeTime("2018/10/21"));
+        expect(trades[0].entryPrice).to.eql(10.5);
+    });
+
+    it("limit order fills at the limit price", () => {
+        const trades = backtest(enterOnce({ orderType: "limit", limitPrice: 9.5 }), inputSeries);
+        expect(trades[0].entryTime).to.eql(makeTime("2018/10/21"));
+        expect(trades[0].entryPrice).to.eql(9.5);
+    });
+
+    it("limit order fills at the open when the price gaps through the limit", () => {
+        const trades = backtest(enterOnce({ orderType: "limit", limitPrice: 8.5 }), inputSeries);
+        expect(trades[0].entryTime).to.eql(makeTime("2018/10/23"));
+        expect(trades[0].entryPrice).to.eql(8);
+    });
+
+    it("short limit order fills when the price rises to the limit", () => {
+        const trades = backtest(enterOnce({ direction: TradeDirection.Short, orderType: "limit", limitPrice: 11.5 }), inputSeries);
+        expect(trades[0].entryTime).to.eql(makeTime("2018/10/22"));
+        expect(trades[0].entryPrice).to.eql(11.5);
+    });
+
+    it("stop order fills at the stop price", () => {
+        const trades = backtest(enterOnce({ orderType: "stop", stopPrice: 11.5 }), inputSeries);
+        expect(trades[0].entryTime).to.eql(makeTime("2018/10/22"));
+        expect(trades[0].entryPrice).to.eql(11.5);
+    });
+
+    it("stop order fills at the open when the price gaps through the stop", () => {
+        const trades = backtest(enterOnce({ orderType: "stop", stopPrice: 12.5 }), inputSeries);
+        expect(trades[0].entryTime).to.eql(makeTime("2018/10/24"));
+        expect(trades[0].entryPrice).to.eql(13);
+    });
+
+    it("stop limit order fills at the stop price when it is within the limit", () => {
+        const trades = backtest(enterOnce({ orderType: "stop-limit", stopPrice: 11.5, limitPrice: 11.75 }), inputSeries);
+        expect(trades[0].entryTime).to.eql(makeTime("2018/10/22"));
+        expect(trades[0].entryPrice).to.eql(11.5);
+    });
+
+    it("stop limit order waits for the limit price when the price gaps through the stop", () => {
+        const trades = backtest(enterOnce({ orderType: "stop-limit", stopPrice: 12.5, limitPrice: 12.75 }), inputSeries);
+        expect(trades[0].entryTime).to.eql(makeTime("2018/10/24"));
+        expect(trades[0].entryPrice).to.eql(12.75);
+    });
+
+    it("order expires after a number of bars", () => {
+        const trades = backtest(enterOnce({ orderType: "stop", stopPrice: 11.5, goodForBars: 1 }), inputSeries);
+        expect(trades.length).to.eql(0);
+    });
+
+    it("order expires after a time", () => {
+        const trades = backtest(enterOnce({ orderType: "limit", limitPrice: 8.5, goodUntil: makeTime("2018/10/22") }), inputSeries);
+        expect(trades.length).to.eql(0);
+    });
+
+    it("entry rule can cancel a pending order", () => {
+        const strategy: IStrategy = {
+            entryRule: (enterPosition, args) => {
+                if (args.pendingEntry !== undefined) {
+                    args.cancelEntry();
+                }
+                else if (args.bar.close === 10) {
+                    enterPosition({ orderType: "limit", limitPrice: 8.5 });
+                }
+            },
+        };
+
+        const trades = backtest(strategy, inputSeries);
+        expect(trades.length).to.eql(0);
+    });
+
+    it("entry rule can replace a pending order", () => {
+        const strategy: IStrategy = {
+            entryRule: (enterPosition, args) => {
+                if (args.pendingEntry !== undefined) {
+                    args.cancelEntry();
+                    enterPosition({ orderType: "limit", limitPrice: args.bar.close - 0.25 });
+                }
+                else {
+                    enterPosition({ orderType: "limit", limitPrice: 5 });
+                }
+            },
+        };
+
+        const trades = backtest(strategy, inputSeries);
+        expect(trades[0].entryTime).to.eql(makeTime("2018/10/22"));
+        expect(trades[0].entryPrice).to.eql(10.25);
+    });
+
+    it("entering while an order is pending keeps the pending order", () => {
+        let numEntryRuleCalls = 0;
+        const strategy: IStrategy = {
+            entryRule: (enterPosition, args) => {
+                const limitPrice = numEntryRuleCalls === 0 ? 5 : args.bar.close - 0.25;
+                ++numEntryRuleCalls;
+                enterPosition({ orderType: "limit", limitPrice: limitPrice });
+            },
+        };
+
+        const trades = backtest(strategy, inputSeries);
+        expect(trades.length).to.eql(0);
+        expect(numEntryRuleCalls).to.eql(6);
+    });
+
+    it("limit order requires a limit price", () => {
+        expect(() => backtest(enterOnce({ orderType: "limit" }), inputSeries)).to.throw();
+    });
+});
@@ -0,0 +1,183 @@
+import { expect } from 'chai';
+import { DataFrame, IDataFrame } from 'data-forge';
+import * as moment from 'dayjs';
+import { backtestPortfolio } from '../../lib/backtest-portfolio';
+import { IBar } from '../../lib/bar';
+import { IStrategy } from '../../lib/strategy';
+
+describe("backtest portfolio", () => {
+
+    function makeTime(dateStr: string): number {
+        return moment(dateStr, "YYYY/MM/DD").valueOf();
+    }
+
+    function makeDataSeries(bars: { time: string, close: number }[]): IDataFrame<number, IBar> {
+        return new DataFrame<number, IBar>(bars.map(bar => ({
+            time: makeTime(bar.time),
+            open: bar.close,
+            high: bar.close,
+            low: bar.close,
+            close: bar.close,
+            volume: 1,
+        })));
+    }
+
+    const buyAndHold: IStrategy = {
+        entryRule: enterPosition => enterPosition(),
+        positionSize: { type: "fixed-fractional", percent: 50 },
+    };
+
+    const aaa = makeDataSeries([
+        { time: "2018/10/20", close: 10 },
+        { time: "2018/10/21", close: 10 }, // Entry day.
+        { time: "2018/10/22", close: 20 },
+        { time: "2018/10/23", close: 20 },
+    ]);
+
+    const bbb = makeDataSeries([
+        { time: "2018/10/21", close: 5 },
+        { time: "2018/10/22", close: 5 }, // Entry day.
+        { time: "2018/10/23", close: 4 },
+    ]);
+
+    it("trades every instrument against a shared account", () => {
+        const result = backtestPortfolio(buyAndHold, { AAA: aaa, BBB: bbb }, { startingCapital: 1000 });
+        expect(result.trades.length).to.eql(2);
+
+        const [ aaaTrade, bbbTrade ] = result.trades;
+        expect(aaaTrade.symbol).to.eql("AAA");
+        expect(aaaTrade.quantity).to.eql(50);
+        expect(aaaTrade.pnl).to.eql(500);
+
+        // Half of equity after AAA doubles is 750, but only 500 cash is left.
+        expect(bbbTrade.symbol).to.eql("BBB");
+        expect(bbbTrade.quantity).to.eql(100);
+        expect(bbbTrade.pnl).to.eql(-100);
+    });
+
+    it("produces a portfolio equity curve aligned on time", () => {
+        const result = backtestPortfolio(buyAndHold, { AAA: aaa, BBB: bbb }, { startingCapital: 1000 });
+        expect(result.equityCurve.map(point => point.time)).to.eql([
+            makeTime("2018/10/20"),
+            makeTime("2018/10/21"),
+            makeTime("2018/10/22"),
+            makeTime("2018/10/23"),
+        ]);
+        expect(result.equityCurve.map(point => point.value)).to.eql([ 1000, 1000, 1500, 1400 ]);
+    });
+
+    it("can limit the number of concurrent positions", () => {
+        const result = backtestPortfolio(buyAndHold, { AAA: aaa, BBB: bbb }, { startingCapital: 1000, maxPositions: 1 });
+        expect(result.trades.length).to.eql(1);
+        expect(result.trades[0].symbol).to.eql("AAA");
+    });
+
+    it("can limit the allocation to each position", () => {
+        const result = backtestPortfolio(buyAndHold, { AAA: aaa, BBB: bbb }, { startingCapital: 1000, maxAllocationPct: 10 });
+        expect(result.trades[0].quantity).to.eql(10);
+    });
+
+    it("counts the lots already held towards the allocation when scaling in", () => {
+        const pyramiding: IStrategy = {
+            entryRule: enterPosition => enterPosition(),
+            maxUnits: 3,
+            positionSize: { type: "fixed-fractional", percent: 100 },
+        };
+        const flat = makeDataSeries([
+            { time: "2018/10/20", close: 10 },
+            { time: "2018/10/21", close: 10 }, // First lot.
+            { time: "2018/10/22", close: 10 }, // No room for more lots.
+            { time: "2018/10/23", close: 10 },
+        ]);
+
+        const result = backtestPortfolio(pyramiding, { AAA: flat }, { startingCapital: 1000, maxAllocationPct: 20 });
+        const quantityHeld = result.trades.reduce((total, trade) => total + trade.quantity!, 0);
+        expect(quantityHeld).to.eql(20); // 20% of 1000 equity at $10.
+    });
+
+    it("can limit the allocation to each symbol", () => {
+        const result = backtestPortfolio(buyAndHold, { AAA: aaa, BBB: bbb }, { startingCapital: 1000, maxAllocationPct: { AAA: 10 } });
+        const [ aaaTrade, bbbTrade ] = result.trades;
+        expect(aaaTrade.quantity).to.eql(10);
+        expect(bbbTrade.quantity).to.eql(110); // Not limited, half of 1100 equity.
+    });
+
+    it("can limit the allocation with a function of the symbol", () => {
+        const maxAllocationPct = (symbol: string | undefined) => symbol === "BBB" ? 5 : undefined;
+        const result = backtestPortfolio(buyAndHold, { AAA: aaa, BBB: bbb }, { startingCapital: 1000, maxAllocationPct });
+        const [ aaaTrade, bbbTrade ] = result.trades;
+        expect(aaaTrade.quantity).to.eql(50); // Not limited.
+        expect(bbbTrade.quantity).to.eql(15); // 5% of 1500 equity.
+    });
+
+    it("sizes against the cash left after slippage and commission", () => {
+        const allIn: IStrategy = {
+            entryRule: enterPosition => enterPosition(),
+            positionSize: { type: "fixed-fractional", percent: 100 },
+        };
+        const flat = makeDataSeries([
+            { time: "2018/10/20", close: 10 },
+            { time: "2018/10/21", close: 10 }, // Entry day.
+            { time: "2018/10/22", close: 10 },
+        ]);
+
+        const result = backtestPortfolio(allIn, { AAA: flat }, {
+            startingCapital: 1000,
+            slippage: { type: "ticks", ticks: 10, tickSize: 0.01 },
+            commission: { type: "fixed", amount: 10 },
+        });
+        const trade = result.trades[0];
+        expect(trade.entryPrice).to.be.closeTo(10.1, 0.0001);
+        expect(trade.quantity).to.be.closeTo(990 / 10.1, 0.0001); // 10 of the 1000 cash is left for the commission.
+        expect(trade.quantity! * trade.entryPrice + 10).to.be.at.most(1000 + 1e-9);
+    });
+
+    it("cancels an entry that the account limits leave no room for", () => {
+        const cancelled: { tag?: string, reason: string }[] = [];
+        const strategy: IStrategy = {
+            ...buyAndHold,
+            onOrderCancelled: args => {
+                cancelled.push({ tag: args.order.tag, reason: args.reason });
+            },
+        };
+        const strategies = {
+            AAA: strategy,
+            BBB: { ...strategy, entryRule: enterPosition => enterPosition({ tag: "BBB" }) } as IStrategy,
+        };
+
+        const result = backtestPortfolio(strategies, { AAA: aaa, BBB: bbb }, { startingCapital: 1000, maxPositions: 1 });
+        expect(result.trades.length).to.eql(1);
+        expect(cancelled.length).to.be.greaterThan(0);
+        expect(cancelled[0]).to.eql({ tag: "BBB", reason: "account-limit" });
+    });
+
+    it("closes the position of each symbol when the strategy prepares indicators", () => {
+        const strategy: IStrategy = {
+            ...buyAndHold,
+            // Each enumeration of the series produces new bar objects.
+            prepIndicators: args => args.inputSeries.select(bar => ({ ...bar })),
+        };
+
+        const result = backtestPortfolio(strategy, { AAA: aaa, BBB: bbb }, { startingCapital: 1000 });
+        expect(result.trades.length).to.eql(2);
+        expect(result.trades.map(trade => trade.exitReason)).to.eql([ "finalize", "finalize" ]);
+    });
+
+    it("can use a strategy per symbol", () => {
+        const noTrades: IStrategy = {
+            entryRule: () => {},
+        };
+
+        const result = backtestPortfolio({ AAA: buyAndHold, BBB: noTrades }, { AAA: aaa, BBB: bbb }, { startingCapital: 1000 });
+        expect(result.trades.length).to.eql(1);
+        expect(result.trades[0].symbol).to.eql("AAA");
+    });
+
+    it("throws when a symbol has no strategy", () => {
+        expect(() => backtestPortfolio({ AAA: buyAndHold }, { AAA: aaa, BBB: bbb }, { startingCapital: 1000 })).to.throw();
+    });
+
+    it("requires starting capital", () => {
+        expect(() => backtestPortfolio(buyAndHold, { AAA: aaa }, {} as any)).to.throw();
+    });
+});
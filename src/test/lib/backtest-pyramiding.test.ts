@@ -0,0 +1,201 @@
+import { expect } from 'chai';
+import { DataFrame, IDataFrame } from 'data-forge';
+import * as moment from 'dayjs';
+import { backtest } from '../../lib/backtest';
+import { IBar } from '../../lib/bar';
+import { IStrategy } from '../../lib/strategy';
+
+describe("backtest pyramiding", () => {
+
+    function makeTime(dateStr: string): number {
+        return moment(dateStr, "YYYY/MM/DD").valueOf();
+    }
+
+    function makeDataSeries(bars: { time: string, open?: number, close: number }[]): IDataFrame<number, IBar> {
+        return new DataFrame<number, IBar>(bars.map(bar => {
+            const open = bar.open !== undefined ? bar.open : bar.close;
+            return {
+                time: makeTime(bar.time),
+                open: open,
+                high: Math.max(open, bar.close),
+                low: Math.min(open, bar.close),
+                close: bar.close,
+                volume: 1,
+            };
+        }));
+    }
+
+    const risingSeries = makeDataSeries([
+        { time: "2018/10/20", close: 10 },
+        { time: "2018/10/21", close: 11 }, // Enter first lot.
+        { time: "2018/10/22", close: 12 }, // Entry rule signals second lot.
+        { time: "2018/10/23", close: 13 }, // Add second lot, entry rule signals third lot.
+        { time: "2018/10/24", close: 14 }, // Add third lot.
+        { time: "2018/10/25", close: 15 },
+    ]);
+
+    it("can't scale in by default", () => {
+        let numEntryRuleCalls = 0;
+        const strategy: IStrategy = {
+            entryRule: enterPosition => {
+                ++numEntryRuleCalls;
+                enterPosition();
+            },
+        };
+
+        const trades = backtest(strategy, risingSeries);
+        expect(trades.length).to.eql(1);
+        expect(numEntryRuleCalls).to.eql(1);
+    });
+
+    it("can scale in up to the maximum number of units", () => {
+        const strategy: IStrategy = {
+            maxUnits: 3,
+            entryRule: enterPosition => enterPosition(),
+        };
+
+        const trades = backtest(strategy, risingSeries);
+        expect(trades.length).to.eql(3);
+        expect(trades.map(trade => trade.entryPrice)).to.eql([ 11, 13, 14 ]);
+        expect(trades.map(trade => trade.exitPrice)).to.eql([ 15, 15, 15 ]);
+        expect(trades.map(trade => trade.exitReason)).to.eql([ "finalize", "finalize", "finalize" ]);
+    });
+
+    it("lots share the id of their position", () => {
+        const strategy: IStrategy = {
+            maxUnits: 2,
+            entryRule: enterPosition => enterPosition(),
+        };
+
+        const trades = backtest(strategy, risingSeries);
+        expect(trades.length).to.eql(2);
+        expect(trades[0].positionId).to.eql(trades[1].positionId);
+    });
+
+    it("entry rule is given the lots already held", () => {
+        const numLotsHeld: number[] = [];
+        const strategy: IStrategy = {
+            maxUnits: 3,
+            entryRule: (enterPosition, args) => {
+                numLotsHeld.push(args.positions.length);
+                enterPosition();
+            },
+        };
+
+        backtest(strategy, risingSeries);
+        expect(numLotsHeld).to.eql([ 0, 1, 2 ]);
+    });
+
+    it("can exit the oldest lot first", () => {
+        const strategy: IStrategy = {
+            maxUnits: 3,
+            entryRule: enterPosition => enterPosition(),
+            exitRule: (exitPosition, args) => {
+                if (args.positions.length === 3) {
+                    exitPosition({ lots: "fifo" });
+                }
+            },
+        };
+
+        const trades = backtest(strategy, risingSeries);
+        expect(trades[0].entryPrice).to.eql(11);
+        expect(trades[0].exitReason).to.eql("exit-rule");
+        expect(trades[0].exitPrice).to.eql(14);
+    });
+
+    it("can exit the newest lot first", () => {
+        const strategy: IStrategy = {
+            maxUnits: 3,
+            entryRule: enterPosition => enterPosition(),
+            exitRule: (exitPosition, args) => {
+                if (args.positions.length === 3) {
+                    exitPosition({ lots: "lifo" });
+                }
+            },
+        };
+
+        const trades = backtest(strategy, risingSeries);
+        expect(trades[0].entryPrice).to.eql(14);
+        expect(trades[0].exitReason).to.eql("exit-rule");
+    });
+
+    it("exit closes all lots by default", () => {
+        const strategy: IStrategy = {
+            maxUnits: 3,
+            entryRule: (enterPosition, args) => {
+                if (args.positions.length < 2) {
+                    enterPosition();
+                }
+            },
+            exitRule: (exitPosition, args) => {
+                if (args.bar.close >= 14) {
+                    exitPosition();
+                }
+            },
+        };
+
+        const trades = backtest(strategy, risingSeries);
+        expect(trades.length).to.eql(2);
+        expect(trades.map(trade => trade.exitReason)).to.eql([ "exit-rule", "exit-rule" ]);
+        expect(trades.map(trade => trade.exitPrice)).to.eql([ 14, 14 ]);
+    });
+
+    it("each lot has its own stop loss", () => {
+        const strategy: IStrategy = {
+            maxUnits: 2,
+            entryRule: enterPosition => enterPosition(),
+            stopLoss: () => 2.5,
+        };
+
+        const inputSeries = makeDataSeries([
+            { time: "2018/10/20", close: 10 },
+            { time: "2018/10/21", close: 10 }, // Enter first lot, stop at 7.5.
+            { time: "2018/10/22", close: 12 },
+            { time: "2018/10/23", close: 12 }, // Add second lot, stop at 9.5.
+            { time: "2018/10/24", open: 12, close: 9 },  // Second lot stopped out.
+            { time: "2018/10/25", close: 9 },  // Add third lot.
+        ]);
+
+        const trades = backtest(strategy, inputSeries);
+        expect(trades.length).to.eql(3);
+        expect(trades[0].entryPrice).to.eql(12);
+        expect(trades[0].exitReason).to.eql("stop-loss");
+        expect(trades[0].exitPrice).to.eql(9.5);
+        expect(trades[1].entryPrice).to.eql(10);
+        expect(trades[1].exitReason).to.eql("finalize");
+    });
+    it("lots added by default don't invest more than the equity", () => {
+        const strategy: IStrategy = {
+            maxUnits: 3,
+            entryRule: enterPosition => enterPosition(),
+        };
+
+        const trades = backtest(strategy, risingSeries, { startingCapital: 1000 });
+        expect(trades.length).to.eql(1);
+        expect(trades[0].quantity).to.be.closeTo(1000 / 11, 1e-9);
+    });
+
+    it("lots added by default invest the equity that isn't already invested", () => {
+        const strategy: IStrategy = {
+            maxUnits: 2,
+            entryRule: (enterPosition, args) => enterPosition({ reason: args.positions.length > 0 ? "add" : "entry-rule" }),
+            exitRule: (exitPosition, args) => {
+                if (args.positions.length === 1 && args.position.remainingFraction === undefined) {
+                    exitPosition({ fraction: 0.5 }); // Frees half of the equity.
+                }
+            },
+        };
+
+        const inputSeries = makeDataSeries([
+            { time: "2018/10/20", close: 10 },
+            { time: "2018/10/21", close: 10 }, // Enter first lot with all equity, exit half of it.
+            { time: "2018/10/22", close: 10 }, // Add second lot with the rest of the equity.
+            { time: "2018/10/23", close: 10 },
+        ]);
+
+        const trades = backtest(strategy, inputSeries, { startingCapital: 1000 });
+        const addedLots = trades.filter(trade => trade.entryReason === "add");
+        expect(addedLots.length).to.eql(1);
+        expect(addedLots[0].quantity).to.eql(50);
+    });
+});
@@ -0,0 +1,167 @@
+import { expect } from 'chai';
+import { DataFrame, IDataFrame } from 'data-forge';
+import * as moment from 'dayjs';
+import { analyze } from '../../lib/analyze';
+import { backtest } from '../../lib/backtest';
+import { IBar } from '../../lib/bar';
+import { IStrategy } from '../../lib/strategy';
+
+describe("backtest scale out", () => {
+
+    function makeTime(dateStr: string): number {
+        return moment(dateStr, "YYYY/MM/DD").valueOf();
+    }
+
+    function makeDataSeries(bars: { time: string, close: number, high?: number }[]): IDataFrame<number, IBar> {
+        return new DataFrame<number, IBar>(bars.map(bar => ({
+            time: makeTime(bar.time),
+            open: bar.close,
+            high: bar.high !== undefined ? bar.high : bar.close,
+            low: bar.close,
+            close: bar.close,
+            volume: 1,
+        })));
+    }
+
+    const inputSeries = makeDataSeries([
+        { time: "2018/10/20", close: 10 },
+        { time: "2018/10/21", close: 10 }, // Entry day.
+        { time: "2018/10/22", close: 12 },
+        { time: "2018/10/23", close: 14 },
+        { time: "2018/10/24", close: 16 },
+    ]);
+
+    it("can exit a fraction of the position", () => {
+        const strategy: IStrategy = {
+            entryRule: enterPosition => enterPosition(),
+            exitRule: (exitPosition, args) => {
+                if (args.bar.close === 12) {
+                    exitPosition({ fraction: 0.5, reason: "take-half" });
+                }
+            },
+        };
+
+        const trades = backtest(strategy, inputSeries);
+        expect(trades.length).to.eql(2);
+
+        expect(trades[0].exitReason).to.eql("take-half");
+        expect(trades[0].exitPrice).to.eql(12);
+        expect(trades[0].exitFraction).to.eql(0.5);
+        expect(trades[0].profit).to.eql(2);
+        expect(trades[0].growth).to.be.closeTo(1.1, 0.0001);
+
+        expect(trades[1].exitReason).to.eql("finalize");
+        expect(trades[1].exitPrice).to.eql(16);
+        expect(trades[1].exitFraction).to.eql(0.5);
+        expect(trades[1].growth).to.be.closeTo(1.3, 0.0001);
+
+        expect(trades[0].positionId).to.eql(trades[1].positionId);
+    });
+
+    it("a full exit doesn't record an exit fraction", () => {
+        const strategy: IStrategy = {
+            entryRule: enterPosition => enterPosition(),
+        };
+
+        const trades = backtest(strategy, inputSeries);
+        expect(trades.length).to.eql(1);
+        expect(trades[0].exitFraction).to.eql(undefined);
+    });
+
+    it("can exit a quantity of a sized position", () => {
+        const strategy: IStrategy = {
+            entryRule: enterPosition => enterPosition(),
+            exitRule: (exitPosition, args) => {
+                if (args.bar.close === 12) {
+                    exitPosition({ quantity: 4 });
+                }
+            },
+            positionSize: { type: "fixed-units", units: 10 },
+        };
+
+        const trades = backtest(strategy, inputSeries, { startingCapital: 1000 });
+        expect(trades.length).to.eql(2);
+        expect(trades[0].quantity).to.eql(4);
+        expect(trades[0].pnl).to.eql(8);
+        expect(trades[1].quantity).to.eql(6);
+        expect(trades[1].pnl).to.eql(36);
+
+        const analysis = analyze(1000, trades);
+        expect(analysis.finalCapital).to.eql(1044);
+    });
+
+    it("entry commission is shared between partial exits", () => {
+        const strategy: IStrategy = {
+            entryRule: enterPosition => enterPosition(),
+            exitRule: (exitPosition, args) => {
+                if (args.bar.close === 12) {
+                    exitPosition({ fraction: 0.5 });
+                }
+            },
+            positionSize: { type: "fixed-units", units: 10 },
+        };
+
+        const trades = backtest(strategy, inputSeries, {
+            startingCapital: 1000,
+            commission: { type: "fixed", amount: 2 },
+        });
+        expect(trades[0].entryCommission).to.eql(1);
+        expect(trades[0].exitCommission).to.eql(2);
+        expect(trades[0].pnl).to.be.closeTo(7, 0.0001);
+        expect(trades[1].entryCommission).to.eql(1);
+    });
+
+    it("can scale out at multiple profit targets", () => {
+        const strategy: IStrategy = {
+            entryRule: enterPosition => enterPosition(),
+            profitTarget: () => [
+                { distance: 4, fraction: 0.25 },
+                { distance: 1, fraction: 0.5 },
+            ],
+        };
+
+        const trades = backtest(strategy, inputSeries);
+        expect(trades.length).to.eql(3);
+        expect(trades.map(trade => trade.exitReason)).to.eql([ "profit-target", "profit-target", "finalize" ]);
+        expect(trades.map(trade => trade.exitPrice)).to.eql([ 12, 14, 16 ]); // Gapped through the first target.
+        expect(trades.map(trade => trade.exitFraction)).to.eql([ 0.5, 0.25, 0.25 ]);
+    });
+
+    it("multiple profit targets can be hit in the same bar", () => {
+        const strategy: IStrategy = {
+            entryRule: enterPosition => enterPosition(),
+            profitTarget: () => [
+                { distance: 1, fraction: 0.5 },
+                { distance: 3, fraction: 0.5 },
+            ],
+        };
+
+        const trades = backtest(strategy, makeDataSeries([
+            { time: "2018/10/20", close: 10 },
+            { time: "2018/10/21", close: 10 }, // Entry day.
+            { time: "2018/10/22", close: 11, high: 14 },
+            { time: "2018/10/23", close: 15 },
+        ]));
+        expect(trades.length).to.eql(2);
+        expect(trades.map(trade => trade.exitPrice)).to.eql([ 11, 13 ]);
+        expect(trades[1].exitFraction).to.eql(0.5);
+    });
+
+    it("remainder of the position is stopped out after scaling out", () => {
+        const strategy: IStrategy = {
+            entryRule: enterPosition => enterPosition(),
+            profitTarget: () => [ { distance: 2, fraction: 0.5 } ],
+            stopLoss: () => 1,
+        };
+
+        const trades = backtest(strategy, makeDataSeries([
+            { time: "2018/10/20", close: 10 },
+            { time: "2018/10/21", close: 10 }, // Entry day.
+            { time: "2018/10/22", close: 12 },
+            { time: "2018/10/23", close: 8 },
+        ]));
+        expect(trades.length).to.eql(2);
+        expect(trades.map(trade => trade.exitReason)).to.eql([ "profit-target", "stop-loss" ]);
+        expect(trades.map(trade => trade.exitPrice)).to.eql([ 12, 8 ]); // Gapped through the stop.
+    });
+});
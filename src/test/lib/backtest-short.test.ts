@@ -255,6 +255,54 @@ describe("backtest short", () => {
         expect(singleTrade.exitTime).to.eql(makeDate("2018/10/24"));
     });
 
+    it("stop loss exits short at the open when the price gaps up through the stop", () => {
+        
+        const strategy: IStrategy = {
+            entryRule: unconditionalShortEntry,
+            stopLoss: args => args.entryPrice * (20/100)
+        };
+
+        const inputSeries = makeDataSeries([
+            { time: "2018/10/20", close: 100 },
+            { time: "2018/10/21", close: 100 }, // Entry day.
+            { time: "2018/10/22", close: 110 },  // Hold
+            { time: "2018/10/23", open: 130, high: 135, low: 125, close: 128 },  // Gaps up through the stop.
+            { time: "2018/10/24", close: 128 },
+        ]);
+
+        const trades = backtest(strategy, inputSeries);
+        expect(trades.length).to.eql(1);
+
+        const singleTrade = trades[0];
+        expect(singleTrade.exitReason).to.eql("stop-loss");
+        expect(singleTrade.exitPrice).to.eql(130);
+        expect(singleTrade.gapFill).to.eql(true);
+    });
+
+    it("profit target exits short at the open when the price gaps down through the target", () => {
+        
+        const strategy: IStrategy = {
+            entryRule: unconditionalShortEntry,
+            profitTarget: args => args.entryPrice * (10/100)
+        };
+
+        const inputSeries = makeDataSeries([
+            { time: "2018/10/20", close: 100 },
+            { time: "2018/10/21", close: 100 }, // Entry day.
+            { time: "2018/10/22", close: 95 },  // Hold
+            { time: "2018/10/23", open: 85, high: 88, low: 80, close: 84 },  // Gaps down through the target.
+            { time: "2018/10/24", close: 84 },
+        ]);
+
+        const trades = backtest(strategy, inputSeries);
+        expect(trades.length).to.eql(1);
+
+        const singleTrade = trades[0];
+        expect(singleTrade.exitReason).to.eql("profit-target");
+        expect(singleTrade.exitPrice).to.eql(85);
+        expect(singleTrade.gapFill).to.eql(true);
+    });
+
     it("can exit short via trailing stop loss", () => {
         
         const strategy: IStrategy = {
@@ -576,4 +624,348 @@ describe("backtest short", () => {
         expect(singleTrade.growth).to.eql(2);
     });
 
+    it('open short position reports profit when the price drops', () => {
+
+        const openProfits: number[] = [];
+        const openRMultiples: number[] = [];
+        const strategy: IStrategy = {
+            entryRule: unconditionalShortEntry,
+            exitRule: (exitPosition, args) => {
+                openProfits.push(args.position.profit);
+                openRMultiples.push(args.position.curRMultiple!);
+            },
+            stopLoss: () => 10,
+        };
+
+        const inputData = makeDataSeries([
+            { time: "2018/10/20", close: 100 },
+            { time: "2018/10/21", close: 100 }, // Entered position.
+            { time: "2018/10/22", close: 90 },
+            { time: "2018/10/23", close: 105 },
+        ]);
+
+        backtest(strategy, inputData);
+        expect(openProfits).to.eql([ 10, -5 ]);
+        expect(openRMultiples.map(round)).to.eql([ 0.5, -1 ]);
+    });
+
+    //
+    // Short selling options that charge a borrow fee of 1% a bar.
+    //
+    const onePercentBorrowFee = { borrowRatePct: 252, barsPerYear: 252 };
+
+    const fallingDataSeries = makeDataSeries([
+        { time: "2018/10/20", close: 100 },
+        { time: "2018/10/21", close: 100 }, // Entered position.
+        { time: "2018/10/22", close: 90 },
+        { time: "2018/10/23", close: 80 },
+    ]);
+
+    it('borrow fees are charged for each bar a short position is held', () => {
+
+        const strategy: IStrategy = {
+            entryRule: unconditionalShortEntry,
+            positionSize: { type: "fixed-units", units: 10 },
+            shortSelling: onePercentBorrowFee,
+        };
+
+        const trades = backtest(strategy, fallingDataSeries, { startingCapital: 10000 });
+        const singleTrade = trades[0];
+        expect(singleTrade.borrowFees).to.eql(9 + 8);
+        expect(round(singleTrade.pnl!)).to.eql(200 - 17);
+        expect(round(singleTrade.profit)).to.eql(18.3);
+        expect(singleTrade.hardToBorrow).to.eql(undefined);
+    });
+
+    it('borrow fees are charged per unit without capital', () => {
+
+        const strategy: IStrategy = {
+            entryRule: unconditionalShortEntry,
+            shortSelling: onePercentBorrowFee,
+        };
+
+        const trades = backtest(strategy, fallingDataSeries);
+        expect(round(trades[0].borrowFees!)).to.eql(1.7);
+        expect(round(trades[0].profit)).to.eql(18.3);
+    });
+
+    it('borrow fees are shared between partial exits of a short position', () => {
+
+        const strategy: IStrategy = {
+            entryRule: unconditionalShortEntry,
+            exitRule: (exitPosition, args) => {
+                if (args.bar.close === 90) {
+                    exitPosition({ fraction: 0.5 });
+                }
+            },
+            positionSize: { type: "fixed-units", units: 10 },
+            shortSelling: onePercentBorrowFee,
+        };
+
+        const trades = backtest(strategy, fallingDataSeries, { startingCapital: 10000 });
+        expect(trades.map(trade => round(trade.borrowFees!))).to.eql([ 4.5, 4.5 + 4 ]);
+    });
+
+    it('hard to borrow instruments are charged the hard to borrow rate', () => {
+
+        const strategy: IStrategy = {
+            entryRule: unconditionalShortEntry,
+            positionSize: { type: "fixed-units", units: 10 },
+            shortSelling: {
+                ...onePercentBorrowFee,
+                hardToBorrowRatePct: 504,
+                isHardToBorrow: args => args.bar.close === 90,
+            },
+        };
+
+        const trades = backtest(strategy, fallingDataSeries, { startingCapital: 10000 });
+        expect(trades[0].borrowFees).to.eql(18 + 8);
+        expect(trades[0].hardToBorrow).to.eql(true);
+    });
+
+    it('long positions are not charged borrow fees', () => {
+
+        const strategy: IStrategy = {
+            entryRule: enterPosition => enterPosition(),
+            shortSelling: onePercentBorrowFee,
+        };
+
+        const trades = backtest(strategy, fallingDataSeries);
+        expect(trades[0].borrowFees).to.eql(undefined);
+    });
+
+    it('alternative uptick rule delays a short entry after a large decline', () => {
+
+        const strategy: IStrategy = {
+            entryRule: unconditionalShortEntry,
+            shortSelling: {
+                restriction: { type: "alternative-uptick" },
+            },
+        };
+
+        const inputData = makeDataSeries([
+            { time: "2018/10/20", close: 100 },
+            { time: "2018/10/21", open: 95, low: 88, close: 89 }, // Restricted after falling 10%.
+            { time: "2018/10/22", open: 88, close: 87 },          // Still restricted.
+            { time: "2018/10/23", open: 86, close: 85 },          // Entered position.
+            { time: "2018/10/24", close: 84 },
+        ]);
+
+        const trades = backtest(strategy, inputData);
+        expect(trades.length).to.eql(1);
+        expect(trades[0].entryTime).to.eql(makeDate("2018/10/23"));
+        expect(trades[0].entryPrice).to.eql(86);
+    });
+
+    it("can exit short via percent stop", () => {
+
+        const strategy: IStrategy = {
+            entryRule: unconditionalShortEntry,
+            stopLoss: { type: "percent", percent: 10 },
+        };
+
+        const inputSeries = makeDataSeries([
+            { time: "2018/10/20", close: 100 },
+            { time: "2018/10/21", close: 100 }, // Entry day, stop at 110.
+            { time: "2018/10/22", close: 105 }, // Hold
+            { time: "2018/10/23", open: 108, close: 111 }, // Stop loss triggered.
+            { time: "2018/10/24", close: 111 },
+        ]);
+
+        const trades = backtest(strategy, inputSeries);
+        expect(trades.length).to.eql(1);
+
+        const singleTrade = trades[0];
+        expect(singleTrade.exitReason).to.eql("stop-loss");
+        expect(singleTrade.exitTime).to.eql(makeDate("2018/10/23"));
+        expect(singleTrade.exitPrice).to.eql(110);
+    });
+
+    it("can exit short via ATR stop", () => {
+
+        const strategy: IStrategy = {
+            entryRule: unconditionalShortEntry,
+            stopLoss: { type: "atr", multiple: 2, period: 2 },
+            lookbackPeriod: 3,
+        };
+
+        const inputSeries = makeDataSeries([
+            { time: "2018/10/20", high: 102, low: 98, close: 100 },
+            { time: "2018/10/21", high: 102, low: 98, close: 100 },
+            { time: "2018/10/22", high: 102, low: 98, close: 100 },
+            { time: "2018/10/23", high: 102, low: 98, close: 100 }, // Entry day, ATR is 4 so the stop is at 108.
+            { time: "2018/10/24", close: 107 }, // Hold
+            { time: "2018/10/25", close: 109 }, // Stop loss triggered.
+            { time: "2018/10/26", close: 109 },
+        ]);
+
+        const trades = backtest(strategy, inputSeries);
+        expect(trades.length).to.eql(1);
+
+        const singleTrade = trades[0];
+        expect(singleTrade.stopPrice).to.eql(108);
+        expect(singleTrade.exitReason).to.eql("stop-loss");
+        expect(singleTrade.exitTime).to.eql(makeDate("2018/10/25"));
+    });
+
+    it("can exit short via chandelier stop", () => {
+
+        const strategy: IStrategy = {
+            entryRule: unconditionalShortEntry,
+            trailingStopLoss: { type: "chandelier", multiple: 1, period: 2 },
+            lookbackPeriod: 3,
+        };
+
+        const inputSeries = makeDataSeries([
+            { time: "2018/10/20", high: 101, low: 99, close: 100 },
+            { time: "2018/10/21", high: 101, low: 99, close: 100 },
+            { time: "2018/10/22", high: 101, low: 99, close: 100 },
+            { time: "2018/10/23", high: 101, low: 99, close: 100 }, // Entry day, stop at 101.
+            { time: "2018/10/24", high: 91, low: 89, close: 90 },   // Stop falls to 95.5 (lowest low 89 plus ATR 6.5).
+            { time: "2018/10/25", high: 95, low: 93, close: 94 },   // Hold, the stop doesn't rise.
+            { time: "2018/10/26", close: 96 }, // Stop loss triggered.
+            { time: "2018/10/27", close: 96 },
+        ]);
+
+        const trades = backtest(strategy, inputSeries);
+        expect(trades.length).to.eql(1);
+
+        const singleTrade = trades[0];
+        expect(singleTrade.exitReason).to.eql("stop-loss");
+        expect(singleTrade.exitTime).to.eql(makeDate("2018/10/26"));
+        expect(singleTrade.exitPrice).to.eql(96);
+    });
+
+    it("can exit short via parabolic SAR stop", () => {
+
+        const strategy: IStrategy = {
+            entryRule: unconditionalShortEntry,
+            trailingStopLoss: { type: "parabolic-sar", step: 0.5, maxStep: 0.5 },
+            lookbackPeriod: 5,
+        };
+
+        const inputSeries = makeDataSeries([
+            { time: "2018/10/20", high: 101, low: 99, close: 100 },
+            { time: "2018/10/21", high: 101, low: 99, close: 100 },
+            { time: "2018/10/22", high: 101, low: 99, close: 100 },
+            { time: "2018/10/23", high: 101, low: 99, close: 100 },
+            { time: "2018/10/24", high: 101, low: 99, close: 100 },
+            { time: "2018/10/25", high: 101, low: 99, close: 100 }, // Entry day, SAR at the high of 101.
+            { time: "2018/10/26", open: 94, high: 95, low: 89, close: 90 }, // Hold
+            { time: "2018/10/27", open: 88, high: 88, low: 84, close: 85 }, // SAR falls to 95, limited by the previous high.
+            { time: "2018/10/28", open: 90, close: 96 }, // Stop loss triggered.
+            { time: "2018/10/29", close: 96 },
+        ]);
+
+        const trades = backtest(strategy, inputSeries);
+        expect(trades.length).to.eql(1);
+
+        const singleTrade = trades[0];
+        expect(singleTrade.exitReason).to.eql("stop-loss");
+        expect(singleTrade.exitTime).to.eql(makeDate("2018/10/28"));
+        expect(singleTrade.exitPrice).to.eql(95);
+    });
+
+    it("breakeven stop moves the short stop to the entry price after the move is reached", () => {
+
+        const strategy: IStrategy = {
+            entryRule: unconditionalShortEntry,
+            stopLoss: args => 10,
+            trailingStopLoss: { type: "breakeven", afterR: 1 },
+        };
+
+        const inputSeries = makeDataSeries([
+            { time: "2018/10/20", close: 100 },
+            { time: "2018/10/21", close: 100 }, // Entry day, stop at 110.
+            { time: "2018/10/22", close: 88 },  // Moved 1.2R, stop to 100.
+            { time: "2018/10/23", open: 99, close: 101 }, // Stop loss triggered.
+            { time: "2018/10/24", close: 101 },
+        ]);
+
+        const trades = backtest(strategy, inputSeries);
+        expect(trades.length).to.eql(1);
+
+        const singleTrade = trades[0];
+        expect(singleTrade.exitReason).to.eql("stop-loss");
+        expect(singleTrade.exitTime).to.eql(makeDate("2018/10/23"));
+        expect(singleTrade.exitPrice).to.eql(100);
+    });
+
+    it("step stop ratchets the short stop down by whole steps", () => {
+
+        const strategy: IStrategy = {
+            entryRule: unconditionalShortEntry,
+            stopLoss: args => 10,
+            trailingStopLoss: { type: "step", stepR: 1 },
+        };
+
+        const inputSeries = makeDataSeries([
+            { time: "2018/10/20", close: 100 },
+            { time: "2018/10/21", close: 100 }, // Entry day, stop at 110.
+            { time: "2018/10/22", close: 75 },  // Moved 2.5R, stop down 2 steps to 90.
+            { time: "2018/10/23", open: 88, close: 92 }, // Stop loss triggered.
+            { time: "2018/10/24", close: 92 },
+        ]);
+
+        const trades = backtest(strategy, inputSeries);
+        expect(trades.length).to.eql(1);
+
+        const singleTrade = trades[0];
+        expect(singleTrade.exitReason).to.eql("stop-loss");
+        expect(singleTrade.exitTime).to.eql(makeDate("2018/10/23"));
+        expect(singleTrade.exitPrice).to.eql(90);
+    });
+
+    it("time decaying stop tightens the short stop as the position is held", () => {
+
+        const strategy: IStrategy = {
+            entryRule: unconditionalShortEntry,
+            stopLoss: args => 10,
+            trailingStopLoss: { type: "time-decay", bars: 4 },
+        };
+
+        const inputSeries = makeDataSeries([
+            { time: "2018/10/20", close: 100 },
+            { time: "2018/10/21", close: 100 }, // Entry day, stop at 110.
+            { time: "2018/10/22", close: 100 }, // Held 0 bars, stop at 110.
+            { time: "2018/10/23", close: 100 }, // Held 1 bar, stop at 107.5.
+            { time: "2018/10/24", close: 100 }, // Held 2 bars, stop at 105.
+            { time: "2018/10/25", close: 104 }, // Held 3 bars, stop at 102.5.
+            { time: "2018/10/26", close: 103 }, // Stop loss triggered.
+            { time: "2018/10/27", close: 103 },
+        ]);
+
+        const trades = backtest(strategy, inputSeries, { recordStopPrice: true });
+        expect(trades.length).to.eql(1);
+
+        const singleTrade = trades[0];
+        expect(singleTrade.stopPriceSeries!.map(point => point.value)).to.eql([ 110, 110, 107.5, 105, 102.5 ]);
+        expect(singleTrade.exitReason).to.eql("stop-loss");
+        expect(singleTrade.exitTime).to.eql(makeDate("2018/10/26"));
+    });
+
+    it('short sale restriction can be a custom function', () => {
+
+        const strategy: IStrategy = {
+            entryRule: unconditionalShortEntry,
+            shortSelling: {
+                restriction: () => true, // Never available to borrow.
+            },
+        };
+
+        const trades = backtest(strategy, fallingDataSeries);
+        expect(trades.length).to.eql(0);
+    });
+
+    it('throws for an unknown short sale restriction', () => {
+
+        const strategy: IStrategy = {
+            entryRule: unconditionalShortEntry,
+            shortSelling: {
+                restriction: { type: "no-shorting" } as any,
+            },
+        };
+
+        expect(() => backtest(strategy, fallingDataSeries)).to.throw();
+    });
 });
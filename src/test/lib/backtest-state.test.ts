@@ -0,0 +1,133 @@
+import { expect } from 'chai';
+import { DataFrame, IDataFrame } from 'data-forge';
+import * as moment from 'dayjs';
+import { backtest } from '../../lib/backtest';
+import { IBar } from '../../lib/bar';
+import { IParameterBucket, IStrategy } from '../../lib/strategy';
+
+describe("backtest strategy state", () => {
+
+    function makeTime(dateStr: string): number {
+        return moment(dateStr, "YYYY/MM/DD").valueOf();
+    }
+
+    function makeDataSeries(bars: { time: string, close: number }[]): IDataFrame<number, IBar> {
+        return new DataFrame<number, IBar>(bars.map(bar => ({
+            time: makeTime(bar.time),
+            open: bar.close,
+            high: bar.close,
+            low: bar.close,
+            close: bar.close,
+            volume: 1,
+        })));
+    }
+
+    const inputSeries = makeDataSeries([
+        { time: "2018/10/20", close: 10 },
+        { time: "2018/10/21", close: 11 }, // Entered.
+        { time: "2018/10/22", close: 12 }, // Exited.
+        { time: "2018/10/23", close: 13 },
+        { time: "2018/10/24", close: 14 },
+        { time: "2018/10/25", close: 15 },
+        { time: "2018/10/26", close: 16 }, // Entered.
+        { time: "2018/10/27", close: 17 }, // Exited.
+    ]);
+
+    interface ICounterState {
+        barsSinceExit: number;
+        numEntries: number;
+    }
+
+    //
+    // Waits 2 bars after each exit before entering again.
+    //
+    function makeStrategy(): IStrategy<IBar, IBar, IParameterBucket, number, ICounterState> {
+        return {
+            state: { barsSinceExit: 2, numEntries: 0 },
+            entryRule: (enterPosition, args) => {
+                if (args.state.barsSinceExit >= 2) {
+                    args.state.numEntries += 1;
+                    enterPosition();
+                }
+                args.state.barsSinceExit += 1;
+            },
+            exitRule: (exitPosition, args) => {
+                args.state.barsSinceExit = 0;
+                exitPosition();
+            },
+        };
+    }
+
+    it("state is passed to rules and kept between bars", () => {
+        const trades = backtest(makeStrategy(), inputSeries);
+        expect(trades.map(trade => trade.entryTime)).to.eql([ makeTime("2018/10/21"), makeTime("2018/10/26") ]);
+    });
+
+    it("each backtest starts with fresh state", () => {
+        const strategy = makeStrategy();
+        const first = backtest(strategy, inputSeries);
+        const second = backtest(strategy, inputSeries);
+        expect(second).to.eql(first);
+        expect(strategy.state).to.eql({ barsSinceExit: 2, numEntries: 0 });
+    });
+
+    it("state can be created by a function from the parameters", () => {
+        const strategy: IStrategy<IBar, IBar, IParameterBucket, number, { remaining: number }> = {
+            parameters: { maxEntries: 1 },
+            state: parameters => ({ remaining: parameters.maxEntries }),
+            entryRule: (enterPosition, args) => {
+                if (args.state.remaining > 0) {
+                    args.state.remaining -= 1;
+                    enterPosition();
+                }
+            },
+            exitRule: exitPosition => exitPosition(),
+        };
+
+        const trades = backtest(strategy, inputSeries);
+        expect(trades.length).to.eql(1);
+    });
+
+    it("state is passed to stops and profit targets", () => {
+        const distances: number[] = [];
+        const strategy: IStrategy<IBar, IBar, IParameterBucket, number, { stopDistance: number }> = {
+            state: { stopDistance: 5 },
+            entryRule: enterPosition => enterPosition(),
+            stopLoss: args => args.state.stopDistance,
+            trailingStopLoss: args => args.state.stopDistance,
+            profitTarget: args => {
+                distances.push(args.state.stopDistance);
+                return args.state.stopDistance * 2;
+            },
+        };
+
+        const trades = backtest(strategy, inputSeries);
+        expect(trades[0].stopPrice).to.eql(6);
+        expect(trades[0].profitTarget).to.eql(21);
+        expect(distances).to.eql([ 5 ]);
+    });
+
+    it("trades record a snapshot of the state at entry and exit", () => {
+        const trades = backtest(makeStrategy(), inputSeries);
+        expect(trades[0].entryState).to.eql({ barsSinceExit: 3, numEntries: 1 });
+        expect(trades[0].exitState).to.eql({ barsSinceExit: 0, numEntries: 1 });
+        expect(trades[1].entryState).to.eql({ barsSinceExit: 3, numEntries: 2 });
+    });
+
+    it("trades are typed with the strategy's state", () => {
+        const trades = backtest(makeStrategy(), inputSeries);
+        const entryState: ICounterState = trades[0].entryState!;
+        const exitState: ICounterState = trades[0].exitState!;
+        expect(exitState.numEntries - entryState.numEntries).to.eql(0);
+    });
+
+    it("trades don't record state when the strategy doesn't define it", () => {
+        const strategy: IStrategy = {
+            entryRule: enterPosition => enterPosition(),
+        };
+
+        const trades = backtest(strategy, inputSeries);
+        expect(trades[0].entryState).to.eql(undefined);
+        expect(trades[0].exitState).to.eql(undefined);
+    });
+});
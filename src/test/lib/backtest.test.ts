@@ -277,7 +277,7 @@ describe("backtest", () => {
             { time: "2018/10/24", open: 9, close: 10 },
         ]);
 
-        const trades = backtest(strategy, inputSeries);
+        const trades = backtest(strategy, inputSeries, { fillTiming: { exit: "next-open" } });
         const singleTrade = trades[0];
         expect(singleTrade.exitPrice).to.eql(7);
     });
@@ -552,6 +552,23 @@ describe("backtest", () => {
         expect(lookbackPeriodChecked).to.eql(true);
     });
 
+    it("lookback is oldest bar first after the lookback period fills", ()  => {
+
+        const lookbackCloses: number[][] = [];
+
+        const strategy: IStrategy = { 
+            lookbackPeriod: 2,
+
+            entryRule: (enterPosition, args) => {
+                lookbackCloses.push(args.lookback.toArray().map(bar => bar.close));
+            },
+         };
+
+        backtest(strategy, longerDataSeries);
+
+        expect(lookbackCloses).to.eql([ [ 1, 2 ], [ 2, 4 ], [ 4, 5 ], [ 5, 6 ] ]);
+    });
+
     it("exception is thrown when there is less data than the lookback period", () => {
 
         const strategy: IStrategy = { 
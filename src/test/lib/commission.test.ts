@@ -0,0 +1,128 @@
+import { expect } from 'chai';
+import { DataFrame, IDataFrame } from 'data-forge';
+import * as moment from 'dayjs';
+import { analyze } from '../../lib/analyze';
+import { backtest } from '../../lib/backtest';
+import { IBar } from '../../lib/bar';
+import { computeCommission, ICommissionArgs } from '../../lib/commission';
+import { IStrategy, TradeDirection } from '../../lib/strategy';
+
+describe("commission", () => {
+
+    function makeTime(dateStr: string): number {
+        return moment(dateStr, "YYYY/MM/DD").valueOf();
+    }
+
+    function makeDataSeries(bars: { time: string, open?: number, close: number }[]): IDataFrame<number, IBar> {
+        return new DataFrame<number, IBar>(bars.map(bar => ({
+            time: makeTime(bar.time),
+            open: bar.open !== undefined ? bar.open : bar.close,
+            high: bar.close,
+            low: bar.close,
+            close: bar.close,
+            volume: 1,
+        })));
+    }
+
+    const fill: ICommissionArgs = {
+        direction: TradeDirection.Long,
+        side: "entry",
+        price: 10,
+        quantity: 100,
+    };
+
+    it("can compute fixed commission", () => {
+        expect(computeCommission({ type: "fixed", amount: 5 }, fill)).to.eql(5);
+    });
+
+    it("can compute per share commission", () => {
+        expect(computeCommission({ type: "per-share", amount: 0.01 }, fill)).to.eql(1);
+    });
+
+    it("can compute commission as a percentage of notional value", () => {
+        expect(computeCommission({ type: "percent", percent: 0.5 }, fill)).to.eql(5);
+    });
+
+    it("commission is limited to minimum and maximum", () => {
+        expect(computeCommission({ type: "per-share", amount: 0.01, minimum: 2 }, fill)).to.eql(2);
+        expect(computeCommission({ type: "percent", percent: 1, maximum: 6 }, fill)).to.eql(6);
+    });
+
+    it("can compute tiered commission", () => {
+        const tiered = {
+            type: "tiered" as const,
+            tiers: [
+                { upTo: 500, commission: { type: "fixed" as const, amount: 3 } },
+                { upTo: 5000, commission: { type: "fixed" as const, amount: 10 } },
+                { commission: { type: "percent" as const, percent: 0.1 } },
+            ],
+        };
+
+        expect(computeCommission(tiered, { ...fill, quantity: 10 })).to.eql(3);
+        expect(computeCommission(tiered, fill)).to.eql(10);
+        expect(computeCommission(tiered, { ...fill, quantity: 1000 })).to.eql(10);
+    });
+
+    it("tiered commission with no matching tier throws", () => {
+        const tiered = {
+            type: "tiered" as const,
+            tiers: [
+                { upTo: 500, commission: { type: "fixed" as const, amount: 3 } },
+            ],
+        };
+
+        expect(() => computeCommission(tiered, fill)).to.throw();
+    });
+
+    it("can compute commission with a custom function", () => {
+        const commission = computeCommission(args => args.side === "entry" ? 7 : 0, fill);
+        expect(commission).to.eql(7);
+    });
+
+    const strategy: IStrategy = {
+        entryRule: enterPosition => enterPosition({ direction: TradeDirection.Long }),
+    };
+
+    const inputSeries = makeDataSeries([
+        { time: "2018/10/20", close: 100 },
+        { time: "2018/10/21", close: 100 }, // Entry day.
+        { time: "2018/10/22", close: 120 }, // Finalized at close.
+    ]);
+
+    it("commission is recorded on the trade and deducted from profit", () => {
+        const trades = backtest(strategy, inputSeries, { commission: { type: "fixed", amount: 5 } });
+        expect(trades.length).to.eql(1);
+
+        const trade = trades[0];
+        expect(trade.entryCommission).to.eql(5);
+        expect(trade.exitCommission).to.eql(5);
+        expect(trade.profit).to.eql(10);
+        expect(trade.profitPct).to.eql(10);
+        expect(trade.growth).to.eql(115 / 105);
+    });
+
+    it("commission reduces growth for short trades", () => {
+        const shortStrategy: IStrategy = {
+            entryRule: enterPosition => enterPosition({ direction: TradeDirection.Short }),
+        };
+        const trades = backtest(shortStrategy, inputSeries, { commission: { type: "fixed", amount: 5 } });
+        const trade = trades[0];
+        expect(trade.profit).to.eql(-30);
+        expect(trade.growth).to.eql(95 / 125);
+    });
+
+    it("trades without commission are unaffected", () => {
+        const trades = backtest(strategy, inputSeries);
+        const trade = trades[0];
+        expect(trade.entryCommission).to.eql(undefined);
+        expect(trade.exitCommission).to.eql(undefined);
+        expect(trade.profit).to.eql(20);
+        expect(trade.growth).to.eql(1.2);
+    });
+
+    it("analysis sees profit net of commission", () => {
+        const trades = backtest(strategy, inputSeries, { commission: { type: "fixed", amount: 5 } });
+        const analysis = analyze(1000, trades);
+        expect(analysis.finalCapital).to.be.closeTo(1000 * 115 / 105, 0.0001);
+    });
+});
@@ -257,4 +257,21 @@ describe("compute drawdown", () => {
         expect(drawdown[2]).to.eql(0);
         expect(drawdown[3]).to.eql(-15);
     });
-});
\ No newline at end of file
+
+    it("can compute drawdown from a timestamped equity curve", () => {
+        const drawdown = computeDrawdown([
+            { time: 1, value: 100 },
+            { time: 2, value: 90 },
+            { time: 3, value: 120 },
+            { time: 4, value: 60 },
+            { time: 5, value: 80 },
+        ]);
+        expect(drawdown).to.eql([
+            { time: 1, value: 0 },
+            { time: 2, value: -10 },
+            { time: 3, value: 0 },
+            { time: 4, value: -60 },
+            { time: 5, value: -40 },
+        ]);
+    });
+});
@@ -0,0 +1,143 @@
+import { expect } from 'chai';
+import { DataFrame, IDataFrame } from 'data-forge';
+import * as moment from 'dayjs';
+import { backtest } from '../../lib/backtest';
+import { IBar } from '../../lib/bar';
+import { IIntrabarPathArgs, resolveIntrabarPath } from '../../lib/intrabar-path';
+import { IStrategy, TradeDirection } from '../../lib/strategy';
+
+describe("intrabar path", () => {
+
+    function makeTime(dateStr: string): number {
+        return moment(dateStr, "YYYY/MM/DD").valueOf();
+    }
+
+    function makeBar(open: number, high: number, low: number, close: number): IBar {
+        return {
+            time: makeTime("2018/10/20"),
+            open,
+            high,
+            low,
+            close,
+            volume: 1,
+        };
+    }
+
+    function makeArgs(bar: IBar, direction = TradeDirection.Long): IIntrabarPathArgs {
+        return {
+            bar,
+            direction,
+            stopPrice: direction === TradeDirection.Long ? 90 : 110,
+            profitTarget: direction === TradeDirection.Long ? 110 : 90,
+        };
+    }
+
+    const risingBar = makeBar(100, 115, 85, 105);
+    const fallingBar = makeBar(100, 115, 85, 95);
+
+    it("pessimistic path reaches the stop first", () => {
+        expect(resolveIntrabarPath({ type: "pessimistic" }, makeArgs(risingBar))).to.eql({ exit: "stop-loss", resolvedBy: "pessimistic" });
+    });
+
+    it("optimistic path reaches the profit target first", () => {
+        expect(resolveIntrabarPath({ type: "optimistic" }, makeArgs(risingBar))).to.eql({ exit: "profit-target", resolvedBy: "optimistic" });
+    });
+
+    it("rising bar reaches the low first", () => {
+        expect(resolveIntrabarPath({ type: "ohlc" }, makeArgs(risingBar)).exit).to.eql("stop-loss");
+        expect(resolveIntrabarPath({ type: "ohlc" }, makeArgs(risingBar, TradeDirection.Short)).exit).to.eql("profit-target");
+    });
+
+    it("falling bar reaches the high first", () => {
+        expect(resolveIntrabarPath({ type: "ohlc" }, makeArgs(fallingBar)).exit).to.eql("profit-target");
+        expect(resolveIntrabarPath({ type: "ohlc" }, makeArgs(fallingBar, TradeDirection.Short)).exit).to.eql("stop-loss");
+    });
+
+    it("bar that opens beyond a level reaches it first", () => {
+        const gapBar = makeBar(112, 115, 85, 105);
+        expect(resolveIntrabarPath({ type: "pessimistic" }, makeArgs(gapBar))).to.eql({ exit: "profit-target", resolvedBy: "open" });
+    });
+
+    it("can drill down into lower timeframe bars", () => {
+        const lowerBars = [
+            makeBar(100, 104, 98, 103),
+            makeBar(103, 112, 102, 111), // Profit target.
+            makeBar(111, 111, 85, 105),  // Stop.
+        ];
+        const resolution = resolveIntrabarPath({ type: "drill-down", getBars: () => lowerBars }, makeArgs(risingBar));
+        expect(resolution).to.eql({ exit: "profit-target", resolvedBy: "drill-down" });
+    });
+
+    it("drill down falls back when lower timeframe bars are not available", () => {
+        const resolution = resolveIntrabarPath({ type: "drill-down", getBars: () => undefined, fallback: { type: "optimistic" } }, makeArgs(risingBar));
+        expect(resolution).to.eql({ exit: "profit-target", resolvedBy: "optimistic" });
+    });
+
+    it("can resolve the path with a custom function", () => {
+        const resolution = resolveIntrabarPath(() => "profit-target", makeArgs(risingBar));
+        expect(resolution).to.eql({ exit: "profit-target", resolvedBy: "custom" });
+    });
+
+    it("throws for an unknown model", () => {
+        expect(() => resolveIntrabarPath({ type: "random" } as any, makeArgs(risingBar))).to.throw();
+    });
+
+    function makeDataSeries(bars: { time: string, open: number, high: number, low: number, close: number }[]): IDataFrame<number, IBar> {
+        return new DataFrame<number, IBar>(bars.map(bar => ({ ...bar, time: makeTime(bar.time), volume: 1 })));
+    }
+
+    const strategy: IStrategy = {
+        entryRule: enterPosition => enterPosition(),
+        stopLoss: () => 10,
+        profitTarget: () => 10,
+    };
+
+    const inputSeries = makeDataSeries([
+        { time: "2018/10/20", open: 100, high: 100, low: 100, close: 100 },
+        { time: "2018/10/21", open: 100, high: 100, low: 100, close: 100 }, // Entry day.
+        { time: "2018/10/22", open: 100, high: 115, low: 85, close: 88 },   // Reaches both the stop and the target.
+        { time: "2018/10/23", open: 95, high: 95, low: 95, close: 95 },
+    ]);
+
+    it("stop is checked first by default", () => {
+        const trades = backtest(strategy, inputSeries);
+        expect(trades[0].exitReason).to.eql("stop-loss");
+        expect(trades[0].intrabarResolution).to.eql("stop-first");
+    });
+
+    it("backtest records how the exit was resolved", () => {
+        const trades = backtest(strategy, inputSeries, { intrabarPath: { type: "ohlc" } });
+        expect(trades.length).to.eql(1);
+        expect(trades[0].exitReason).to.eql("profit-target");
+        expect(trades[0].exitPrice).to.eql(110);
+        expect(trades[0].intrabarResolution).to.eql("ohlc");
+    });
+
+    it("stops are triggered by the low when a path model is set", () => {
+        const lowSeries = makeDataSeries([
+            { time: "2018/10/20", open: 100, high: 100, low: 100, close: 100 },
+            { time: "2018/10/21", open: 100, high: 100, low: 100, close: 100 }, // Entry day.
+            { time: "2018/10/22", open: 100, high: 101, low: 85, close: 99 },   // Body doesn't reach the stop.
+            { time: "2018/10/23", open: 99, high: 99, low: 99, close: 99 },
+        ]);
+
+        expect(backtest(strategy, lowSeries)[0].exitReason).to.eql("finalize");
+
+        const trades = backtest(strategy, lowSeries, { intrabarPath: { type: "pessimistic" } });
+        expect(trades[0].exitReason).to.eql("stop-loss");
+        expect(trades[0].exitPrice).to.eql(90);
+        expect(trades[0].intrabarResolution).to.eql(undefined);
+    });
+
+    it("remainder of a position is stopped out after scaling out in the same bar", () => {
+        const scaleOutStrategy: IStrategy = {
+            entryRule: enterPosition => enterPosition(),
+            stopLoss: () => 10,
+            profitTarget: () => [ { distance: 10, fraction: 0.5 } ],
+        };
+
+        const trades = backtest(scaleOutStrategy, inputSeries, { intrabarPath: { type: "optimistic" } });
+        expect(trades.map(trade => trade.exitReason)).to.eql([ "profit-target", "stop-loss" ]);
+        expect(trades.map(trade => trade.exitPrice)).to.eql([ 110, 90 ]);
+    });
+});
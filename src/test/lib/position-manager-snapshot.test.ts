@@ -0,0 +1,137 @@
+import { expect } from 'chai';
+import { DataFrame, IDataFrame } from 'data-forge';
+import * as moment from 'dayjs';
+import { backtest, IBacktestOptions } from '../../lib/backtest';
+import { IBar } from '../../lib/bar';
+import { PositionManager } from '../../lib/position-manager';
+import { IStrategy, TradeDirection } from '../../lib/strategy';
+import { ITrade } from '../../lib/trade';
+
+describe("position manager snapshot", () => {
+
+    function makeTime(dateStr: string): number {
+        return moment(dateStr, "YYYY/MM/DD").valueOf();
+    }
+
+    function makeDataSeries(closes: number[]): IDataFrame<number, IBar> {
+        return new DataFrame<number, IBar>(closes.map((close, index) => ({
+            time: moment("2018/10/01", "YYYY/MM/DD").add(index, "day").valueOf(),
+            open: close - 0.5,
+            high: close + 1,
+            low: close - 1,
+            close: close,
+            volume: 1,
+        })));
+    }
+
+    const inputSeries = makeDataSeries([ 10, 11, 12, 11, 9, 8, 9, 10, 12, 14, 13, 11, 10, 9, 11, 12, 13, 15, 14, 12 ]);
+
+    interface ISwingState {
+        numEntries: number;
+    }
+
+    const strategy: IStrategy<IBar, IBar, { lookback: number }, number, ISwingState> = {
+        parameters: { lookback: 3 },
+        lookbackPeriod: 3,
+        state: { numEntries: 0 },
+        entryRule: (enterPosition, args) => {
+            if (args.pendingEntry !== undefined) {
+                return;
+            }
+            const closes = args.lookback.deflate(bar => bar.close).toArray();
+            if (closes[closes.length - 1] < closes[0]) {
+                args.state.numEntries += 1;
+                enterPosition({ orderType: "limit", limitPrice: args.bar.close - 0.5, goodForBars: 2 });
+            }
+            else if (closes[closes.length - 1] > closes[0] + 2) {
+                args.state.numEntries += 1;
+                enterPosition({ direction: TradeDirection.Short });
+            }
+        },
+        exitRule: (exitPosition, args) => {
+            if (args.position.holdingPeriod >= 3) {
+                exitPosition({ fraction: 0.5, reason: "time" });
+            }
+        },
+        stopLoss: () => 2,
+        trailingStopLoss: () => 3,
+        profitTarget: () => 5,
+        positionSize: { type: "fixed-units", units: 10 },
+    };
+
+    const options: IBacktestOptions = {
+        startingCapital: 1000,
+        commission: { type: "fixed", amount: 1 },
+        fillTiming: { exit: "next-open" },
+    };
+
+    //
+    // Backtest in two runs, the position manager is snapshot after the split bar and resumed from the snapshot.
+    //
+    function backtestWithSplit(splitIndex: number): ITrade[] {
+        const bars = inputSeries.toArray();
+        const first = new PositionManager(strategy, options);
+        for (const bar of bars.slice(0, splitIndex)) {
+            first.addBar(bar);
+        }
+
+        const persisted = JSON.stringify(first);
+        const second = PositionManager.fromSnapshot(JSON.parse(persisted), strategy, options);
+        for (const bar of bars.slice(splitIndex)) {
+            second.addBar(bar);
+        }
+        second.complete(bars[bars.length - 1]);
+        return second.completedTrades;
+    }
+
+    //
+    // Normalizes trades as they would be after being persisted.
+    //
+    function normalize(trades: ITrade[]): ITrade[] {
+        return JSON.parse(JSON.stringify(trades));
+    }
+
+    it("a backtest resumed from a snapshot produces the same trades as an uninterrupted backtest", () => {
+        const expected = normalize(backtest(strategy, inputSeries, options));
+        expect(expected.length).to.be.greaterThan(2);
+
+        for (let splitIndex = 1; splitIndex < inputSeries.count(); ++splitIndex) {
+            expect(normalize(backtestWithSplit(splitIndex)), `split at bar ${splitIndex}`).to.eql(expected);
+        }
+    });
+
+    it("snapshot is versioned and doesn't contain the strategy", () => {
+        const positionManager = new PositionManager(strategy, options);
+        positionManager.addBar(inputSeries.first());
+
+        const snapshot = positionManager.toJSON();
+        expect(snapshot.version).to.eql(1);
+        expect(snapshot.lookback.length).to.eql(1);
+        expect(snapshot.cash).to.eql(1000);
+        expect(snapshot.state).to.eql({ numEntries: 0 });
+        expect((snapshot as any).strategy).to.eql(undefined);
+    });
+
+    it("snapshot isn't changed by later bars", () => {
+        const positionManager = new PositionManager(strategy, options);
+        positionManager.addBar(inputSeries.first());
+
+        const snapshot = positionManager.toJSON();
+        positionManager.addBar(inputSeries.skip(1).first());
+        expect(snapshot.lookback.length).to.eql(1);
+    });
+
+    it("restores cash when trading with capital", () => {
+        const positionManager = new PositionManager(strategy, options);
+        positionManager.account!.cash = 500;
+
+        const resumed = PositionManager.fromSnapshot(positionManager.toJSON(), strategy, options);
+        expect(resumed.cash).to.eql(500);
+    });
+
+    it("throws for an unsupported snapshot version", () => {
+        const snapshot = new PositionManager(strategy, options).toJSON();
+        snapshot.version = 99;
+        expect(() => PositionManager.fromSnapshot(snapshot, strategy, options)).to.throw();
+    });
+});
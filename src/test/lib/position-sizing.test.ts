@@ -0,0 +1,169 @@
+import { expect } from 'chai';
+import { DataFrame, IDataFrame } from 'data-forge';
+import * as moment from 'dayjs';
+import { analyze } from '../../lib/analyze';
+import { backtest } from '../../lib/backtest';
+import { IBar } from '../../lib/bar';
+import { computeEquityCurve } from '../../lib/compute-equity-curve';
+import { IPosition } from '../../lib/position';
+import { computePositionSize, IPositionSizeArgs } from '../../lib/position-sizing';
+import { IStrategy, TradeDirection } from '../../lib/strategy';
+
+describe("position sizing", () => {
+
+    function makeTime(dateStr: string): number {
+        return moment(dateStr, "YYYY/MM/DD").valueOf();
+    }
+
+    function makeDataSeries(bars: { time: string, close: number }[]): IDataFrame<number, IBar> {
+        return new DataFrame<number, IBar>(bars.map(bar => ({
+            time: makeTime(bar.time),
+            open: bar.close,
+            high: bar.close,
+            low: bar.close,
+            close: bar.close,
+            volume: 1,
+        })));
+    }
+
+    function makeArgs(position: Partial<IPosition>, closes: number[] = [ 10 ]): IPositionSizeArgs<IBar, {}> {
+        const lookback = makeDataSeries(closes.map((close, index) => ({ time: `2018/10/${20 + index}`, close })));
+        return {
+            entryPrice: 10,
+            position: Object.assign({
+                direction: TradeDirection.Long,
+                entryTime: makeTime("2018/10/20"),
+                entryPrice: 10,
+                growth: 1,
+                profit: 0,
+                profitPct: 0,
+                holdingPeriod: 0,
+                maxPriceRecorded: 10,
+            }, position),
+            bar: lookback.last(),
+            lookback: lookback,
+            parameters: {},
+            state: undefined,
+            equity: 1000,
+            cash: 1000,
+        };
+    }
+
+    it("can trade a fixed number of units", () => {
+        expect(computePositionSize({ type: "fixed-units", units: 7 }, makeArgs({}))).to.eql(7);
+    });
+
+    it("can invest a fixed fraction of equity", () => {
+        expect(computePositionSize({ type: "fixed-fractional", percent: 50 }, makeArgs({}))).to.eql(50);
+    });
+
+    it("can risk a fixed percentage of equity", () => {
+        const size = computePositionSize({ type: "fixed-risk", riskPercent: 1 }, makeArgs({ initialUnitRisk: 2 }));
+        expect(size).to.eql(5);
+    });
+
+    it("fixed risk requires a stop loss", () => {
+        expect(() => computePositionSize({ type: "fixed-risk", riskPercent: 1 }, makeArgs({}))).to.throw();
+    });
+
+    it("can size to target volatility", () => {
+        const args = makeArgs({}, [ 10, 11, 10, 11 ]);
+        const size = computePositionSize({ type: "volatility-target", targetPercent: 1 }, args);
+        expect(size).to.be.greaterThan(0);
+
+        const calmerArgs = makeArgs({}, [ 10, 10.1, 10, 10.1 ]);
+        const calmerSize = computePositionSize({ type: "volatility-target", targetPercent: 1 }, calmerArgs);
+        expect(calmerSize).to.be.greaterThan(size);
+    });
+
+    it("can size with the kelly criterion", () => {
+        const size = computePositionSize({ type: "kelly", winRate: 0.5, payoffRatio: 2, fraction: 0.5 }, makeArgs({}));
+        expect(size).to.eql(12.5);
+    });
+
+    it("can size with a custom function", () => {
+        expect(computePositionSize(args => args.cash / 100, makeArgs({}))).to.eql(10);
+    });
+
+    const inputSeries = makeDataSeries([
+        { time: "2018/10/20", close: 10 },
+        { time: "2018/10/21", close: 10 }, // Entry day.
+        { time: "2018/10/22", close: 12 },
+        { time: "2018/10/23", close: 15 }, // Finalized at close.
+    ]);
+
+    it("position sizing requires starting capital", () => {
+        const strategy: IStrategy = {
+            entryRule: enterPosition => enterPosition(),
+            positionSize: { type: "fixed-units", units: 10 },
+        };
+
+        expect(() => backtest(strategy, inputSeries)).to.throw();
+    });
+
+    it("trade records quantity, notional and dollar profit", () => {
+        const strategy: IStrategy = {
+            entryRule: enterPosition => enterPosition(),
+            positionSize: { type: "fixed-units", units: 10 },
+        };
+
+        const trades = backtest(strategy, inputSeries, { startingCapital: 1000 });
+        expect(trades.length).to.eql(1);
+
+        const trade = trades[0];
+        expect(trade.quantity).to.eql(10);
+        expect(trade.notional).to.eql(100);
+        expect(trade.profit).to.eql(5);
+        expect(trade.pnl).to.eql(50);
+    });
+
+    it("invests all equity by default when trading with capital", () => {
+        const strategy: IStrategy = {
+            entryRule: enterPosition => enterPosition(),
+        };
+
+        const trades = backtest(strategy, inputSeries, { startingCapital: 1000 });
+        expect(trades[0].quantity).to.eql(100);
+        expect(trades[0].pnl).to.eql(500);
+    });
+
+    it("commission is charged per unit for sized positions", () => {
+        const strategy: IStrategy = {
+            entryRule: enterPosition => enterPosition(),
+            positionSize: { type: "fixed-units", units: 10 },
+        };
+
+        const trades = backtest(strategy, inputSeries, {
+            startingCapital: 1000,
+            commission: { type: "per-share", amount: 0.1 },
+        });
+        expect(trades[0].entryCommission).to.eql(1);
+        expect(trades[0].exitCommission).to.eql(1);
+        expect(trades[0].pnl).to.eql(48);
+    });
+
+    it("analysis works from dollar profit of sized trades", () => {
+        const strategy: IStrategy = {
+            entryRule: enterPosition => enterPosition(),
+            positionSize: { type: "fixed-units", units: 10 },
+        };
+
+        const trades = backtest(strategy, inputSeries, { startingCapital: 1000 });
+        const analysis = analyze(1000, trades);
+        expect(analysis.finalCapital).to.eql(1050);
+        expect(analysis.averageWinningTrade).to.eql(50);
+
+        const equityCurve = computeEquityCurve(1000, trades);
+        expect(equityCurve).to.eql([ 1000, 1050 ]);
+    });
+
+    it("entry is skipped when the position size is zero", () => {
+        const strategy: IStrategy = {
+            entryRule: enterPosition => enterPosition(),
+            positionSize: () => 0,
+        };
+
+        const trades = backtest(strategy, inputSeries, { startingCapital: 1000 });
+        expect(trades.length).to.eql(0);
+    });
+});
@@ -0,0 +1,125 @@
+import { expect } from 'chai';
+import { computeMonthlyReturns, computePeriodReturns, computeRollingMetrics } from '../../lib/returns';
+import { computeRiskMetrics } from '../../lib/risk-metrics';
+import { ITimestampedValue } from '../../lib/trade';
+
+describe("returns", () => {
+
+    function makeEquityCurve(points: [string, number][]): ITimestampedValue[] {
+        return points.map(([ time, value ]) => ({ time: Date.parse(time), value }));
+    }
+
+    const equityCurve = makeEquityCurve([
+        [ "2018-11-29T12:00:00Z", 100 ],
+        [ "2018-11-30T12:00:00Z", 110 ],
+        [ "2018-12-03T12:00:00Z", 99 ],
+        [ "2018-12-31T12:00:00Z", 121 ],
+        [ "2019-01-02T12:00:00Z", 133.1 ],
+    ]);
+
+    it("computes daily returns", () => {
+        const returns = computePeriodReturns(equityCurve, "daily");
+        expect(returns.map(period => period.period)).to.eql([ "2018-11-29", "2018-11-30", "2018-12-03", "2018-12-31", "2019-01-02" ]);
+        expect(returns[0].returnPct).to.eql(0);
+        expect(returns[1].returnPct).to.be.closeTo(10, 0.0001);
+        expect(returns[2].returnPct).to.be.closeTo(-10, 0.0001);
+    });
+
+    it("computes weekly returns for weeks starting on Monday", () => {
+        const returns = computePeriodReturns(equityCurve, "weekly");
+        expect(returns.map(period => period.period)).to.eql([ "2018-11-26", "2018-12-03", "2018-12-31" ]);
+        expect(returns[0].returnPct).to.be.closeTo(10, 0.0001);
+        expect(returns[1].startValue).to.eql(110);
+        expect(returns[1].returnPct).to.be.closeTo(-10, 0.0001);
+        expect(returns[2].returnPct).to.be.closeTo(34.4444, 0.0001);
+    });
+
+    it("computes monthly returns", () => {
+        const returns = computePeriodReturns(equityCurve, "monthly");
+        expect(returns.map(period => period.period)).to.eql([ "2018-11", "2018-12", "2019-01" ]);
+        expect(returns.map(period => period.returnPct.toFixed(4))).to.eql([ "10.0000", "10.0000", "10.0000" ]);
+        expect(returns[1].startTime).to.eql(Date.parse("2018-12-03T12:00:00Z"));
+        expect(returns[1].endTime).to.eql(Date.parse("2018-12-31T12:00:00Z"));
+    });
+
+    it("computes quarterly and yearly returns", () => {
+        expect(computePeriodReturns(equityCurve, "quarterly").map(period => period.period)).to.eql([ "2018-Q4", "2019-Q1" ]);
+
+        const yearlyReturns = computePeriodReturns(equityCurve, "yearly");
+        expect(yearlyReturns.map(period => period.period)).to.eql([ "2018", "2019" ]);
+        expect(yearlyReturns[0].returnPct).to.be.closeTo(21, 0.0001);
+    });
+
+    it("periods are measured in the configured timezone", () => {
+        const returns = computePeriodReturns(makeEquityCurve([
+            [ "2018-12-31T12:00:00Z", 100 ],
+            [ "2019-01-01T02:00:00Z", 110 ], // Still 2018 in New York.
+        ]), "yearly", { timezone: "America/New_York" });
+        expect(returns.map(period => period.period)).to.eql([ "2018" ]);
+    });
+
+    it("throws for an unknown period", () => {
+        expect(() => computePeriodReturns(equityCurve, "hourly" as any)).to.throw();
+    });
+
+    it("computes the month by year table with yearly totals", () => {
+        const table = computeMonthlyReturns(equityCurve);
+        expect(table.length).to.eql(2);
+        expect(table[0].year).to.eql(2018);
+        expect(table[0].months.slice(0, 10)).to.eql(new Array(10).fill(undefined));
+        expect(table[0].months[10]).to.be.closeTo(10, 0.0001);
+        expect(table[0].months[11]).to.be.closeTo(10, 0.0001);
+        expect(table[0].yearPct).to.be.closeTo(21, 0.0001);
+        expect(table[1].year).to.eql(2019);
+        expect(table[1].months[0]).to.be.closeTo(10, 0.0001);
+        expect(table[1].yearPct).to.be.closeTo(10, 0.0001);
+    });
+
+    it("computes rolling metrics", () => {
+        const metrics = computeRollingMetrics(equityCurve, 2, { barsPerYear: 1 });
+        expect(metrics.length).to.eql(3);
+        expect(metrics[0].time).to.eql(Date.parse("2018-12-03T12:00:00Z"));
+        expect(metrics[0].winRatePct).to.eql(50);
+        expect(metrics[0].maxDrawdownPct).to.be.closeTo(-10, 0.0001);
+        expect(metrics[0].sharpeRatio).to.be.closeTo(0, 0.0001);
+        expect(metrics[2].winRatePct).to.eql(100);
+        expect(metrics[2].maxDrawdownPct).to.eql(0);
+    });
+
+    it("rolling metrics match the metrics computed for each window", () => {
+        const longEquityCurve: ITimestampedValue[] = [];
+        let value = 100;
+        for (let i = 0; i < 50; ++i) {
+            value *= 1 + Math.sin(i * 1.7) * 0.05;
+            longEquityCurve.push({ time: i, value });
+        }
+
+        const windowSize = 7;
+        const metrics = computeRollingMetrics(longEquityCurve, windowSize, { riskFreeRate: 0.02 });
+        expect(metrics.length).to.eql(longEquityCurve.length - windowSize);
+
+        metrics.forEach((windowMetrics, index) => {
+            const window = longEquityCurve.slice(index, index + windowSize + 1);
+            let peak = window[0].value;
+            let maxDrawdownPct = 0;
+            for (const point of window) {
+                peak = Math.max(peak, point.value);
+                maxDrawdownPct = Math.min((point.value / peak - 1) * 100, maxDrawdownPct);
+            }
+
+            expect(windowMetrics.time).to.eql(window[window.length - 1].time);
+            expect(windowMetrics.sharpeRatio).to.be.closeTo(computeRiskMetrics(window, { riskFreeRate: 0.02 }).sharpeRatio!, 1e-9);
+            expect(windowMetrics.maxDrawdownPct).to.be.closeTo(maxDrawdownPct, 1e-9);
+        });
+    });
+
+    it("rolling Sharpe ratio is undefined when returns don't vary", () => {
+        const steadyEquityCurve = [ 100, 101, 102.01, 103.0301, 104.060401 ].map((value, index) => ({ time: index, value }));
+        const metrics = computeRollingMetrics(steadyEquityCurve, 3);
+        expect(metrics.map(windowMetrics => windowMetrics.sharpeRatio)).to.eql([ undefined, undefined ]);
+    });
+
+    it("throws for an invalid window size", () => {
+        expect(() => computeRollingMetrics(equityCurve, 0)).to.throw();
+    });
+});
@@ -0,0 +1,107 @@
+import { expect } from 'chai';
+import { analyze } from '../../lib/analyze';
+import { computeRiskMetrics } from '../../lib/risk-metrics';
+import { ITimestampedValue } from '../../lib/trade';
+
+describe("risk metrics", () => {
+
+    function makeEquityCurve(values: number[]): ITimestampedValue[] {
+        return values.map((value, index) => ({ time: index, value }));
+    }
+
+    // Returns: +10%, -10%, +20%, -25%, +50%.
+    const equityCurve = makeEquityCurve([ 100, 110, 99, 118.8, 89.1, 133.65 ]);
+
+    it("computes cagr from the number of bars in a year", () => {
+        const metrics = computeRiskMetrics(makeEquityCurve([ 100, 110, 121 ]), { barsPerYear: 1 });
+        expect(metrics.cagrPct).to.be.closeTo(10, 0.0001);
+
+        const halfYearlyMetrics = computeRiskMetrics(makeEquityCurve([ 100, 110, 121 ]), { barsPerYear: 2 });
+        expect(halfYearlyMetrics.cagrPct).to.be.closeTo(21, 0.0001);
+    });
+
+    it("computes annualized volatility", () => {
+        const metrics = computeRiskMetrics(equityCurve, { barsPerYear: 4 });
+        // Sample standard deviation of returns is sqrt(0.332 / 4).
+        expect(metrics.annualizedVolatilityPct).to.be.closeTo(Math.sqrt(0.083) * 2 * 100, 0.0001);
+    });
+
+    it("computes sharpe and sortino ratios", () => {
+        const metrics = computeRiskMetrics(equityCurve, { barsPerYear: 4 });
+        // Mean return is 0.09, downside deviation is sqrt((0.01 + 0.0625) / 5).
+        expect(metrics.sharpeRatio).to.be.closeTo(0.09 / Math.sqrt(0.083) * 2, 0.0001);
+        expect(metrics.sortinoRatio).to.be.closeTo(0.09 / Math.sqrt(0.0725 / 5) * 2, 0.0001);
+    });
+
+    it("risk-free rate reduces the sharpe ratio", () => {
+        const metrics = computeRiskMetrics(equityCurve, { barsPerYear: 4 });
+        const riskFreeMetrics = computeRiskMetrics(equityCurve, { barsPerYear: 4, riskFreeRate: 0.05 });
+        expect(riskFreeMetrics.sharpeRatio).to.be.lessThan(metrics.sharpeRatio!);
+    });
+
+    it("computes omega ratio", () => {
+        const metrics = computeRiskMetrics(equityCurve);
+        expect(metrics.omegaRatio).to.be.closeTo(0.8 / 0.35, 0.0001);
+    });
+
+    it("computes mar ratio from the maximum drawdown", () => {
+        const metrics = computeRiskMetrics(equityCurve, { barsPerYear: 5 });
+        expect(metrics.cagrPct).to.be.closeTo(33.65, 0.0001);
+        expect(metrics.marRatio).to.be.closeTo(33.65 / 25, 0.0001);
+        expect(metrics.calmarRatio).to.be.closeTo(metrics.marRatio!, 0.0001);
+    });
+
+    it("calmar ratio only considers the most recent three years", () => {
+        const metrics = computeRiskMetrics(makeEquityCurve([ 100, 50, 100, 110, 100, 120 ]), { barsPerYear: 1 });
+        expect(metrics.marRatio).to.be.closeTo(metrics.cagrPct / 50, 0.0001);
+        expect(metrics.calmarRatio).to.be.closeTo((Math.pow(1.2, 1 / 3) - 1) * 100 / (100 / 11), 0.0001);
+    });
+
+    it("computes ulcer index and ulcer performance index", () => {
+        const metrics = computeRiskMetrics(makeEquityCurve([ 100, 90, 100, 80 ]), { barsPerYear: 3 });
+        const ulcerIndex = Math.sqrt((0 + 100 + 0 + 400) / 4);
+        expect(metrics.ulcerIndex).to.be.closeTo(ulcerIndex, 0.0001);
+        expect(metrics.ulcerPerformanceIndex).to.be.closeTo(-20 / ulcerIndex, 0.0001);
+    });
+
+    it("computes tail ratio", () => {
+        const metrics = computeRiskMetrics(equityCurve);
+        // 95th percentile is 0.44, 5th percentile is -0.22.
+        expect(metrics.tailRatio).to.be.closeTo(2, 0.0001);
+    });
+
+    it("computes skew and kurtosis of returns", () => {
+        const metrics = computeRiskMetrics(makeEquityCurve([ 100, 101, 102.01, 103.0301, 51.51505 ]));
+        expect(metrics.returnSkewness).to.be.closeTo(-1.1547, 0.0001);
+        expect(metrics.returnKurtosis).to.be.closeTo(-0.6667, 0.0001);
+    });
+
+    it("ratios are undefined for an equity curve without drawdown or variation", () => {
+        const metrics = computeRiskMetrics(makeEquityCurve([ 100, 100, 100 ]));
+        expect(metrics.sharpeRatio).to.eql(undefined);
+        expect(metrics.sortinoRatio).to.eql(undefined);
+        expect(metrics.marRatio).to.eql(undefined);
+        expect(metrics.ulcerPerformanceIndex).to.eql(undefined);
+        expect(metrics.returnSkewness).to.eql(undefined);
+    });
+
+    it("throws for an equity curve with less than two values", () => {
+        expect(() => computeRiskMetrics(makeEquityCurve([ 100 ]))).to.throw();
+    });
+
+    it("throws for an invalid number of bars in a year", () => {
+        expect(() => computeRiskMetrics(equityCurve, { barsPerYear: 0 })).to.throw();
+    });
+
+    it("analysis includes risk metrics when given an equity curve", () => {
+        const analysis = analyze(100, [], { equityCurve, barsPerYear: 5 });
+        expect(analysis.cagrPct).to.be.closeTo(33.65, 0.0001);
+        expect(analysis.sharpeRatio).to.not.eql(undefined);
+    });
+
+    it("analysis doesn't include risk metrics without an equity curve", () => {
+        const analysis = analyze(100, []);
+        expect(analysis.cagrPct).to.eql(undefined);
+        expect(analysis.sharpeRatio).to.eql(undefined);
+    });
+});
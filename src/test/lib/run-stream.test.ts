@@ -0,0 +1,268 @@
+import { expect } from 'chai';
+import { DataFrame, IDataFrame } from 'data-forge';
+import * as moment from 'dayjs';
+import { backtest, backtestWithResults } from '../../lib/backtest';
+import { IBar } from '../../lib/bar';
+import { IBroker, IPlaceExitOrderIntent, OrderIntent, SimulatedBroker } from '../../lib/broker';
+import { replay, runStream } from '../../lib/run-stream';
+import { IStrategy } from '../../lib/strategy';
+
+describe("run stream", () => {
+
+    function makeTime(dateStr: string): number {
+        return moment(dateStr, "YYYY/MM/DD").valueOf();
+    }
+
+    function makeDataSeries(bars: { time: string, close: number }[]): IDataFrame<number, IBar> {
+        return new DataFrame<number, IBar>(bars.map(bar => ({
+            time: makeTime(bar.time),
+            open: bar.close,
+            high: bar.close,
+            low: bar.close,
+            close: bar.close,
+            volume: 1,
+        })));
+    }
+
+    const inputSeries = makeDataSeries([
+        { time: "2018/10/20", close: 10 }, // Order placed.
+        { time: "2018/10/21", close: 11 }, // Entered.
+        { time: "2018/10/22", close: 12 }, // Exited.
+        { time: "2018/10/23", close: 10 }, // Order placed.
+        { time: "2018/10/24", close: 9 },  // Entered.
+        { time: "2018/10/25", close: 8 },  // Closed when the feed ends.
+    ]);
+
+    const strategy: IStrategy = {
+        entryRule: (enterPosition, args) => {
+            if (args.bar.close === 10) {
+                enterPosition();
+            }
+        },
+        exitRule: (exitPosition, args) => {
+            if (args.bar.close === 12) {
+                exitPosition();
+            }
+        },
+    };
+
+    it("produces the same trades as a backtest", async () => {
+        const result = await runStream(strategy, replay(inputSeries));
+        expect(result.trades).to.eql(backtest(strategy, inputSeries));
+    });
+
+    it("can run from a synchronous iterable", async () => {
+        const result = await runStream(strategy, inputSeries.toArray());
+        expect(result.trades.length).to.eql(2);
+    });
+
+    it("routes order intents to the broker in order", async () => {
+        const intents: OrderIntent[] = [];
+        const broker: IBroker = {
+            submit: async intent => {
+                await new Promise(resolve => setTimeout(resolve, 1));
+                intents.push(intent);
+            },
+        };
+
+        await runStream(strategy, replay(inputSeries), { broker, symbol: "ABC" });
+        expect(intents.map(intent => intent.type)).to.eql([ "place-order", "place-exit-order", "place-order", "place-exit-order" ]);
+        expect(intents.map(intent => intent.time)).to.eql([
+            makeTime("2018/10/20"),
+            makeTime("2018/10/22"),
+            makeTime("2018/10/23"),
+            makeTime("2018/10/25"),
+        ]);
+        expect(intents.every(intent => intent.symbol === "ABC")).to.eql(true);
+    });
+
+    it("places exits requested by the exit rule before they are filled", async () => {
+        const intents: OrderIntent[] = [];
+        const broker = new SimulatedBroker();
+        const result = await runStream(strategy, replay(inputSeries), {
+            broker: {
+                submit: intent => {
+                    intents.push(intent);
+                    broker.submit(intent);
+                },
+                addBar: bar => broker.addBar(bar),
+            },
+            fillTiming: { exit: "next-open" },
+        });
+
+        const exitIntent = intents[1] as IPlaceExitOrderIntent;
+        expect(exitIntent.type).to.eql("place-exit-order");
+        expect(exitIntent.time).to.eql(makeTime("2018/10/22"));
+        expect(exitIntent.order.orderType).to.eql("market");
+        expect(exitIntent.order.timing).to.eql("next-open");
+
+        // The broker fills the exit at the open of the next bar, as the position manager does.
+        expect(broker.fills[1].time).to.eql(makeTime("2018/10/23"));
+        expect(broker.fills[1].price).to.eql(10);
+        expect(result.trades[0].exitPrice).to.eql(10);
+    });
+
+    it("places working stop loss and profit target orders when a lot is entered", async () => {
+        const intents: OrderIntent[] = [];
+        const bracketStrategy: IStrategy = {
+            entryRule: (enterPosition, args) => {
+                if (args.bar.close === 10) {
+                    enterPosition();
+                }
+            },
+            trailingStopLoss: () => 2,
+            profitTarget: () => 5,
+        };
+
+        const broker = new SimulatedBroker();
+        await runStream(bracketStrategy, replay(makeDataSeries([
+            { time: "2018/10/20", close: 10 }, // Order placed.
+            { time: "2018/10/21", close: 11 }, // Entered, stop at 9 and profit target at 16.
+            { time: "2018/10/22", close: 12 }, // Stop trails to 10.
+            { time: "2018/10/23", close: 9 },  // Gaps through the stop, filled at the open.
+            { time: "2018/10/24", close: 9 },
+        ])), {
+            broker: {
+                submit: intent => {
+                    intents.push(intent);
+                    broker.submit(intent);
+                },
+                addBar: bar => broker.addBar(bar),
+            },
+        });
+
+        const exitIntents = intents.filter(intent => intent.type !== "place-order") as IPlaceExitOrderIntent[];
+        expect(exitIntents.map(intent => [ intent.type, intent.order.orderType, intent.time ])).to.eql([
+            [ "place-exit-order", "stop", makeTime("2018/10/21") ],
+            [ "place-exit-order", "limit", makeTime("2018/10/21") ],
+            [ "modify-exit-order", "stop", makeTime("2018/10/22") ],
+            [ "cancel-exit-order", "limit", makeTime("2018/10/23") ],
+        ]);
+        expect(exitIntents[1].order.limitPrice).to.eql(16);
+        expect(exitIntents[2].order.stopPrice).to.eql(10);
+
+        // The broker fills the stop itself.
+        expect(broker.fills.map(fill => [ fill.side, fill.price, fill.reason ])).to.eql([
+            [ "buy", 11, "entry-rule" ],
+            [ "sell", 9, "stop-loss" ],
+        ]);
+        expect(broker.workingExitOrders).to.eql([]);
+    });
+
+    it("simulated broker records fills, cash and positions", async () => {
+        const sizedStrategy: IStrategy = {
+            ...strategy,
+            positionSize: { type: "fixed-units", units: 10 },
+        };
+
+        const result = await runStream(sizedStrategy, replay(inputSeries), { startingCapital: 1000 });
+        const broker = result.broker as SimulatedBroker;
+        expect(broker.fills.map(fill => fill.side)).to.eql([ "buy", "sell", "buy", "sell" ]);
+        expect(broker.fills.map(fill => fill.price)).to.eql([ 11, 12, 9, 8 ]);
+        expect(broker.fills.map(fill => fill.quantity)).to.eql([ 10, 10, 10, 10 ]);
+        expect(broker.fills[3].reason).to.eql("finalize");
+        expect(broker.cash).to.eql(1000);
+        expect(broker.positions).to.eql({ "": 0 });
+        expect(broker.workingOrders).to.eql([]);
+    });
+
+    it("simulated broker tracks working orders", () => {
+        const broker = new SimulatedBroker();
+        const intents: OrderIntent[] = [];
+        const limitStrategy: IStrategy = {
+            entryRule: (enterPosition, args) => {
+                if (args.pendingEntry === undefined) {
+                    enterPosition({ orderType: "limit", limitPrice: 5 });
+                }
+            },
+        };
+
+        return runStream(limitStrategy, replay(inputSeries), {
+                broker: {
+                    submit: intent => {
+                        intents.push(intent);
+                        broker.submit(intent);
+                    },
+                },
+            })
+            .then(() => {
+                expect(intents.map(intent => intent.type)).to.eql([ "place-order", "cancel-order" ]);
+                expect(broker.workingOrders).to.eql([]);
+                expect(broker.fills).to.eql([]);
+            });
+    });
+
+    it("cancels an entry order that is sized to no units", async () => {
+        const intents: OrderIntent[] = [];
+        const reasons: string[] = [];
+        const zeroStrategy: IStrategy = {
+            ...strategy,
+            positionSize: () => 0,
+            onOrderCancelled: args => reasons.push(args.reason),
+        };
+
+        const result = await runStream(zeroStrategy, replay(inputSeries), {
+            startingCapital: 1000,
+            broker: { submit: intent => { intents.push(intent); } },
+        });
+        expect(result.trades).to.eql([]);
+        expect(intents.map(intent => intent.type)).to.eql([ "place-order", "cancel-order", "place-order", "cancel-order" ]);
+        expect(reasons).to.eql([ "zero-quantity", "zero-quantity" ]);
+    });
+
+    it("simulated broker throws for an unknown intent", () => {
+        expect(() => new SimulatedBroker().submit({ type: "modify-order" } as any)).to.throw();
+    });
+
+    it("computes indicators from the bars received so far", async () => {
+        const indicatorStrategy: IStrategy<IBar, IBar & { numBars: number }> = {
+            prepIndicators: args => args.inputSeries
+                .skip(1)
+                .select(bar => ({ ...bar, numBars: args.inputSeries.count() })),
+            entryRule: (enterPosition, args) => {
+                if (args.bar.numBars === 3) {
+                    enterPosition();
+                }
+            },
+        };
+
+        const result = await runStream(indicatorStrategy, replay(inputSeries));
+        expect(result.trades.length).to.eql(1);
+        expect(result.trades[0].entryTime).to.eql(makeTime("2018/10/23"));
+    });
+
+    it("doesn't pass a bar to the rules again when the indicators are missing the newest bar", async () => {
+        const barTimes: number[] = [];
+        const indicatorStrategy: IStrategy = {
+            // Indicators for the third bar aren't available until the fourth bar arrives.
+            prepIndicators: args => args.inputSeries.count() === 3
+                ? args.inputSeries.take(2)
+                : args.inputSeries,
+            entryRule: (enterPosition, args) => {
+                barTimes.push(args.bar.time);
+            },
+        };
+
+        await runStream(indicatorStrategy, replay(inputSeries));
+        expect(barTimes).to.eql(inputSeries.toArray().map(bar => bar.time));
+    });
+
+    it("records the equity curve and drawdown", async () => {
+        const options = { startingCapital: 1000, recordEquityCurve: true, recordDrawdown: true };
+        const result = await runStream(strategy, replay(inputSeries), options);
+        const expected = backtestWithResults(strategy, inputSeries, options);
+        expect(result.equityCurve).to.eql(expected.equityCurve);
+        expect(result.drawdown).to.eql(expected.drawdown);
+    });
+
+    it("throws when the stream is empty", async () => {
+        let error: Error | undefined;
+        try {
+            await runStream(strategy, replay([]));
+        }
+        catch (err: any) {
+            error = err;
+        }
+        expect(error).to.not.eql(undefined);
+    });
+});
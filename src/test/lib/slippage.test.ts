@@ -0,0 +1,128 @@
+import { expect } from 'chai';
+import { DataFrame, IDataFrame } from 'data-forge';
+import * as moment from 'dayjs';
+import { backtest } from '../../lib/backtest';
+import { IBar } from '../../lib/bar';
+import { applySlippage, ISlippageArgs } from '../../lib/slippage';
+import { IStrategy, TradeDirection } from '../../lib/strategy';
+
+describe("slippage", () => {
+
+    function makeTime(dateStr: string): number {
+        return moment(dateStr, "YYYY/MM/DD").valueOf();
+    }
+
+    interface IBarDef {
+        time: string;
+        open?: number;
+        high?: number;
+        low?: number;
+        close: number;
+        volume?: number;
+    }
+
+    function makeBar(bar: IBarDef): IBar {
+        return {
+            time: makeTime(bar.time),
+            open: bar.open !== undefined ? bar.open : bar.close,
+            high: bar.high !== undefined ? bar.high : bar.close,
+            low: bar.low !== undefined ? bar.low : bar.close,
+            close: bar.close,
+            volume: bar.volume !== undefined ? bar.volume : 1,
+        };
+    }
+
+    function makeDataSeries(bars: IBarDef[]): IDataFrame<number, IBar> {
+        return new DataFrame<number, IBar>(bars.map(makeBar));
+    }
+
+    const buy: ISlippageArgs = {
+        bar: makeBar({ time: "2018/10/20", close: 100, volume: 10 }),
+        order: {
+            direction: TradeDirection.Long,
+            side: "entry",
+            price: 100,
+            quantity: 1,
+            reason: "entry-rule",
+        },
+    };
+
+    const sell: ISlippageArgs = {
+        bar: buy.bar,
+        order: { ...buy.order, side: "exit", reason: "exit-rule" },
+    };
+
+    it("buys fill higher and sells fill lower with tick slippage", () => {
+        const model = { type: "ticks" as const, ticks: 2, tickSize: 0.5 };
+        expect(applySlippage(model, buy)).to.eql(101);
+        expect(applySlippage(model, sell)).to.eql(99);
+    });
+
+    it("entering a short position is a sell and exiting is a buy", () => {
+        const model = { type: "ticks" as const, ticks: 1, tickSize: 1 };
+        const shortEntry = { bar: buy.bar, order: { ...buy.order, direction: TradeDirection.Short } };
+        const shortExit = { bar: buy.bar, order: { ...sell.order, direction: TradeDirection.Short } };
+        expect(applySlippage(model, shortEntry)).to.eql(99);
+        expect(applySlippage(model, shortExit)).to.eql(101);
+    });
+
+    it("can slip by a percentage of price", () => {
+        expect(applySlippage({ type: "percent", percent: 1 }, buy)).to.eql(101);
+    });
+
+    it("can slip by half the spread", () => {
+        expect(applySlippage({ type: "spread", spread: 0.2 }, sell)).to.eql(99.9);
+    });
+
+    it("can slip in proportion to volume taken", () => {
+        const order = { ...buy.order, quantity: 5 };
+        expect(applySlippage({ type: "volume", impactPercent: 2 }, { bar: buy.bar, order })).to.eql(101);
+    });
+
+    it("can compute slippage with a custom function", () => {
+        expect(applySlippage(args => args.order.price + args.bar.volume, buy)).to.eql(110);
+    });
+
+    it("backtest records intended and actual fill prices", () => {
+        const strategy: IStrategy = {
+            entryRule: enterPosition => enterPosition(),
+            stopLoss: () => 10,
+        };
+
+        const inputSeries = makeDataSeries([
+            { time: "2018/10/20", close: 100 },
+            { time: "2018/10/21", close: 100 }, // Entry day.
+            { time: "2018/10/22", close: 80 },  // Gaps through the stop loss.
+        ]);
+
+        const trades = backtest(strategy, inputSeries, { slippage: { type: "ticks", ticks: 1, tickSize: 1 } });
+        expect(trades.length).to.eql(1);
+
+        const trade = trades[0];
+        expect(trade.intendedEntryPrice).to.eql(100);
+        expect(trade.entryPrice).to.eql(101);
+        expect(trade.stopPrice).to.eql(91);
+        expect(trade.intendedExitPrice).to.eql(80);
+        expect(trade.exitPrice).to.eql(79);
+        expect(trade.exitReason).to.eql("stop-loss");
+    });
+
+    it("trades without slippage fill at the intended price", () => {
+        const strategy: IStrategy = {
+            entryRule: enterPosition => enterPosition(),
+        };
+
+        const inputSeries = makeDataSeries([
+            { time: "2018/10/20", close: 100 },
+            { time: "2018/10/21", close: 100 },
+            { time: "2018/10/22", close: 110 },
+        ]);
+
+        const trades = backtest(strategy, inputSeries);
+        const trade = trades[0];
+        expect(trade.entryPrice).to.eql(100);
+        expect(trade.exitPrice).to.eql(110);
+        expect(trade.intendedEntryPrice).to.eql(undefined);
+        expect(trade.intendedExitPrice).to.eql(undefined);
+    });
+});
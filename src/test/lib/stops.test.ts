@@ -0,0 +1,86 @@
+import { expect } from 'chai';
+import { DataFrame } from 'data-forge';
+import { IBar } from '../../lib/bar';
+import { IPosition } from '../../lib/position';
+import { computeStopLoss, StopLossModel } from '../../lib/stops';
+import { IStopLossArgs, TradeDirection } from '../../lib/strategy';
+
+describe("stops", () => {
+
+    function makeBar(day: number, high: number, low: number, close: number): IBar {
+        return {
+            time: Date.parse("2018-10-01T00:00:00Z") + day * 24 * 60 * 60 * 1000,
+            open: close,
+            high,
+            low,
+            close,
+            volume: 1,
+        };
+    }
+
+    function makePosition(direction = TradeDirection.Long, initialStopPrice?: number): IPosition {
+        return {
+            direction,
+            entryTime: makeBar(0, 0, 0, 0).time,
+            entryPrice: 100,
+            growth: 1,
+            profit: 0,
+            profitPct: 0,
+            holdingPeriod: 0,
+            maxPriceRecorded: 100,
+            initialStopPrice,
+        };
+    }
+
+    function makeArgs(position: IPosition, lookback: IBar[]): IStopLossArgs<IBar, {}> {
+        return {
+            entryPrice: position.entryPrice,
+            position,
+            bar: lookback[lookback.length - 1],
+            lookback: new DataFrame<number, IBar>(lookback),
+            parameters: {},
+            state: undefined,
+        };
+    }
+
+    const lookback = [
+        makeBar(0, 102, 98, 100),
+        makeBar(1, 104, 100, 103), // True range 4.
+        makeBar(2, 110, 102, 108), // True range 8.
+    ];
+
+    it("computes a percent stop from the entry price", () => {
+        expect(computeStopLoss({ type: "percent", percent: 5 }, makeArgs(makePosition(), lookback))).to.eql(5);
+    });
+
+    it("computes an ATR stop", () => {
+        expect(computeStopLoss({ type: "atr", multiple: 2, period: 2 }, makeArgs(makePosition(), lookback))).to.eql(12);
+    });
+
+    it("computes a chandelier stop from the highest high or lowest low", () => {
+        const model: StopLossModel<IBar> = { type: "chandelier", multiple: 1, period: 2 };
+        expect(computeStopLoss(model, makeArgs(makePosition(), lookback))).to.eql({ price: 104 });
+        expect(computeStopLoss(model, makeArgs(makePosition(TradeDirection.Short), lookback))).to.eql({ price: 106 });
+    });
+
+    it("throws when the lookback is too short for the ATR", () => {
+        expect(() => computeStopLoss({ type: "atr", multiple: 2, period: 3 }, makeArgs(makePosition(), lookback))).to.throw();
+    });
+
+    it("throws when a stop based on the initial risk is used without a stop loss", () => {
+        expect(() => computeStopLoss({ type: "breakeven", afterR: 1 }, makeArgs(makePosition(), lookback))).to.throw();
+        expect(computeStopLoss({ type: "breakeven", afterR: 1 }, makeArgs(makePosition(TradeDirection.Long, 90), lookback))).to.eql({ price: 90 });
+    });
+
+    it("throws for an invalid option", () => {
+        expect(() => computeStopLoss({ type: "percent", percent: -1 }, makeArgs(makePosition(), lookback))).to.throw();
+    });
+
+    it("throws for an unknown stop", () => {
+        expect(() => computeStopLoss({ type: "random" } as any, makeArgs(makePosition(), lookback))).to.throw();
+    });
+
+    it("passes the arguments through to a stop loss function", () => {
+        expect(computeStopLoss(args => args.entryPrice / 10, makeArgs(makePosition(), lookback))).to.eql(10);
+    });
+});
@@ -0,0 +1,136 @@
+import { expect } from 'chai';
+import { DataFrame, IDataFrame } from 'data-forge';
+import { backtest } from '../../lib/backtest';
+import { IBar } from '../../lib/bar';
+import { IPosition } from '../../lib/position';
+import { IStrategy, TradeDirection } from '../../lib/strategy';
+import { checkTimeExits } from '../../lib/time-exits';
+
+describe("time exits", () => {
+
+    function makeBar(time: string, close = 10): IBar {
+        return {
+            time: Date.parse(time),
+            open: close,
+            high: close,
+            low: close,
+            close: close,
+            volume: 1,
+        };
+    }
+
+    function makePosition(holdingPeriod = 1, barsSinceBestPrice = 0): IPosition {
+        return {
+            direction: TradeDirection.Long,
+            entryTime: Date.parse("2018-10-01T00:00:00Z"),
+            entryPrice: 10,
+            growth: 1,
+            profit: 0,
+            profitPct: 0,
+            holdingPeriod,
+            maxPriceRecorded: 10,
+            barsSinceBestPrice,
+        };
+    }
+
+    it("exits after the maximum number of bars", () => {
+        const bar = makeBar("2018-10-02T00:00:00Z");
+        expect(checkTimeExits({ maxBars: 3 }, bar, makePosition(2))).to.eql(undefined);
+        expect(checkTimeExits({ maxBars: 3 }, bar, makePosition(3))).to.eql("max-bars");
+    });
+
+    it("exits at a time of day", () => {
+        expect(checkTimeExits({ timeOfDay: "15:55" }, makeBar("2018-10-02T15:50:00Z"), makePosition())).to.eql(undefined);
+        expect(checkTimeExits({ timeOfDay: "15:55" }, makeBar("2018-10-02T15:55:00Z"), makePosition())).to.eql("time-of-day");
+    });
+
+    it("time of day is in the timezone", () => {
+        const timeExits = { timeOfDay: "15:55", timezone: "America/New_York" };
+        expect(checkTimeExits(timeExits, makeBar("2018-10-02T15:55:00Z"), makePosition())).to.eql(undefined);
+        expect(checkTimeExits(timeExits, makeBar("2018-10-02T19:55:00Z"), makePosition())).to.eql("time-of-day");
+    });
+
+    it("exits before the weekend", () => {
+        expect(checkTimeExits({ beforeWeekend: true }, makeBar("2018-10-04T00:00:00Z"), makePosition())).to.eql(undefined); // Thursday.
+        expect(checkTimeExits({ beforeWeekend: true }, makeBar("2018-10-05T00:00:00Z"), makePosition())).to.eql("weekend"); // Friday.
+    });
+
+    it("exits before the weekend at a time of day", () => {
+        const timeExits = { beforeWeekend: "15:00" };
+        expect(checkTimeExits(timeExits, makeBar("2018-10-05T14:00:00Z"), makePosition())).to.eql(undefined);
+        expect(checkTimeExits(timeExits, makeBar("2018-10-05T15:00:00Z"), makePosition())).to.eql("weekend");
+    });
+
+    it("exits on a date", () => {
+        const timeExits = { exitDate: Date.parse("2018-10-03T00:00:00Z") };
+        expect(checkTimeExits(timeExits, makeBar("2018-10-02T00:00:00Z"), makePosition())).to.eql(undefined);
+        expect(checkTimeExits(timeExits, makeBar("2018-10-03T00:00:00Z"), makePosition())).to.eql("date");
+    });
+
+    it("exits after a number of bars without a new high", () => {
+        const bar = makeBar("2018-10-02T00:00:00Z");
+        expect(checkTimeExits({ maxBarsWithoutNewHigh: 2 }, bar, makePosition(5, 1))).to.eql(undefined);
+        expect(checkTimeExits({ maxBarsWithoutNewHigh: 2 }, bar, makePosition(5, 2))).to.eql("no-new-high");
+    });
+
+    it("throws for an invalid time of day", () => {
+        expect(() => checkTimeExits({ timeOfDay: "3pm" }, makeBar("2018-10-02T00:00:00Z"), makePosition())).to.throw();
+    });
+
+    it("throws for an invalid number of bars", () => {
+        expect(() => checkTimeExits({ maxBars: 0 }, makeBar("2018-10-02T00:00:00Z"), makePosition())).to.throw();
+    });
+
+    function makeDataSeries(bars: { time: string, close: number }[]): IDataFrame<number, IBar> {
+        return new DataFrame<number, IBar>(bars.map(bar => makeBar(bar.time, bar.close)));
+    }
+
+    const inputSeries = makeDataSeries([
+        { time: "2018-10-01T00:00:00Z", close: 10 }, // Monday.
+        { time: "2018-10-02T00:00:00Z", close: 11 }, // Entry day.
+        { time: "2018-10-03T00:00:00Z", close: 12 },
+        { time: "2018-10-04T00:00:00Z", close: 11 },
+        { time: "2018-10-05T00:00:00Z", close: 10 }, // Friday.
+        { time: "2018-10-08T00:00:00Z", close: 13 },
+    ]);
+
+    function enterOnce(timeExits: IStrategy["timeExits"]): IStrategy {
+        let entered = false;
+        return {
+            entryRule: enterPosition => {
+                if (!entered) {
+                    entered = true;
+                    enterPosition();
+                }
+            },
+            timeExits,
+        };
+    }
+
+    it("backtest exits after the maximum number of bars", () => {
+        const trades = backtest(enterOnce({ maxBars: 2 }), inputSeries);
+        expect(trades.length).to.eql(1);
+        expect(trades[0].exitReason).to.eql("max-bars");
+        expect(trades[0].exitTime).to.eql(Date.parse("2018-10-04T00:00:00Z"));
+        expect(trades[0].holdingPeriod).to.eql(2);
+    });
+
+    it("backtest exits before the weekend", () => {
+        const trades = backtest(enterOnce({ beforeWeekend: true }), inputSeries);
+        expect(trades[0].exitReason).to.eql("weekend");
+        expect(trades[0].exitTime).to.eql(Date.parse("2018-10-05T00:00:00Z"));
+    });
+
+    it("backtest exits after bars without a new high", () => {
+        const trades = backtest(enterOnce({ maxBarsWithoutNewHigh: 2 }), inputSeries);
+        expect(trades[0].exitReason).to.eql("no-new-high");
+        expect(trades[0].exitTime).to.eql(Date.parse("2018-10-05T00:00:00Z"));
+    });
+
+    it("backtest exits on a date at the next open", () => {
+        const trades = backtest(enterOnce({ exitDate: Date.parse("2018-10-03T00:00:00Z") }), inputSeries, { fillTiming: { exit: "next-open" } });
+        expect(trades[0].exitReason).to.eql("date");
+        expect(trades[0].exitTime).to.eql(Date.parse("2018-10-04T00:00:00Z"));
+        expect(trades[0].exitPrice).to.eql(11);
+    });
+});